@@ -1,25 +1,21 @@
 #!/bin/bash
 
 # --- Configuration ---
-PROJECT_ROOT="/home/pablo-madrigal/.openclaw/workspace/personal-rag/personal-rag-kb"
-BACKUP_DIR="/home/pablo-madrigal/.openclaw/workspace/personal-rag/personal-rag-kb-backups"
-
-# Source configuration from ingest.ts to get target paths (requires parsing)
-# For simplicity, we'll hardcode the known paths based on CLAUDE.md for now
-# In a more complex scenario, a Node.js script could dynamically read TARGETS from ingest.ts
-TARGET_STORAGE_PATHS=(
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/personal-rag-kb-storage"
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/paloma-rag-kb-storage"
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/instagram-reels-storage"
-)
-
-# SQLite DB paths (derived from TARGET_STORAGE_PATHS)
-# Assumes DB is named knowledge_base.db within each storage repo
-SQLITE_DB_FILES=(
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/personal-rag-kb-storage/knowledge_base.db"
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/paloma-rag-kb-storage/knowledge_base.db"
-    "/home/pablo-madrigal/.openclaw/workspace/personal-rag/instagram-reels-storage/knowledge_base.db"
-)
+PROJECT_ROOT="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+BACKUP_DIR="${BACKUP_DIR:-$(dirname "$PROJECT_ROOT")/personal-rag-kb-backups}"
+
+# Storage repos and SQLite DB paths come from the target registry (targets.json),
+# read through the compiled targets module so the paths resolve exactly as they do for ingest/query
+TARGETS_MODULE="$PROJECT_ROOT/dist/targets.js"
+if [ ! -f "$TARGETS_MODULE" ]; then
+    echo "Error: $TARGETS_MODULE not found. Run 'npm run build' first."
+    exit 1
+fi
+mapfile -t TARGET_STORAGE_PATHS < <(node -e "require('$TARGETS_MODULE').listTargets().forEach(t => console.log(t.repoPath))")
+mapfile -t SQLITE_DB_FILES < <(node -e "require('$TARGETS_MODULE').listTargets().forEach(t => console.log(t.dbPath))")
+# Targets with vectorStore "local" keep their vectors in a vectors.db file next to the database
+mapfile -t LOCAL_VECTOR_FILES < <(node -e "require('$TARGETS_MODULE').listTargets().filter(t => t.vectorStore === 'local').forEach(t => console.log(t.vectorStorePath))")
+CHROMA_TARGET_COUNT=$(node -e "console.log(require('$TARGETS_MODULE').listTargets().filter(t => t.vectorStore === 'chroma').length)")
 
 # --- Script Logic ---
 
@@ -43,6 +39,7 @@ BACKUP_ITEMS=(
     "$PROJECT_ROOT/package-lock.json"
     "$PROJECT_ROOT/tsconfig.json"
     "$PROJECT_ROOT/.env"
+    "$PROJECT_ROOT/targets.json"
     "$PROJECT_ROOT/CLAUDE.md"
 )
 
@@ -66,17 +63,33 @@ for db_file in "${SQLITE_DB_FILES[@]}"; do
     fi
 done
 
+# Add local vector store files if they exist
+for vector_file in "${LOCAL_VECTOR_FILES[@]}"; do
+    if [ -f "$vector_file" ]; then
+        BACKUP_ITEMS+=("$vector_file")
+        echo "Including vector store file: $vector_file"
+    else
+        echo "Warning: Vector store file not found, skipping: $vector_file"
+    fi
+done
+
 # Perform the backup (use absolute paths without -C flag)
 tar -czvf "$BACKUP_DIR/$ARCHIVE_NAME" "${BACKUP_ITEMS[@]}" || { echo "Error: Tar command failed."; exit 1; }
 
 echo "$(date): Backup complete: $BACKUP_DIR/$ARCHIVE_NAME"
 
 # --- ChromaDB Backup Consideration ---
+# Only relevant for targets still using the ChromaDB server
+if [ "$CHROMA_TARGET_COUNT" -eq 0 ]; then
+    exit 0
+fi
 echo ""
+echo "$CHROMA_TARGET_COUNT target(s) use the ChromaDB server; their vectors are NOT in this archive."
 echo "IMPORTANT: ChromaDB data is managed by Docker volumes."
 echo "For robust backups, ensure your ChromaDB Docker container uses a named volume or bind-mounts its data to a host directory."
 echo "If using an anonymous volume, you would need to use 'docker cp' to extract data, which is not ideal for automated backups."
 echo "Consider adding '-v personal-rag-kb-chroma-data:/chroma/data' to your 'docker run' command for better data persistence and backup."
+echo "Alternatively, 'node dist/cli.js export <file>.tar --target <name>' writes a target with its vectors to a portable bundle."
 
 # Example of how to add a named volume for ChromaDB (run this if you want persistent data):
 # docker run -d -p 8000:8000 -v personal-rag-kb-chroma-data:/chroma/data chromadb/chroma
@@ -0,0 +1,63 @@
+import { TEST_DIR, TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { importBundle, BUNDLE_FORMAT, BUNDLE_VERSION } from '../bundle';
+import { getTarget } from '../targets';
+import { openTargetDb } from '../sources';
+import { writeTar } from '../tar';
+
+function sourceRecord(id: number, archive: string[]) {
+    return {
+        id, url: `https://example.com/${id}`, normalized_url: `https://example.com/${id}`, title: `Source ${id}`, source_type: 'text',
+        summary: null, raw_content: `Content ${id}`, content_hash: `hash-${id}`, simhash: null, near_duplicate_of: null,
+        created_at: '2026-01-01 00:00:00', updated_at: '2026-01-01 00:00:00', refreshed_at: null,
+        tags: [], aliases: [], versions: [], archive,
+    };
+}
+
+test('import refuses archived files that would land outside the repo', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const escaped = path.join(TEST_DIR, 'escaped', '1-x.txt');
+    const absolute = path.join(TEST_DIR, 'absolute', '2-x.txt');
+    const sources = [
+        sourceRecord(1, ['../escaped/1-x.txt']),
+        sourceRecord(2, [absolute]),
+        sourceRecord(3, ['text/3-note.txt']),
+    ];
+    const manifest = {
+        format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exported_at: new Date().toISOString(), target: 'evil', settings: {},
+        embedding: null, counts: { sources: 3, chunks: 0, vectors: 0, files: 3 },
+    };
+    const bundle = path.join(TEST_DIR, 'evil.tar');
+    writeTar(bundle, [
+        { name: 'manifest.json', content: Buffer.from(JSON.stringify(manifest)) },
+        { name: 'sources.jsonl', content: Buffer.from(sources.map(source => JSON.stringify(source)).join('\n') + '\n') },
+        { name: 'chunks.jsonl', content: Buffer.alloc(0) },
+        { name: 'vectors.jsonl', content: Buffer.alloc(0) },
+        // Inside the extracted bundle, but outside its archive/ directory
+        { name: 'escaped/1-x.txt', content: Buffer.from('escaped') },
+        { name: `archive/${absolute.split(path.sep).filter(part => part).join('/')}`, content: Buffer.from('absolute') },
+        { name: 'archive/text/3-note.txt', content: Buffer.from('note') },
+    ]);
+
+    const result = await importBundle(bundle, 'test');
+
+    assert.equal(result.success, false);
+    assert.equal(result.imported, 1);
+    assert.equal(result.files, 1);
+    assert.deepEqual(result.failed!.map(failure => failure.url), ['https://example.com/1', 'https://example.com/2']);
+    assert.ok(result.failed!.every(failure => failure.error.startsWith('Refusing archived file')));
+    assert.ok(!fs.existsSync(escaped));
+    assert.ok(!fs.existsSync(absolute));
+
+    // Refused sources are not stored; the safe one is, with its file renamed after its new ID
+    const target = getTarget('test');
+    const rows = await (await openTargetDb(target)).all('SELECT id, url FROM sources');
+    assert.deepEqual(rows.map(row => row.url), ['https://example.com/3']);
+    assert.equal(fs.readFileSync(path.join(target.repoPath, 'text', `${rows[0].id}-note.txt`), 'utf-8'), 'note');
+});
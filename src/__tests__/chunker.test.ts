@@ -0,0 +1,149 @@
+import { TEST_DIR } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { chunkExtracted, chunkContent, chunkingOptionsFor, validateChunkingOptions, countTokens, ChunkingOptions, CHUNKING_STRATEGIES } from '../chunker';
+import { ContentSegment, ingestFromSource } from '../extractor';
+import { formatLocation, citationUrl, QuerySource } from '../query';
+import { getTarget } from '../targets';
+
+const PROSE = 'Chunks are embedded one by one. Each must fit the model. ';
+// A sentence and a word far longer than maxTokens, both mostly punctuation
+const PUNCTUATION = '!?'.repeat(150) + ' ' + '-'.repeat(300) + '.';
+const LONG_WORD = 'a'.repeat(700) + '.';
+const CJK = '文字は単語の間に空白を入れずに書かれる。'.repeat(20);
+
+const SEGMENTS: ContentSegment[] = [
+    { text: PROSE.repeat(5), section: 'Intro' },
+    { text: PUNCTUATION, section: 'Punctuation' },
+    { text: LONG_WORD + ' ' + PROSE, section: 'Long word' },
+    { text: CJK, section: 'CJK' },
+];
+
+test('every chunk stays within maxTokens with each strategy', () => {
+    const content = SEGMENTS.map(segment => segment.text).join('\n\n');
+    for (const strategy of CHUNKING_STRATEGIES) {
+        const options: ChunkingOptions = { strategy, maxTokens: 20, overlapTokens: 5, minTokens: 5 };
+        for (const sourceType of ['article', 'pdf', 'video'] as const) {
+            const segments = SEGMENTS.map((segment, index) => ({ ...segment, page: index + 1, start_time: index * 10 }));
+            const chunks = chunkExtracted({ content, sourceType, segments }, options);
+            assert.ok(chunks.length > 0);
+            for (const chunk of chunks) {
+                const tokens = countTokens(chunk.content);
+                assert.ok(tokens <= options.maxTokens, `${strategy}/${sourceType}: ${tokens} tokens in ${JSON.stringify(chunk.content)}`);
+            }
+        }
+    }
+});
+
+test('countTokens counts punctuation and unspaced scripts per character', () => {
+    assert.equal(countTokens('embedding'), 2);
+    assert.equal(countTokens('...'), 3);
+    assert.equal(countTokens('漢字かな'), 4);
+    assert.equal(countTokens('abc漢字'), 3);
+});
+
+// Every test sentence is 4 tokens: three words and a period
+const SMALL: ChunkingOptions = { strategy: 'structured', maxTokens: 12, overlapTokens: 0, minTokens: 0 };
+
+const SENTENCES = 'One two three. Four five six. Seven eight nine. Ten eleven twelve.';
+
+test('targets override chunking options per source type', () => {
+    const target = { ...getTarget('test'), chunking: { ...SMALL, bySourceType: { video: { maxTokens: 40, minTokens: 10 } } } };
+    assert.deepEqual(chunkingOptionsFor(target, 'pdf'), SMALL);
+    assert.deepEqual(chunkingOptionsFor(target, 'video'), { ...SMALL, maxTokens: 40, minTokens: 10 });
+});
+
+test('chunking options out of range are refused', () => {
+    assert.doesNotThrow(() => validateChunkingOptions(SMALL, 'chunking'));
+    assert.throws(() => validateChunkingOptions({ ...SMALL, strategy: 'pages' as ChunkingOptions['strategy'] }, 'chunking'), /unknown strategy 'pages'/);
+    assert.throws(() => validateChunkingOptions({ ...SMALL, maxTokens: 9 }, 'chunking'), /chunking\.maxTokens/);
+    assert.throws(() => validateChunkingOptions({ ...SMALL, overlapTokens: 12 }, 'chunking'), /chunking\.overlapTokens/);
+    assert.throws(() => validateChunkingOptions({ ...SMALL, minTokens: 13 }, 'chunking'), /chunking\.minTokens/);
+});
+
+test('chunks repeat whole sentences from the end of the previous one', () => {
+    const chunks = chunkContent(SENTENCES, { ...SMALL, strategy: 'sentences', overlapTokens: 4 });
+    assert.deepEqual(chunks.map(chunk => chunk.content), [
+        'One two three. Four five six. Seven eight nine.',
+        'Seven eight nine. Ten eleven twelve.',
+    ]);
+});
+
+test('a short last chunk repeats more of the previous one instead of being a sliver', () => {
+    const chunks = chunkContent(SENTENCES, { ...SMALL, strategy: 'sentences', minTokens: 5 });
+    assert.deepEqual(chunks.map(chunk => chunk.content), [
+        'One two three. Four five six. Seven eight nine.',
+        'Four five six. Seven eight nine. Ten eleven twelve.',
+    ]);
+    assert.equal(chunkContent(SENTENCES, { ...SMALL, strategy: 'sentences' })[1].content, 'Ten eleven twelve.');
+});
+
+test('the fixed strategy packs words across sentences and sections', () => {
+    const segments = [{ text: 'One two three. Four five', section: 'A' }, { text: 'six. Seven eight nine.', section: 'B' }];
+    const chunks = chunkExtracted({ content: 'One two three. Four five six. Seven eight nine.', sourceType: 'article', segments }, { ...SMALL, strategy: 'fixed', maxTokens: 10 });
+    assert.deepEqual(chunks.map(chunk => [chunk.content, chunk.section]), [
+        ['One two three. Four five six. Seven eight', undefined],
+        ['nine.', undefined],
+    ]);
+});
+
+test('PDF chunks flow across pages and record the page they start on', () => {
+    const segments = [
+        { text: 'One two three. Four five six.', page: 1 },
+        { text: 'Seven eight nine. Ten eleven twelve.', page: 2 },
+    ];
+    const chunks = chunkExtracted({ content: '', sourceType: 'pdf', segments }, SMALL);
+    assert.deepEqual(chunks.map(chunk => [chunk.content, chunk.page]), [
+        ['One two three. Four five six. Seven eight nine.', 1],
+        ['Ten eleven twelve.', 2],
+    ]);
+});
+
+test('Markdown chunks keep to one section and record its heading path', async () => {
+    const file = path.join(TEST_DIR, 'guide.md');
+    fs.writeFileSync(file, [
+        '# Guide', 'Read this first.',
+        '## Setup', 'Install it now.', '```sh', '# not a heading', '```',
+        '## Usage', 'Run it daily.',
+        '# Appendix', 'Short.',
+    ].join('\n'));
+
+    const extracted = await ingestFromSource(file);
+    const chunks = chunkExtracted(extracted, { ...SMALL, maxTokens: 30, minTokens: 25 });
+
+    // Short sections are not merged into their neighbours
+    assert.deepEqual(chunks.map(chunk => chunk.section), ['Guide', 'Guide > Setup', 'Guide > Usage', 'Appendix']);
+    assert.ok(chunks[1].content.includes('# not a heading'));
+    assert.deepEqual(chunks.map(chunk => chunk.chunk_index), [0, 1, 2, 3]);
+});
+
+test('transcript chunks start at the time of their first line', () => {
+    const segments = [
+        { text: 'first caption line', start_time: 0 },
+        { text: 'second caption line', start_time: 5.5 },
+        { text: 'third caption line', start_time: 12 },
+        { text: '  ', start_time: 15 },
+        { text: 'fourth caption line', start_time: 20 },
+    ];
+    const chunks = chunkExtracted({ content: '', sourceType: 'video', segments }, { ...SMALL, maxTokens: 8 });
+    assert.deepEqual(chunks.map(chunk => [chunk.content, chunk.start_time]), [
+        ['first caption line second caption line', 0],
+        ['third caption line fourth caption line', 12],
+    ]);
+});
+
+test('citations show where an excerpt starts', () => {
+    assert.equal(formatLocation({ page: 3 }), 'p. 3');
+    assert.equal(formatLocation({ section: 'Guide > Setup' }), '§ Guide > Setup');
+    assert.equal(formatLocation({ start_time: 75 }), '1:15');
+    assert.equal(formatLocation({ start_time: 3725 }), '1:02:05');
+    assert.equal(formatLocation({ page: 3, kind: 'summary' }), undefined);
+    assert.equal(formatLocation({}), undefined);
+
+    const video = { source_id: 1, url: 'https://www.youtube.com/watch?v=abc', title: 'Talk', content: '', start_time: 754.9 } as QuerySource;
+    assert.equal(citationUrl(video), 'https://www.youtube.com/watch?v=abc&t=754s');
+    assert.equal(citationUrl({ ...video, kind: 'summary' }), video.url);
+    assert.equal(citationUrl({ ...video, url: 'https://example.com/talk' }), 'https://example.com/talk');
+});
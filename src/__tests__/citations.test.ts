@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeCitations } from '../citations';
+import { QuerySource } from '../query';
+
+const SOURCES: QuerySource[] = [
+    {
+        source_id: 10, url: 'https://example.com/worker', title: 'Worker', content: '',
+        passages: [
+            { content: 'The worker retries failed jobs three times before giving up.', page: 3, chunk_indexes: [4], chunk_ids: [101] },
+            { content: 'Tags are normalized to lowercase.', page: 7, chunk_indexes: [9], chunk_ids: [102] },
+        ],
+    },
+    // No passages: its content is the cited text
+    { source_id: 20, url: 'https://example.com/search', title: 'Search', content: 'Hybrid search fuses keyword and vector rankings.' },
+];
+
+test('answers are split into claims with the citations they carry', () => {
+    const answer = 'The worker retries failed jobs three times [Source 1, p. 3]. Hybrid search fuses keyword and vector rankings. [Sources 1 and 2]\n'
+        + '- Tags are lowercase [Source 1, p. 7; Source 5]';
+
+    const { claims, citations } = analyzeCitations(answer, SOURCES);
+
+    // Markers after the full stop stay with their sentence
+    assert.deepEqual(claims, [
+        { text: 'The worker retries failed jobs three times [Source 1, p. 3].', start: 0, citations: [0] },
+        { text: 'Hybrid search fuses keyword and vector rankings. [Sources 1 and 2]', start: 61, citations: [1, 2] },
+        { text: '- Tags are lowercase [Source 1, p. 7; Source 5]', start: answer.indexOf('- Tags'), citations: [3, 4] },
+    ]);
+    assert.deepEqual(citations.map(citation => [citation.source, citation.location, citation.status]), [
+        [1, 'p. 3', 'supported'],
+        [1, undefined, 'unsupported'],
+        [2, undefined, 'supported'],
+        [1, 'p. 7', 'supported'],
+        [5, undefined, 'unknown_source'],
+    ]);
+    assert.deepEqual(citations[0], {
+        claim: 0, marker: '[Source 1, p. 3]', source: 1, location: 'p. 3',
+        source_id: 10, url: 'https://example.com/worker', title: 'Worker',
+        chunk_ids: [101], support: 1, status: 'supported',
+    });
+    assert.equal(citations[1].support, 0);
+    assert.deepEqual(citations[3].chunk_ids, [102]);
+    assert.deepEqual(citations[4], { claim: 2, marker: '[Source 1, p. 7; Source 5]', source: 5, location: undefined, chunk_ids: [], status: 'unknown_source' });
+});
+
+test('a cited location limits the passages a claim is checked against', () => {
+    const [right] = analyzeCitations('The worker retries failed jobs [Source 1, page 3].', SOURCES).citations;
+    assert.equal(right.status, 'supported');
+    const [wrong] = analyzeCitations('The worker retries failed jobs [Source 1, p. 7].', SOURCES).citations;
+    assert.equal(wrong.status, 'unsupported');
+    assert.deepEqual(wrong.chunk_ids, [102]);
+});
+
+test('answers without markers have claims and no citations', () => {
+    const { claims, citations } = analyzeCitations('No source covers this. Try another question!', SOURCES);
+    assert.deepEqual(claims.map(claim => claim.text), ['No source covers this.', 'Try another question!']);
+    assert.deepEqual(citations, []);
+});
@@ -0,0 +1,30 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { getDbConnection, initializeSchema } from '../database';
+import { backfillVectorMetadata, getMetadataVersion, getActiveCollection, recordCollection, VECTOR_METADATA_VERSION } from '../collections';
+import { getTarget } from '../targets';
+
+test('the metadata backfill of a collection without a record is recorded', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const target = getTarget('test');
+    await initializeSchema(target.dbPath);
+    // A database from before collections were recorded: chunks, no vector_collections rows
+    const db = await getDbConnection(target.dbPath);
+    const source = await db.run("INSERT INTO sources (url, normalized_url, source_type, content_hash) VALUES ('https://example.com/old', 'https://example.com/old', 'article', 'old')");
+    await db.run("INSERT INTO chunks (source_id, chunk_index, content) VALUES (?, 0, 'Old content')", source.lastID);
+    await db.exec('DROP TABLE legacy_collection');
+    await initializeSchema(target.dbPath);
+    assert.equal(await getMetadataVersion(target), 1);
+
+    await backfillVectorMetadata(target);
+    assert.equal(await getMetadataVersion(target), VECTOR_METADATA_VERSION);
+
+    // Recording the collection keeps the backfilled version
+    await recordCollection(target, target.collectionName, { provider: 'openai-compatible', model: 'test', dimension: 3 });
+    assert.equal((await getActiveCollection(target))!.metadata_version, VECTOR_METADATA_VERSION);
+    assert.equal(await db.get('SELECT * FROM legacy_collection'), undefined);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDbConnection, withTransaction } from '../database';
+
+test('concurrent first calls share one connection', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const dbPath = path.join(dir, 'shared.db');
+    const connections = await Promise.all(Array.from({ length: 10 }, () => getDbConnection(dbPath)));
+    assert.ok(connections.every(db => db === connections[0]));
+});
+
+test('concurrent transactions on one connection neither interleave nor undo each other', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const db = await getDbConnection(path.join(dir, 'transactions.db'));
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, value INTEGER NOT NULL)');
+
+    const results = await Promise.allSettled(Array.from({ length: 30 }, (_, index) => withTransaction(db, async () => {
+        await db.run('INSERT INTO items (value) VALUES (?)', index);
+        // Yield between statements, as real transactions do while awaiting I/O
+        await new Promise(resolve => setTimeout(resolve, 1));
+        if (index % 10 === 0) throw new Error(`Transaction ${index} failed`);
+        await db.run('INSERT INTO items (value) VALUES (?)', index);
+    })));
+
+    const failed = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    assert.deepEqual(failed.map(result => result.reason.message), ['Transaction 0 failed', 'Transaction 10 failed', 'Transaction 20 failed']);
+    const rows = await db.all('SELECT value, COUNT(*) AS count FROM items GROUP BY value ORDER BY value');
+    // Each committed transaction left both its rows; each failed one left none
+    assert.deepEqual(rows, Array.from({ length: 30 }, (_, index) => index).filter(index => index % 10 !== 0).map(value => ({ value, count: 2 })));
+});
+
+test('a write outside any transaction does not join a concurrent one', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const db = await getDbConnection(path.join(dir, 'unlocked.db'));
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, value INTEGER NOT NULL)');
+    await db.run('INSERT INTO items (id, value) VALUES (1, 1), (2, 2)');
+
+    let started!: () => void;
+    const open = new Promise<void>(resolve => started = resolve);
+    const transaction = withTransaction(db, async () => {
+        await db.run('INSERT INTO items (id, value) VALUES (3, 3)');
+        started();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        throw new Error('Transaction failed');
+    });
+    // Issued while the transaction is open; its rollback must not undo the delete
+    await open;
+    const deleted = db.run('DELETE FROM items WHERE id = 1');
+
+    await assert.rejects(transaction, /Transaction failed/);
+    assert.equal((await deleted).changes, 1);
+    assert.deepEqual(await db.all('SELECT id FROM items ORDER BY id'), [{ id: 2 }]);
+});
+
+test('a failed nested transaction only undoes its own writes', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const db = await getDbConnection(path.join(dir, 'nested.db'));
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, value INTEGER NOT NULL)');
+
+    await withTransaction(db, async () => {
+        await db.run('INSERT INTO items (value) VALUES (1)');
+        await assert.rejects(withTransaction(db, async () => {
+            await db.run('INSERT INTO items (value) VALUES (2)');
+            throw new Error('Nested transaction failed');
+        }));
+        await db.run('INSERT INTO items (value) VALUES (3)');
+    });
+    assert.deepEqual(await db.all('SELECT value FROM items ORDER BY value'), [{ value: 1 }, { value: 3 }]);
+});
@@ -0,0 +1,62 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { computeSimhash, hammingDistance, findContentDuplicate, findSourceIdByUrl, addSourceAlias } from '../duplicates';
+import { openTargetDb } from '../sources';
+import { getTarget } from '../targets';
+
+// Deterministic prose of `count` words from a small vocabulary
+function article(seed: number, count = 300): string {
+    const vocabulary = ['the', 'model', 'retrieval', 'source', 'queue', 'vector', 'index', 'chunk', 'answer', 'cites', 'worker', 'tag', 'stores', 'under', 'every'];
+    return Array.from({ length: count }, (_, i) => vocabulary[(i * 7 + seed * 13 + ((i * seed) % 5)) % vocabulary.length]).join(' ');
+}
+
+test('hamming distance counts differing bits', () => {
+    assert.equal(hammingDistance('0000000000000000', '0000000000000000'), 0);
+    assert.equal(hammingDistance('ff00000000000000', '0000000000000001'), 9);
+    assert.equal(hammingDistance('ffffffffffffffff', '0000000000000000'), 64);
+});
+
+test('simhashes of near copies are close, of other texts far apart', () => {
+    const original = article(1);
+    const edited = original.replace(/^(\S+ ){100}\S+/, match => match.replace(/\S+$/, 'syndicated'));
+    const other = article(2);
+
+    assert.equal(computeSimhash('Too short to fingerprint.'), '');
+    assert.match(computeSimhash(original), /^[0-9a-f]{16}$/);
+    // Case and punctuation don't change the fingerprint
+    assert.equal(computeSimhash(original.toUpperCase().replace(/ /g, ', ')), computeSimhash(original));
+    assert.ok(hammingDistance(computeSimhash(original), computeSimhash(edited)) <= 3);
+    assert.ok(hammingDistance(computeSimhash(original), computeSimhash(other)) > 10);
+});
+
+test('stored duplicates are found by content hash, simhash or alias', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const db = await openTargetDb(getTarget('test'));
+    const original = article(3);
+    // Stored before simhashes were recorded: fingerprinted on the first near-duplicate check
+    const stored = await db.run(
+        'INSERT INTO sources (url, normalized_url, source_type, content_hash, raw_content, simhash) VALUES (?, ?, ?, ?, ?, NULL)',
+        'https://example.com/original', 'https://example.com/original', 'article', 'hash-original', original
+    );
+    const id = stored.lastID!;
+
+    assert.deepEqual(await findContentDuplicate(db, 'hash-original', '', { nearDuplicates: 'off', maxDistance: 3 }), { kind: 'exact', sourceId: id, url: 'https://example.com/original' });
+
+    const near = computeSimhash(original.replace(/^\S+/, 'syndicated'));
+    assert.equal(await findContentDuplicate(db, 'hash-near', near, { nearDuplicates: 'off', maxDistance: 3 }), undefined);
+    const match = await findContentDuplicate(db, 'hash-near', near, { nearDuplicates: 'flag', maxDistance: 3 });
+    assert.equal(match!.kind, 'near');
+    assert.equal(match!.sourceId, id);
+    assert.equal((await db.get('SELECT simhash FROM sources WHERE id = ?', id)).simhash, computeSimhash(original));
+    assert.equal(await findContentDuplicate(db, 'hash-other', computeSimhash(article(4)), { nearDuplicates: 'flag', maxDistance: 3 }), undefined);
+
+    await addSourceAlias(db, id, 'https://mirror.example.com/copy', 'https://mirror.example.com/copy');
+    await addSourceAlias(db, id, 'https://mirror.example.com/copy', 'https://mirror.example.com/copy');
+    assert.equal(await findSourceIdByUrl(db, 'https://example.com/original'), id);
+    assert.equal(await findSourceIdByUrl(db, 'https://mirror.example.com/copy'), id);
+    assert.equal(await findSourceIdByUrl(db, 'https://example.com/unknown'), undefined);
+});
@@ -0,0 +1,16 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Points the target registry and the job queue at a fresh temporary directory with one
+// local target. Import this before any module that reads the config.
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+export const TARGETS_CONFIG = path.join(TEST_DIR, 'targets.json');
+
+fs.mkdirSync(path.join(TEST_DIR, 'test'));
+fs.writeFileSync(TARGETS_CONFIG, JSON.stringify({
+    defaultTarget: 'test',
+    targets: { test: { repoPath: path.join(TEST_DIR, 'test'), vectorStore: 'local', defaultTags: [], classifier: { enabled: false } } },
+}, null, 2));
+process.env.TARGETS_CONFIG = TARGETS_CONFIG;
+process.env.JOBS_DB_PATH = path.join(TEST_DIR, 'jobs.db');
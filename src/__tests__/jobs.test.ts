@@ -0,0 +1,18 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { enqueueJobs, listJobs } from '../jobs';
+
+test('concurrent requests queue a source once', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => enqueueJobs(['https://example.com/once'], [], [])));
+
+    assert.ok(results.every(result => result.success));
+    const ids = new Set(results.map(result => result.jobs![0].id));
+    assert.equal(ids.size, 1);
+    assert.equal(results.filter(result => !result.jobs![0].existing).length, 1);
+    assert.equal((await listJobs()).jobs!.length, 1);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDbConnection } from '../database';
+import { createLocalVectorStore } from '../local-vector-store';
+import { VectorChunk, getChunkVectorId } from '../vector-store';
+
+function chunk(sourceId: number, id: number): VectorChunk {
+    return {
+        id, source_id: sourceId, content: `Chunk ${id}`, url: `https://example.com/${sourceId}`, title: 'Example',
+        tags: ['ai'], source_type: 'article', created_at: '2024-01-01 00:00:00',
+    };
+}
+
+test('vectors are stored, searched by cosine distance and filtered by metadata', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const store = createLocalVectorStore(path.join(dir, 'vectors.db'), 'kb');
+    await store.addChunks([chunk(1, 1), chunk(1, 2), chunk(2, 3)], [[1, 0], [0.8, 0.6], [0, 1]]);
+
+    assert.deepEqual((await store.query([1, 0], 2)).map(match => match.metadata.content), ['Chunk 1', 'Chunk 2']);
+    assert.deepEqual((await store.query([1, 0], 10, { source_id: 2 })).map(match => match.id), [getChunkVectorId(2, 3)]);
+    await assert.rejects(store.addChunks([chunk(2, 4)], [[1, 0, 0]]), /Embedding dimension 3 does not match/);
+
+    await store.updateSourceTags(1, ['ai', 'papers']);
+    assert.deepEqual((await store.query([1, 0], 10, { tags: { $contains: 'papers' } })).map(match => match.metadata.source_id), [1, 1]);
+
+    await store.deleteVectors([getChunkVectorId(1, 1), getChunkVectorId(2, 3)]);
+    assert.deepEqual(await store.listIds(), [getChunkVectorId(1, 2)]);
+});
+
+test('a metadata update that fails partway leaves every vector unchanged', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const filePath = path.join(dir, 'vectors.db');
+    const store = createLocalVectorStore(filePath, 'kb');
+    await store.addChunks([chunk(1, 1), chunk(1, 2)], [[1, 0], [0, 1]]);
+    const db = await getDbConnection(filePath);
+    await db.run("UPDATE vectors SET metadata = 'not json' WHERE id = ?", getChunkVectorId(1, 2));
+
+    await assert.rejects(store.updateSourceMetadata(1, { title: 'Renamed' }), SyntaxError);
+    await assert.rejects(store.updateSourceTags(1, ['renamed']), SyntaxError);
+
+    const first = JSON.parse((await db.get('SELECT metadata FROM vectors WHERE id = ?', getChunkVectorId(1, 1))).metadata);
+    assert.equal(first.title, 'Example');
+    assert.equal(first.tags, 'ai');
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { normalizedScores, selectMmr, rerankCandidates, DEFAULT_RERANK } from '../rerank';
+import { RetrievedChunk } from '../retrieval';
+import { VectorMetadata } from '../vector-store';
+
+function candidate(id: string, content: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+    return { id, metadata: { content } as VectorMetadata, ...fields };
+}
+
+// Two near-identical chunks and a different one, in order of relevance
+const WORKER = candidate('worker', 'The queue worker retries failed jobs three times.', { score: 0.9 });
+const WORKER_COPY = candidate('worker-copy', 'The queue worker retries failed jobs three times, then stops.', { score: 0.8 });
+const TAGS = candidate('tags', 'Tags are normalized to lowercase before they are stored.', { score: 0.6 });
+
+test('retrieval scores are scaled from 0 to 1 whatever the retriever', () => {
+    assert.deepEqual(normalizedScores([candidate('a', '', { score: 0.5 }), candidate('b', '', { score: 0.25 }), candidate('c', '', { score: 0 })]), [1, 0.5, 0]);
+    // Vector distances: the closest chunk is the most relevant
+    assert.deepEqual(normalizedScores([candidate('a', '', { distance: 0.1 }), candidate('b', '', { distance: 0.3 })]), [1, 0]);
+    assert.deepEqual(normalizedScores([candidate('a', '', { keywordScore: 2 }), candidate('b', '', { keywordScore: 2 })]), [1, 1]);
+});
+
+test('MMR picks a different chunk over a near duplicate of one already picked', () => {
+    const selected = selectMmr([WORKER, WORKER_COPY, TAGS], 2, 0.7, [1, 0.9, 0.6]);
+    assert.deepEqual(selected.map(chunk => chunk.id), ['worker', 'tags']);
+    assert.equal(selected[0].mmrScore, 0.7);
+    assert.equal(selected[1].mmrScore, 0.7 * 0.6);
+
+    // Relevance only: the retrieval order is kept
+    assert.deepEqual(selectMmr([WORKER, WORKER_COPY, TAGS], 3, 1, [1, 0.9, 0.6]).map(chunk => chunk.id), ['worker', 'worker-copy', 'tags']);
+    // LLM relevances take the place of retrieval scores
+    const judged = [{ ...WORKER, relevance: 0.2 }, { ...WORKER_COPY, relevance: 0.5 }, { ...TAGS, relevance: 1 }];
+    assert.deepEqual(selectMmr(judged, 3, 1).map(chunk => chunk.id), ['tags', 'worker-copy', 'worker']);
+});
+
+test('reranking without the LLM stage needs no model', async () => {
+    // An unrelated last candidate, so TAGS isn't scaled to a relevance of 0
+    const candidates = [WORKER, WORKER_COPY, TAGS, candidate('other', 'Unrelated.', { score: 0 })];
+    assert.deepEqual((await rerankCandidates('retries?', candidates, 2, DEFAULT_RERANK)).map(chunk => chunk.id), ['worker', 'tags']);
+    assert.deepEqual(await rerankCandidates('retries?', candidates, 2, { ...DEFAULT_RERANK, mmr: false }), [WORKER, WORKER_COPY]);
+    assert.deepEqual(await rerankCandidates('retries?', [], 2, DEFAULT_RERANK), []);
+});
@@ -0,0 +1,67 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { toFtsQuery, fuseRankings, keywordSearch, RetrievedChunk, RRF_K } from '../retrieval';
+import { openTargetDb } from '../sources';
+import { getTarget } from '../targets';
+import { VectorMetadata } from '../vector-store';
+
+function candidate(id: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+    return { id, metadata: { content: id } as VectorMetadata, ...fields };
+}
+
+test('questions become FTS5 queries that quote every term', () => {
+    assert.equal(toFtsQuery('What is ERR-42 in node.js?'), '("What" OR "is" OR "ERR 42" OR "in" OR "node js")');
+    assert.equal(toFtsQuery('"exact  phrase" other other'), '"exact phrase" AND ("other")');
+    assert.equal(toFtsQuery('"only a phrase"'), '"only a phrase"');
+    // FTS5 operators and syntax characters are only words to match
+    assert.equal(toFtsQuery('NEAR(a b) OR c*'), '("NEAR a" OR "b" OR "OR" OR "c")');
+    assert.equal(toFtsQuery('?! "" -'), undefined);
+});
+
+test('reciprocal rank fusion ranks chunks found by both retrievers first', () => {
+    const vector = [candidate('a', { distance: 0.1 }), candidate('b', { distance: 0.2 })];
+    const keyword = [candidate('b', { keywordScore: 3 }), candidate('c', { keywordScore: 2 })];
+
+    const fused = fuseRankings([vector, keyword]);
+
+    assert.deepEqual(fused.map(chunk => chunk.id), ['b', 'a', 'c']);
+    assert.equal(fused[0].score, 1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    // A chunk found by both keeps both retrievers' scores
+    assert.equal(fused[0].distance, 0.2);
+    assert.equal(fused[0].keywordScore, 3);
+    assert.equal(fuseRankings([vector, keyword], 2).length, 2);
+});
+
+test('keyword search finds exact terms and applies tag filters', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const db = await openTargetDb(getTarget('test'));
+    const add = async (url: string, tags: string[], contents: string[]) => {
+        const source = await db.run(
+            'INSERT INTO sources (url, normalized_url, source_type, content_hash, tags) VALUES (?, ?, ?, ?, ?)',
+            url, url, 'article', url, JSON.stringify(tags)
+        );
+        for (const tag of tags) {
+            await db.run('INSERT OR IGNORE INTO tags (name) VALUES (?)', tag);
+            await db.run('INSERT INTO source_tags (source_id, tag_id) SELECT ?, id FROM tags WHERE name = ?', source.lastID, tag);
+        }
+        for (const [index, content] of contents.entries()) {
+            await db.run('INSERT INTO chunks (source_id, chunk_index, content) VALUES (?, ?, ?)', source.lastID, index, content);
+        }
+        return source.lastID!;
+    };
+    const errors = await add('https://example.com/errors', ['ops'], ['The worker fails with ERR-42 when the queue is full.', 'Restart it afterwards.']);
+    const notes = await add('https://example.com/notes', ['notes'], ['ERR 7 and 42 other errors are unrelated.']);
+
+    const results = await keywordSearch(db, 'why ERR-42?');
+    assert.deepEqual(results.map(result => result.metadata.source_id), [errors]);
+    assert.ok(results[0].keywordScore! > 0);
+    assert.equal(results[0].metadata.content, 'The worker fails with ERR-42 when the queue is full.');
+
+    assert.deepEqual((await keywordSearch(db, 'errors OR queue', 10, { not: ['ops'] })).map(result => result.metadata.source_id), [notes]);
+    assert.deepEqual(await keywordSearch(db, 'queue', 10, { all: ['notes'] }), []);
+    assert.deepEqual(await keywordSearch(db, '"'), []);
+});
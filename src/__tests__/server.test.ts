@@ -0,0 +1,74 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { startServer } from '../server';
+
+const PORT = 38787;
+
+async function waitForServer(): Promise<void> {
+    for (let attempt = 0; attempt < 50; attempt++) {
+        try {
+            if ((await fetch(`http://127.0.0.1:${PORT}/health`)).ok) return;
+        } catch (error) {
+            // Not listening yet
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error('The server did not start.');
+}
+
+test('concurrent POST /ingest requests all succeed', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const serving = startServer({ port: PORT, worker: false });
+    await waitForServer();
+    try {
+        const responses = await Promise.all(Array.from({ length: 30 }, async (_, index) => {
+            const response = await fetch(`http://127.0.0.1:${PORT}/ingest`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ source: `https://example.com/article-${index}`, tags: ['concurrent'] }),
+            });
+            return { status: response.status, body: await response.json() };
+        }));
+        for (const response of responses) {
+            assert.equal(response.status, 202, JSON.stringify(response.body));
+            assert.equal(response.body.success, true);
+        }
+
+        const jobs = await (await fetch(`http://127.0.0.1:${PORT}/jobs?limit=100`)).json();
+        assert.equal(jobs.jobs.length, 30);
+        assert.ok(jobs.jobs.every((job: any) => job.targets.length === 1 && job.targets[0].target === 'test'));
+    } finally {
+        process.emit('SIGINT');
+        assert.deepEqual(await serving, { success: true });
+    }
+});
+
+test('malformed paths and filters are rejected with 400', async () => {
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const serving = startServer({ port: PORT, worker: false });
+    await waitForServer();
+    try {
+        const source = await fetch(`http://127.0.0.1:${PORT}/sources/%E0`);
+        assert.equal(source.status, 400);
+        assert.equal((await source.json()).success, false);
+
+        for (const filter of ['recent', [1], { ids: ['1'] }, { types: 'pdf' }, { since: 7 }]) {
+            const response = await fetch(`http://127.0.0.1:${PORT}/query`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ question: 'What is stored?', filter }),
+            });
+            const body = await response.json();
+            assert.equal(response.status, 400, JSON.stringify(body));
+            assert.match(body.error, /^filter/);
+        }
+    } finally {
+        process.emit('SIGINT');
+        assert.deepEqual(await serving, { success: true });
+    }
+});
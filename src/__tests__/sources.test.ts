@@ -0,0 +1,25 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { deleteSource, openTargetDb } from '../sources';
+import { getTarget } from '../targets';
+
+test('a delete that fails in SQLite is reported and leaves the source', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const target = getTarget('test');
+    const db = await openTargetDb(target);
+    const source = await db.run("INSERT INTO sources (url, normalized_url, source_type, content_hash) VALUES ('https://example.com/kept', 'https://example.com/kept', 'article', 'kept')");
+    await db.exec("CREATE TRIGGER refuse_delete BEFORE DELETE ON sources BEGIN SELECT RAISE(ABORT, 'database is locked'); END");
+
+    const result = await deleteSource(target, String(source.lastID));
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /^Deleted the vectors but not the source: .*database is locked/);
+    assert.ok(await db.get('SELECT id FROM sources WHERE id = ?', source.lastID));
+
+    await db.exec('DROP TRIGGER refuse_delete');
+    assert.equal((await deleteSource(target, String(source.lastID))).success, true);
+});
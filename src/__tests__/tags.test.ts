@@ -0,0 +1,83 @@
+import { TARGETS_CONFIG } from './fixtures';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { config } from '../config';
+import { normalizeTags, findTaggedSourceIds, setSourceTags, migrateJsonTags, listTags, renameTag, mergeTags, deleteTag } from '../tags';
+import { openTargetDb } from '../sources';
+import { getTarget } from '../targets';
+
+async function addSource(url: string, tags: string[]): Promise<number> {
+    const db = await openTargetDb(getTarget('test'));
+    const source = await db.run('INSERT INTO sources (url, normalized_url, source_type, content_hash) VALUES (?, ?, ?, ?)', url, url, 'article', url);
+    await setSourceTags(db, source.lastID!, tags);
+    return source.lastID!;
+}
+
+async function tagsOf(id: number): Promise<string[]> {
+    const db = await openTargetDb(getTarget('test'));
+    return JSON.parse((await db.get('SELECT tags FROM sources WHERE id = ?', id)).tags);
+}
+
+test('tags are normalized and deduplicated', () => {
+    assert.deepEqual(normalizeTags([' Machine  Learning ', 'machine-learning', 'AI', '', '  ']), ['machine-learning', 'ai']);
+});
+
+test('tag filters match whole tags only', async () => {
+    // A .env file overrides the environment: never run against a real registry
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const db = await openTargetDb(getTarget('test'));
+    const ai = await addSource('https://example.com/ai', ['AI', 'papers']);
+    const air = await addSource('https://example.com/air', ['air', 'papers']);
+    const both = await addSource('https://example.com/both', ['ai', 'air']);
+
+    assert.deepEqual(await findTaggedSourceIds(db, { all: ['ai'] }), [ai, both]);
+    assert.deepEqual(await findTaggedSourceIds(db, { all: ['ai', 'Papers'] }), [ai]);
+    assert.deepEqual(await findTaggedSourceIds(db, { any: ['ai', 'air'], not: ['papers'] }), [both]);
+    assert.deepEqual(await findTaggedSourceIds(db, { not: ['ai'] }), [air]);
+    assert.deepEqual(await findTaggedSourceIds(db, { all: ['a'] }), []);
+});
+
+test('tags are renamed, merged and deleted on every source', async () => {
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const target = getTarget('test');
+    const first = await addSource('https://example.com/first', ['ml', 'deep-learning']);
+    const second = await addSource('https://example.com/second', ['machine-learning', 'draft']);
+
+    assert.equal((await renameTag(target, 'ML', 'Machine Learning')).success, false);
+    assert.deepEqual(await renameTag(target, 'draft', 'Review'), { success: true, target: 'test', tag: 'review', sources: 1 });
+    assert.deepEqual(await tagsOf(second), ['machine-learning', 'review']);
+
+    assert.deepEqual(await mergeTags(target, ['ml', 'Deep Learning'], 'machine-learning'), { success: true, target: 'test', tag: 'machine-learning', sources: 1 });
+    assert.deepEqual(await tagsOf(first), ['machine-learning']);
+
+    assert.deepEqual(await deleteTag(target, 'review'), { success: true, target: 'test', tag: 'review', sources: 1 });
+    assert.deepEqual(await tagsOf(second), ['machine-learning']);
+    assert.equal((await deleteTag(target, 'review')).success, false);
+
+    // Tags left without sources are removed
+    const tags = (await listTags(target)).tags!.map(tag => tag.name);
+    assert.ok(tags.includes('machine-learning'));
+    assert.ok(!['ml', 'deep-learning', 'draft', 'review'].some(tag => tags.includes(tag)));
+});
+
+test('JSON tags of older databases are migrated normalized', async () => {
+    assert.equal(config.targetsConfigPath, TARGETS_CONFIG);
+
+    const db = await openTargetDb(getTarget('test'));
+    const source = await db.run(
+        'INSERT INTO sources (url, normalized_url, source_type, content_hash, tags) VALUES (?, ?, ?, ?, ?)',
+        'https://example.com/old', 'https://example.com/old', 'article', 'old', JSON.stringify(['Old Tag', 'old-tag', 'News'])
+    );
+    const broken = await db.run(
+        'INSERT INTO sources (url, normalized_url, source_type, content_hash, tags) VALUES (?, ?, ?, ?, ?)',
+        'https://example.com/broken', 'https://example.com/broken', 'article', 'broken', 'not json'
+    );
+
+    await migrateJsonTags(db);
+
+    assert.deepEqual(await tagsOf(source.lastID!), ['old-tag', 'news']);
+    assert.deepEqual(await tagsOf(broken.lastID!), []);
+    assert.deepEqual(await findTaggedSourceIds(db, { all: ['old-tag'] }), [source.lastID]);
+});
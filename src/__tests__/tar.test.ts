@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeTar, extractTar } from '../tar';
+
+test('files and contents come back unchanged, with long multi-byte names', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const file = path.join(dir, 'input.bin');
+    // Larger than a block and not a multiple of one, to exercise the padding
+    const binary = Buffer.from(Array.from({ length: 1500 }, (_, i) => i % 256));
+    fs.writeFileSync(file, binary);
+    const longName = `archive/${'é'.repeat(40)}/${'文'.repeat(30)}.txt`;
+    const entries = [
+        { name: 'manifest.json', content: Buffer.from('{"format":"test"}') },
+        { name: 'empty.txt', content: Buffer.alloc(0) },
+        { name: 'data/input.bin', file },
+        { name: longName, content: Buffer.from('long name') },
+    ];
+    const tarPath = path.join(dir, 'bundle.tar');
+    writeTar(tarPath, entries);
+
+    const out = path.join(dir, 'out');
+    assert.deepEqual(extractTar(tarPath, out), entries.map(entry => entry.name));
+    assert.equal(fs.readFileSync(path.join(out, 'manifest.json'), 'utf-8'), '{"format":"test"}');
+    assert.equal(fs.readFileSync(path.join(out, 'empty.txt')).length, 0);
+    assert.deepEqual(fs.readFileSync(path.join(out, 'data', 'input.bin')), binary);
+    assert.equal(fs.readFileSync(path.join(out, ...longName.split('/')), 'utf-8'), 'long name');
+
+    // The ustar name after the PAX header is a fallback for tools without PAX support:
+    // the end of the path, cut between characters
+    const archive = fs.readFileSync(tarPath);
+    const paxHeader = archive.indexOf('PaxHeader');
+    const paxSize = parseInt(archive.subarray(paxHeader + 124, paxHeader + 135).toString(), 8);
+    const fallback = paxHeader + 512 + Math.ceil(paxSize / 512) * 512;
+    const name = archive.subarray(fallback, fallback + 100);
+    const decoded = name.subarray(0, name.indexOf(0) === -1 ? 100 : name.indexOf(0)).toString('utf-8');
+    assert.ok(!decoded.includes('�'), decoded);
+    assert.ok(longName.endsWith(decoded));
+});
+
+test('entries that would land outside the destination are refused', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-test-'));
+    const tarPath = path.join(dir, 'evil.tar');
+    writeTar(tarPath, [{ name: '../escaped.txt', content: Buffer.from('escaped') }]);
+
+    assert.throws(() => extractTar(tarPath, path.join(dir, 'out')), /Refusing to extract \.\.\/escaped\.txt/);
+    assert.ok(!fs.existsSync(path.join(dir, 'escaped.txt')));
+});
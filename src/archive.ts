@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The subset of ExtractedContent needed to write an archive file
+export interface ArchiveInput {
+    title: string;
+    sourceType: string;
+    fileExtension: string;
+    source: string;
+    originalContent: string;
+}
+
+function sanitizeFilename(name: string): string {
+    return name.replace(/[^a-z0-9_\-\.]/gi, '_').substring(0, 100);
+}
+
+/**
+ * Directory name for a source type inside a target repo, e.g. 'article' -> 'Article'.
+ */
+export function getSourceTypeDir(sourceType: string): string {
+    return sourceType.charAt(0).toUpperCase() + sourceType.slice(1);
+}
+
+/**
+ * Archives the original content to {repoPath}/{SourceType}/{YYYY-MM}/{sourceId}-{sanitizedTitle}.ext
+ * and returns the path written. Local PDFs and text files are copied; everything else
+ * has its originalContent written to disk.
+ */
+export function archiveSource(repoPath: string, sourceId: number, input: ArchiveInput, date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const dateDir = `${year}-${month}`;
+
+    const storageDir = path.join(repoPath, getSourceTypeDir(input.sourceType), dateDir);
+    fs.mkdirSync(storageDir, { recursive: true });
+
+    const filename = `${sourceId}-${sanitizeFilename(input.title)}${input.fileExtension}`;
+    const filePath = path.join(storageDir, filename);
+
+    if (['pdf', 'text'].includes(input.sourceType) && fs.existsSync(input.source)) {
+        fs.copyFileSync(input.source, filePath);
+    } else {
+        fs.writeFileSync(filePath, input.originalContent);
+    }
+    return filePath;
+}
+
+/**
+ * Finds the archived file(s) of a source. The month directory depends on when the
+ * source was archived, so every {YYYY-MM} directory under the type directory is searched.
+ */
+export function findArchivedFiles(repoPath: string, sourceType: string, sourceId: number): string[] {
+    const typeDir = path.join(repoPath, getSourceTypeDir(sourceType));
+    if (!fs.existsSync(typeDir)) return [];
+
+    const prefix = `${sourceId}-`;
+    const matches: string[] = [];
+    for (const dateDir of fs.readdirSync(typeDir, { withFileTypes: true })) {
+        if (!dateDir.isDirectory()) continue;
+        const dirPath = path.join(typeDir, dateDir.name);
+        for (const file of fs.readdirSync(dirPath)) {
+            if (file.startsWith(prefix)) matches.push(path.join(dirPath, file));
+        }
+    }
+    return matches;
+}
@@ -0,0 +1,477 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Database } from 'sqlite';
+import { TargetConfig, TargetDefinition, findTarget, addTarget } from './targets';
+import { openTargetDb } from './sources';
+import { withTransaction } from './database';
+import { setSourceTags, pruneUnusedTags } from './tags';
+import { findSourceIdByUrl, addSourceAlias } from './duplicates';
+import { getActiveCollection, assertSameModel, recordCollection } from './collections';
+import { getVectorStore, getChunkVectorId, VectorChunk, VectorStoreBackend } from './vector-store';
+import { findArchivedFiles } from './archive';
+import { withIngestLock } from './ingest';
+import { EmbeddingInfo, embeddingModelKey } from './llm-provider';
+import { writeTar, extractTar } from './tar';
+
+export const BUNDLE_FORMAT = 'personal-rag-kb-export';
+export const BUNDLE_VERSION = 1;
+
+/**
+ * manifest.json of a bundle. sources.jsonl, chunks.jsonl and vectors.jsonl follow
+ * it, all ordered by source ID, and archive/ holds the archived originals under
+ * their path in the target's repo.
+ */
+export interface BundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exported_at: string;
+    target: string;
+    // Target settings, applied when importing into a new target
+    settings: Omit<TargetDefinition, 'repoPath' | 'dbPath' | 'collectionName'>;
+    // Model of the vectors; null when the bundle has none
+    embedding: EmbeddingInfo | null;
+    counts: { sources: number, chunks: number, vectors: number, files: number };
+}
+
+// A line of sources.jsonl: the sources row with its tags, aliases, versions and archive files
+interface SourceRecord {
+    id: number;
+    url: string;
+    normalized_url: string;
+    title: string | null;
+    source_type: string;
+    summary: string | null;
+    raw_content: string | null;
+    content_hash: string;
+    simhash: string | null;
+    near_duplicate_of: number | null;
+    created_at: string;
+    updated_at: string;
+    refreshed_at: string | null;
+    tags: string[];
+    aliases: { url: string, normalized_url: string }[];
+    versions: { title: string | null, raw_content: string | null, content_hash: string, replaced_at: string }[];
+    archive: string[];      // Paths relative to the repo, '/'-separated
+}
+
+// A line of chunks.jsonl
+interface ChunkRecord {
+    id: number;
+    source_id: number;
+    chunk_index: number;
+    content: string;
+    kind: string;
+    page: number | null;
+    section: string | null;
+    start_time: number | null;
+    created_at: string;
+}
+
+// A line of vectors.jsonl. The embedding is base64 of little-endian float32 values,
+// the precision both vector store backends keep.
+interface VectorRecord {
+    chunk_id: number;
+    source_id: number;
+    embedding: string;
+}
+
+export interface ExportResult {
+    success: boolean;
+    target?: string;
+    path?: string;
+    sources?: number;
+    chunks?: number;
+    vectors?: number;
+    files?: number;
+    missingVectors?: number;    // Chunks exported without a vector
+    error?: string;
+}
+
+export interface ImportOptions {
+    // Create the target when it isn't registered, storing its archives here
+    repoPath?: string;
+    vectorStore?: VectorStoreBackend;   // For a created target (default: the exported target's)
+}
+
+export interface ImportResult {
+    success: boolean;
+    target?: string;
+    created?: boolean;          // The target was registered by the import
+    imported?: number;          // Sources added
+    skipped?: { url: string, existing: number }[];  // Already present (same normalized URL, URL or content)
+    failed?: { url: string, error: string }[];
+    chunks?: number;
+    vectors?: number;
+    files?: number;
+    missingVectors?: number;    // Chunks imported without a vector; `doctor --reembed` embeds them
+    error?: string;
+}
+
+function encodeEmbedding(embedding: number[]): string {
+    return Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+}
+
+function decodeEmbedding(encoded: string): number[] {
+    // Copy into a fresh buffer: Float32Array needs a 4-byte aligned offset
+    return Array.from(new Float32Array(Uint8Array.from(Buffer.from(encoded, 'base64')).buffer));
+}
+
+function writeLine(fd: number, record: object): void {
+    fs.writeSync(fd, JSON.stringify(record) + '\n');
+}
+
+/**
+ * Writes a target to a tar bundle: its sources (with tags, aliases and versions) and
+ * chunks as JSONL, the vectors of its active collection with their model, and the
+ * archived originals. The SQLite rows are read in one transaction, so the bundle is
+ * consistent even while sources are being ingested.
+ */
+export async function exportTarget(target: TargetConfig, outPath: string): Promise<ExportResult> {
+    const staging = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-export-'));
+    try {
+        const db = await openTargetDb(target);
+        const collection = await getActiveCollection(target);
+        const store = collection ? getVectorStore(target, collection.name) : undefined;
+        if (!collection) {
+            console.error(`Target ${target.name} has no recorded vector collection; exporting without vectors.`);
+        }
+
+        const files = { sources: fs.openSync(path.join(staging, 'sources.jsonl'), 'w'), chunks: fs.openSync(path.join(staging, 'chunks.jsonl'), 'w'), vectors: fs.openSync(path.join(staging, 'vectors.jsonl'), 'w') };
+        const counts = { sources: 0, chunks: 0, vectors: 0, files: 0 };
+        const archiveEntries: { name: string, file: string }[] = [];
+        let missingVectors = 0;
+
+        console.error(`Exporting target ${target.name} to ${outPath}...`);
+        try {
+            await withTransaction(db, async () => {
+                const sources = await db.all('SELECT * FROM sources ORDER BY id');
+                for (const source of sources) {
+                    const tags = await db.all('SELECT tags.name FROM source_tags JOIN tags ON tags.id = source_tags.tag_id WHERE source_tags.source_id = ? ORDER BY tags.name', source.id);
+                    const aliases = await db.all('SELECT url, normalized_url FROM source_aliases WHERE source_id = ? ORDER BY id', source.id);
+                    const versions = await db.all('SELECT title, raw_content, content_hash, replaced_at FROM source_versions WHERE source_id = ? ORDER BY id', source.id);
+                    const archive = findArchivedFiles(target.repoPath, source.source_type, source.id)
+                        .map(file => path.relative(target.repoPath, file).split(path.sep).join('/'));
+                    archive.forEach(name => archiveEntries.push({ name: `archive/${name}`, file: path.join(target.repoPath, name) }));
+
+                    const { tags: _json, ...row } = source;
+                    const record: SourceRecord = { ...row, tags: tags.map(tag => tag.name), aliases, versions, archive };
+                    writeLine(files.sources, record);
+
+                    const chunks: ChunkRecord[] = await db.all(
+                        'SELECT id, source_id, chunk_index, content, kind, page, section, start_time, created_at FROM chunks WHERE source_id = ? ORDER BY id',
+                        source.id
+                    );
+                    chunks.forEach(chunk => writeLine(files.chunks, chunk));
+
+                    const embeddings = store ? await store.getSourceEmbeddings(source.id) : new Map<string, number[]>();
+                    for (const chunk of chunks) {
+                        const embedding = embeddings.get(getChunkVectorId(source.id, chunk.id));
+                        if (embedding) {
+                            const vector: VectorRecord = { chunk_id: chunk.id, source_id: source.id, embedding: encodeEmbedding(embedding) };
+                            writeLine(files.vectors, vector);
+                            counts.vectors++;
+                        } else if (store) {
+                            missingVectors++;
+                        }
+                    }
+                    counts.sources++;
+                    counts.chunks += chunks.length;
+                    counts.files += archive.length;
+                }
+            });
+        } finally {
+            Object.values(files).forEach(fd => fs.closeSync(fd));
+        }
+
+        const { name, repoPath, dbPath, collectionName, vectorStorePath, ...settings } = target;
+        const manifest: BundleManifest = {
+            format: BUNDLE_FORMAT,
+            version: BUNDLE_VERSION,
+            exported_at: new Date().toISOString(),
+            target: target.name,
+            settings,
+            embedding: collection ? { provider: collection.embedding_provider, model: collection.embedding_model, dimension: collection.embedding_dimension } : null,
+            counts,
+        };
+        writeTar(outPath, [
+            { name: 'manifest.json', content: Buffer.from(JSON.stringify(manifest, null, 2)) },
+            ...['sources.jsonl', 'chunks.jsonl', 'vectors.jsonl'].map(file => ({ name: file, file: path.join(staging, file) })),
+            ...archiveEntries,
+        ]);
+
+        if (missingVectors > 0) {
+            console.error(`Warning: ${missingVectors} chunk(s) have no vector in '${collection!.name}' and were exported without one (see \`doctor\`).`);
+        }
+        console.error(`Exported ${counts.sources} sources, ${counts.chunks} chunks, ${counts.vectors} vectors and ${counts.files} archived files.`);
+        return { success: true, target: target.name, path: outPath, ...counts, missingVectors };
+    } catch (error: any) {
+        console.error("Export failed:", error.message);
+        return { success: false, target: target.name, error: `Export failed: ${error.message}` };
+    } finally {
+        fs.rmSync(staging, { recursive: true, force: true });
+    }
+}
+
+// Reads a JSONL file one record at a time, with a look at the next record
+function jsonlReader<T>(file: string) {
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity })[Symbol.asyncIterator]();
+    let next: T | undefined;
+    let done = false;
+    const peek = async (): Promise<T | undefined> => {
+        while (next === undefined && !done) {
+            const line = await lines.next();
+            if (line.done) done = true;
+            else if (line.value.trim()) next = JSON.parse(line.value);
+        }
+        return next;
+    };
+    return {
+        peek,
+        // The records from here on with this source ID (files are ordered by source)
+        async takeSource(sourceId: number): Promise<T[]> {
+            const taken: T[] = [];
+            let record: any;
+            while ((record = await peek()) !== undefined && record.source_id === sourceId) {
+                taken.push(record);
+                next = undefined;
+            }
+            return taken;
+        },
+        async *all(): AsyncGenerator<T> {
+            let record: T | undefined;
+            while ((record = await peek()) !== undefined) {
+                next = undefined;
+                yield record;
+            }
+        },
+    };
+}
+
+function readManifest(dir: string): BundleManifest {
+    const file = path.join(dir, 'manifest.json');
+    if (!fs.existsSync(file)) throw new Error("Not an export bundle (no manifest.json).");
+    const manifest = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (manifest.format !== BUNDLE_FORMAT) throw new Error(`Not an export bundle (format '${manifest.format}').`);
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error(`Bundle version ${manifest.version} is newer than this version supports (${BUNDLE_VERSION}).`);
+    }
+    return manifest;
+}
+
+// The existing source an imported one duplicates, if any
+async function findExisting(db: Database, source: SourceRecord): Promise<number | undefined> {
+    const byUrl = await findSourceIdByUrl(db, source.normalized_url);
+    if (byUrl !== undefined) return byUrl;
+    const row = await db.get('SELECT id FROM sources WHERE url = ? OR content_hash = ?', source.url, source.content_hash);
+    return row ? row.id : undefined;
+}
+
+// Inserts a source with its tags, aliases, versions and chunks; returns the new source
+// ID and the new ID of each chunk by its exported ID
+async function insertSource(db: Database, source: SourceRecord, chunks: ChunkRecord[]): Promise<{ sourceId: number, chunkIds: Map<number, number> }> {
+    const chunkIds = new Map<number, number>();
+    return withTransaction(db, async () => {
+        const insert = await db.run(
+            `INSERT INTO sources (url, normalized_url, title, source_type, summary, raw_content, content_hash, simhash, created_at, refreshed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            source.url, source.normalized_url, source.title, source.source_type, source.summary, source.raw_content, source.content_hash,
+            source.simhash, source.created_at, source.refreshed_at
+        );
+        const sourceId = insert.lastID;
+        if (!sourceId) throw new Error("Failed to get last inserted source ID.");
+        await setSourceTags(db, sourceId, source.tags);
+        await db.run('UPDATE sources SET updated_at = ? WHERE id = ?', source.updated_at, sourceId);
+
+        for (const alias of source.aliases) {
+            await addSourceAlias(db, sourceId, alias.url, alias.normalized_url);
+        }
+        for (const version of source.versions) {
+            await db.run(
+                'INSERT INTO source_versions (source_id, title, raw_content, content_hash, replaced_at) VALUES (?, ?, ?, ?, ?)',
+                sourceId, version.title, version.raw_content, version.content_hash, version.replaced_at
+            );
+        }
+        const stmt = await db.prepare('INSERT INTO chunks (source_id, chunk_index, content, kind, page, section, start_time, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+        for (const chunk of chunks) {
+            const chunkInsert = await stmt.run(sourceId, chunk.chunk_index, chunk.content, chunk.kind, chunk.page, chunk.section, chunk.start_time, chunk.created_at);
+            chunkIds.set(chunk.id, chunkInsert.lastID!);
+        }
+        await stmt.finalize();
+        return { sourceId, chunkIds };
+    });
+}
+
+/**
+ * Where an archived file is in the extracted bundle and where it goes in the repo,
+ * renamed after `sourceId`. The names come from the bundle, so any that could reach
+ * outside the bundle's archive or the repo are refused.
+ */
+function archivePaths(bundleDir: string, target: TargetConfig, name: string, sourceId: number): { from: string, to: string } {
+    if (typeof name !== 'string' || path.isAbsolute(name) || name.split(/[\\/]/).includes('..')) {
+        throw new Error(`Refusing archived file ${name}: not a relative path inside the repo.`);
+    }
+    const archiveRoot = path.resolve(bundleDir, 'archive');
+    const repoRoot = path.resolve(target.repoPath);
+    const from = path.resolve(archiveRoot, ...name.split('/'));
+    const to = path.resolve(repoRoot, path.dirname(name), path.basename(name).replace(/^\d+-/, `${sourceId}-`));
+    if (!from.startsWith(archiveRoot + path.sep) || !to.startsWith(repoRoot + path.sep)) {
+        throw new Error(`Refusing archived file ${name} outside the bundle's archive or the repo.`);
+    }
+    return { from, to };
+}
+
+// Copies a source's archived files into the repo, renamed after its new ID
+function restoreArchive(bundleDir: string, target: TargetConfig, source: SourceRecord, sourceId: number): number {
+    let copied = 0;
+    for (const name of source.archive) {
+        const { from, to } = archivePaths(bundleDir, target, name, sourceId);
+        if (!fs.existsSync(from)) continue;
+        fs.mkdirSync(path.dirname(to), { recursive: true });
+        fs.copyFileSync(from, to);
+        copied++;
+    }
+    return copied;
+}
+
+// The registered target to import into, or a new one from the bundle's settings
+function resolveImportTarget(name: string, manifest: BundleManifest, options: ImportOptions): { target: TargetConfig, created: boolean } {
+    const existing = findTarget(name);
+    if (existing) return { target: existing, created: false };
+    if (!options.repoPath) {
+        throw new Error(`Target '${name}' does not exist. Pass a repo directory to create it, or register it with 'target add' first.`);
+    }
+    const { classifier, ...settings } = manifest.settings;
+    // The exported target's classifier reference may not exist on this machine
+    const referenceTarget = classifier && classifier.referenceTarget && findTarget(classifier.referenceTarget) ? classifier.referenceTarget : undefined;
+    const target = addTarget(name, {
+        ...settings,
+        classifier: classifier ? { ...classifier, referenceTarget } : undefined,
+        repoPath: path.resolve(options.repoPath),
+        vectorStore: options.vectorStore || settings.vectorStore,
+    });
+    fs.mkdirSync(target.repoPath, { recursive: true });
+    console.error(`Registered target ${target.name} (repo ${target.repoPath}, ${target.vectorStore} vector store).`);
+    return { target, created: true };
+}
+
+/**
+ * Restores an export bundle into a target, registering it first if it doesn't exist
+ * and `options.repoPath` is given. Sources already in the target (same normalized
+ * URL, URL or content) are skipped. Vectors are written as exported, so no embedding
+ * API is called; the target's collection must use the bundle's model (or be empty).
+ * Runs under the ingestion lock.
+ */
+export async function importBundle(bundlePath: string, targetName: string, options: ImportOptions = {}): Promise<ImportResult> {
+    if (!fs.existsSync(bundlePath)) return { success: false, error: `Bundle not found: ${bundlePath}` };
+
+    const staging = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-import-'));
+    try {
+        extractTar(bundlePath, staging);
+        const manifest = readManifest(staging);
+
+        return await withIngestLock(async () => {
+            const { target, created } = resolveImportTarget(targetName, manifest, options);
+            const db = await openTargetDb(target);
+            let collection = await getActiveCollection(target);
+            if (manifest.embedding) {
+                assertSameModel(collection, manifest.embedding);
+            } else {
+                console.error(`The bundle has no vectors; run \`doctor --target ${target.name} --reembed\` after the import to embed its chunks.`);
+            }
+            const collectionName = collection ? collection.name : target.collectionName;
+            const store = getVectorStore(target, collectionName);
+
+            console.error(`Importing ${manifest.counts.sources} sources from target ${manifest.target} (exported ${manifest.exported_at}) into ${target.name}...`);
+            const result = { success: true, target: target.name, created, imported: 0, skipped: [] as { url: string, existing: number }[], failed: [] as { url: string, error: string }[], chunks: 0, vectors: 0, files: 0, missingVectors: 0 };
+            // New IDs (or the IDs of the existing duplicates) of the exported sources
+            const sourceIds = new Map<number, number>();
+            const nearDuplicates: { sourceId: number, of: number }[] = [];
+
+            const sources = jsonlReader<SourceRecord>(path.join(staging, 'sources.jsonl'));
+            const chunkReader = jsonlReader<ChunkRecord>(path.join(staging, 'chunks.jsonl'));
+            const vectorReader = jsonlReader<VectorRecord>(path.join(staging, 'vectors.jsonl'));
+            for await (const source of sources.all()) {
+                const chunks = await chunkReader.takeSource(source.id);
+                const vectors = await vectorReader.takeSource(source.id);
+
+                const existing = await findExisting(db, source);
+                if (existing !== undefined) {
+                    result.skipped.push({ url: source.url, existing });
+                    sourceIds.set(source.id, existing);
+                    continue;
+                }
+
+                let sourceId: number;
+                let chunkIds: Map<number, number>;
+                try {
+                    // Refuse unsafe archive names before anything of the source is stored
+                    source.archive.forEach(name => archivePaths(staging, target, name, source.id));
+                    ({ sourceId, chunkIds } = await insertSource(db, source, chunks));
+                } catch (error: any) {
+                    console.error(`Failed to import ${source.url}:`, error.message);
+                    result.failed.push({ url: source.url, error: error.message });
+                    continue;
+                }
+
+                if (vectors.length > 0) {
+                    const embeddings = new Map(vectors.map(vector => [vector.chunk_id, decodeEmbedding(vector.embedding)]));
+                    const embedded = chunks.filter(chunk => embeddings.has(chunk.id));
+                    const vectorChunks: VectorChunk[] = embedded.map(chunk => ({
+                        id: chunkIds.get(chunk.id)!, source_id: sourceId, content: chunk.content, url: source.url, title: source.title || '',
+                        tags: source.tags, source_type: source.source_type, created_at: source.created_at,
+                        kind: chunk.kind as VectorChunk['kind'], page: chunk.page, section: chunk.section, start_time: chunk.start_time,
+                    }));
+                    try {
+                        await store.addChunks(vectorChunks, embedded.map(chunk => embeddings.get(chunk.id)!));
+                        if (!collection) {
+                            await recordCollection(target, collectionName, manifest.embedding!);
+                            collection = await getActiveCollection(target);
+                        }
+                    } catch (error: any) {
+                        console.error(`Failed to add the vectors of ${source.url}:`, error.message);
+                        // As in ingestion, don't leave a source without its vectors behind, nor
+                        // the vectors written before the failure without their source
+                        try {
+                            await store.deleteSourceVectors(sourceId);
+                        } catch (cleanupError: any) {
+                            console.error(`Failed to remove the vectors of ${source.url}:`, cleanupError.message);
+                        }
+                        await withTransaction(db, async () => {
+                            await db.run('DELETE FROM sources WHERE id = ?', sourceId);
+                            await pruneUnusedTags(db);
+                        });
+                        result.failed.push({ url: source.url, error: `Vector store insert failed: ${error.message}` });
+                        continue;
+                    }
+                    result.vectors += vectorChunks.length;
+                }
+                result.missingVectors += chunks.length - vectors.length;
+
+                result.files += restoreArchive(staging, target, source, sourceId);
+                result.chunks += chunks.length;
+                result.imported++;
+                sourceIds.set(source.id, sourceId);
+                if (source.near_duplicate_of !== null) nearDuplicates.push({ sourceId, of: source.near_duplicate_of });
+            }
+
+            await withTransaction(db, async () => {
+                for (const { sourceId, of } of nearDuplicates) {
+                    if (sourceIds.has(of)) await db.run('UPDATE sources SET near_duplicate_of = ? WHERE id = ?', sourceIds.get(of), sourceId);
+                }
+            });
+
+            console.error(`Imported ${result.imported} sources (${result.chunks} chunks, ${result.vectors} vectors${manifest.embedding ? `, ${embeddingModelKey(manifest.embedding)}` : ''}, ${result.files} archived files); skipped ${result.skipped.length} already present, ${result.failed.length} failed.`);
+            if (result.missingVectors > 0) {
+                console.error(`${result.missingVectors} chunk(s) have no vector; \`doctor --target ${target.name} --reembed\` embeds them.`);
+            }
+            return { ...result, success: result.failed.length === 0 };
+        });
+    } catch (error: any) {
+        console.error("Import failed:", error.message);
+        return { success: false, target: targetName, error: `Import failed: ${error.message}` };
+    } finally {
+        fs.rmSync(staging, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,321 @@
+import * as readline from 'readline';
+import { Database } from 'sqlite';
+import { generateText } from './llm-provider';
+import { retrieveSources, buildAnswerPrompt, formatCitation, QuerySource } from './query';
+import { getDbConnection, initializeSchema, withTransaction } from './database';
+import { RetrievalMode } from './retrieval';
+import { listTags, normalizeTags } from './tags';
+import { TargetConfig } from './targets';
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    query?: string;          // User turns: the standalone query used for retrieval
+    sources?: QuerySource[]; // Assistant turns: the context the answer was given
+}
+
+export interface ChatSession {
+    id: number;
+    target: string;
+    title: string | null;
+    tags: string[];          // Tag filter (all-of) applied to retrieval, set with /tags
+    messages: ChatMessage[];
+}
+
+export interface ChatSessionSummary {
+    id: number;
+    title: string | null;
+    messages: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface ChatTurnResult {
+    success: boolean;
+    session?: number;
+    question?: string;
+    query?: string;
+    answer?: string;
+    sources?: QuerySource[];
+    reusedSources?: number;
+    error?: string;
+}
+
+export interface ChatOptions {
+    session?: number;       // Resume this saved session
+    mode?: RetrievalMode;
+    json?: boolean;         // Print each turn as a JSON line on stdout
+}
+
+// Earlier messages shown to the LLM when rewriting and answering
+const HISTORY_MESSAGES = 6;
+
+function formatHistory(messages: ChatMessage[]): string {
+    return messages.slice(-HISTORY_MESSAGES)
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+        .join('\n');
+}
+
+/**
+ * Sources an assistant answer actually cited ([Source N]); all of its sources if it
+ * cited none explicitly.
+ */
+function citedSources(message?: ChatMessage): QuerySource[] {
+    if (!message || !message.sources) return [];
+    const cited = new Set(Array.from(message.content.matchAll(/Source (\d+)/g), match => parseInt(match[1], 10)));
+    const sources = message.sources.filter((_, i) => cited.has(i + 1));
+    return sources.length > 0 ? sources : message.sources;
+}
+
+async function openChatDb(target: TargetConfig): Promise<Database> {
+    await initializeSchema(target.dbPath);
+    return getDbConnection(target.dbPath);
+}
+
+export async function createSession(target: TargetConfig): Promise<ChatSession> {
+    const db = await openChatDb(target);
+    const result = await db.run('INSERT INTO chat_sessions DEFAULT VALUES');
+    return { id: result.lastID!, target: target.name, title: null, tags: [], messages: [] };
+}
+
+export async function loadSession(target: TargetConfig, id: number): Promise<ChatSession> {
+    const db = await openChatDb(target);
+    const row = await db.get('SELECT * FROM chat_sessions WHERE id = ?', id);
+    if (!row) {
+        throw new Error(`Chat session not found in target ${target.name}: ${id}`);
+    }
+    const messages = await db.all('SELECT role, content, query, sources FROM chat_messages WHERE session_id = ? ORDER BY id', id);
+    return {
+        id: row.id,
+        target: target.name,
+        title: row.title,
+        tags: JSON.parse(row.tags || '[]'),
+        messages: messages.map(message => ({
+            role: message.role,
+            content: message.content,
+            query: message.query || undefined,
+            sources: message.sources ? JSON.parse(message.sources) : undefined,
+        })),
+    };
+}
+
+export async function listSessions(target: TargetConfig): Promise<ChatSessionSummary[]> {
+    const db = await openChatDb(target);
+    return db.all(
+        `SELECT chat_sessions.id, chat_sessions.title, chat_sessions.created_at, chat_sessions.updated_at,
+                (SELECT COUNT(*) FROM chat_messages WHERE chat_messages.session_id = chat_sessions.id) AS messages
+         FROM chat_sessions ORDER BY chat_sessions.updated_at DESC, chat_sessions.id DESC`
+    );
+}
+
+// The helpers below run on sessions that are already open, so the schema exists
+
+async function saveSessionTags(target: TargetConfig, session: ChatSession): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await db.run('UPDATE chat_sessions SET tags = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', JSON.stringify(session.tags), session.id);
+}
+
+async function saveTurn(target: TargetConfig, session: ChatSession, user: ChatMessage, assistant: ChatMessage): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await withTransaction(db, async () => {
+        for (const message of [user, assistant]) {
+            await db.run(
+                'INSERT INTO chat_messages (session_id, role, content, query, sources) VALUES (?, ?, ?, ?, ?)',
+                session.id, message.role, message.content, message.query ?? null, message.sources ? JSON.stringify(message.sources) : null
+            );
+        }
+        await db.run(
+            'UPDATE chat_sessions SET title = COALESCE(title, ?), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            user.content.substring(0, 80), session.id
+        );
+    });
+    session.messages.push(user, assistant);
+    session.title = session.title ?? user.content.substring(0, 80);
+}
+
+/**
+ * Rewrites a follow-up ("what about the second one?") into a standalone search query
+ * and picks which of the previously cited sources it still refers to.
+ */
+export async function rewriteQuestion(history: ChatMessage[], question: string, previousSources: QuerySource[]): Promise<{ query: string, reuse: number[] }> {
+    const sourceList = previousSources.map((source, i) => `${i + 1}. ${source.title} (${source.url})`).join('\n');
+
+    const prompt = `
+    Rewrite the user's latest question as a standalone search query for a knowledge base.
+    1. Resolve pronouns and references ("it", "the second one") using the conversation.
+    2. Keep names, acronyms, codes and quoted phrases exactly as written.
+    3. List the numbers of the previously cited sources the question is still about (empty if none).
+    4. Return valid JSON only.
+
+    Conversation:
+    ${formatHistory(history)}
+
+    Previously cited sources:
+    ${sourceList || '(none)'}
+
+    Latest question: ${question}
+
+    Output Format:
+    {
+        "query": "standalone query",
+        "reuse": [1]
+    }
+    `;
+
+    const text = await generateText(prompt);
+    const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const data = JSON.parse(jsonStr);
+    return {
+        query: typeof data.query === 'string' && data.query.trim() ? data.query.trim() : question,
+        reuse: Array.isArray(data.reuse) ? data.reuse.filter((n: any) => Number.isInteger(n) && n >= 1 && n <= previousSources.length) : [],
+    };
+}
+
+/**
+ * Answers one chat message: rewrites it against the history, retrieves context
+ * (plus the earlier sources it still refers to), answers and saves the turn.
+ */
+export async function chatTurn(target: TargetConfig, session: ChatSession, question: string, mode?: RetrievalMode): Promise<ChatTurnResult> {
+    const history = session.messages;
+    const lastAnswer = [...history].reverse().find(message => message.role === 'assistant');
+    const previousSources = citedSources(lastAnswer);
+
+    // 1. Rewrite follow-ups into a standalone query
+    let query = question;
+    let reused: QuerySource[] = [];
+    if (history.length > 0) {
+        try {
+            const rewrite = await rewriteQuestion(history, question, previousSources);
+            query = rewrite.query;
+            reused = rewrite.reuse.map(n => previousSources[n - 1]);
+            console.error(`Standalone query: "${query}"${reused.length > 0 ? ` (reusing ${reused.length} earlier source(s))` : ''}`);
+        } catch (error: any) {
+            console.error("Question rewriting failed, searching with the question as asked:", error.message);
+        }
+    }
+
+    // 2. Retrieve, keeping reused sources first
+    let sources: QuerySource[];
+    try {
+        const retrieved = await retrieveSources(target, query, { all: session.tags }, mode);
+        const reusedUrls = new Set(reused.map(source => source.url));
+        sources = [...reused, ...retrieved.filter(source => !reusedUrls.has(source.url))];
+    } catch (error: any) {
+        console.error(error.message);
+        return { success: false, session: session.id, question, query, error: error.message };
+    }
+
+    // 3. Answer
+    let answer: string;
+    if (sources.length === 0) {
+        answer = "No relevant context found in the knowledge base.";
+    } else {
+        console.error("Generating answer...");
+        try {
+            answer = await generateText(buildAnswerPrompt(query, sources, formatHistory(history)));
+        } catch (error: any) {
+            console.error("Failed to generate answer:", error.message);
+            return { success: false, session: session.id, question, query, error: `Failed to generate answer: ${error.message}` };
+        }
+    }
+
+    try {
+        await saveTurn(target, session, { role: 'user', content: question, query }, { role: 'assistant', content: answer, sources });
+    } catch (error: any) {
+        console.error("Failed to save chat turn:", error.message);
+    }
+    return { success: true, session: session.id, question, query, answer, sources, reusedSources: reused.length };
+}
+
+function printSources(sources: QuerySource[]) {
+    if (sources.length === 0) {
+        console.error("No sources yet.");
+        return;
+    }
+    sources.forEach((source, i) => console.error(`${i + 1}. ${formatCitation(source)}`));
+}
+
+const HELP = `Commands:
+  /sources        Sources of the last answer
+  /tags           Show the tag filter and the target's most used tags
+  /tags a,b       Only search sources with all of these tags (/tags none to clear)
+  /reset          Start a new session (the current one stays saved)
+  /help           Show this help
+  /exit           Quit (Ctrl-D works too)`;
+
+async function handleCommand(target: TargetConfig, session: ChatSession, input: string): Promise<ChatSession | undefined> {
+    const [command, ...rest] = input.split(/\s+/);
+    const argument = rest.join(' ').trim();
+
+    switch (command) {
+        case '/sources': {
+            const lastAnswer = [...session.messages].reverse().find(message => message.role === 'assistant');
+            printSources(lastAnswer?.sources || []);
+            return session;
+        }
+        case '/tags': {
+            if (argument) {
+                session.tags = argument === 'none' ? [] : normalizeTags(argument.split(','));
+                await saveSessionTags(target, session);
+            }
+            console.error(`Tag filter: ${session.tags.join(', ') || '(none)'}`);
+            if (!argument) {
+                const result = await listTags(target);
+                if (result.success) {
+                    console.error(`Tags: ${result.tags!.slice(0, 30).map(tag => `${tag.name} (${tag.sources})`).join(', ') || '(none)'}`);
+                }
+            }
+            return session;
+        }
+        case '/reset': {
+            const fresh = await createSession(target);
+            fresh.tags = session.tags;
+            if (fresh.tags.length > 0) await saveSessionTags(target, fresh);
+            console.error(`Started session #${fresh.id}. Session #${session.id} is saved; resume it with --session ${session.id}.`);
+            return fresh;
+        }
+        case '/help':
+            console.error(HELP);
+            return session;
+        case '/exit':
+        case '/quit':
+            return undefined;
+        default:
+            console.error(`Unknown command ${command}. Type /help for the list.`);
+            return session;
+    }
+}
+
+/**
+ * Interactive chat REPL on stdin. Answers go to stderr like the rest of the CLI's
+ * human-readable output; with json, each turn is also printed as a JSON line on stdout.
+ */
+export async function startChat(target: TargetConfig, options: ChatOptions = {}): Promise<void> {
+    let session = options.session ? await loadSession(target, options.session) : await createSession(target);
+    console.error(options.session
+        ? `Resumed session #${session.id} (${session.messages.length} messages) on target '${target.name}'.`
+        : `Started session #${session.id} on target '${target.name}'. Type /help for commands.`);
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr, prompt: `${target.name}> ` });
+    rl.prompt();
+    for await (const line of rl) {
+        const input = line.trim();
+        if (input.startsWith('/')) {
+            const next = await handleCommand(target, session, input);
+            if (!next) break;
+            session = next;
+        } else if (input) {
+            const result = await chatTurn(target, session, input, options.mode);
+            if (options.json) {
+                console.log(JSON.stringify(result));
+            }
+            if (result.success) {
+                console.error(`\n${result.answer}\n`);
+            } else {
+                console.error("Error:", result.error);
+            }
+        }
+        rl.prompt();
+    }
+    rl.close();
+}
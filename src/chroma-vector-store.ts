@@ -0,0 +1,161 @@
+import { ChromaClient, OpenAIEmbeddingFunction } from 'chromadb';
+import { VectorStore, VectorChunk, VectorMatch, VectorMetadata, WhereFilter, getChunkVectorId, toVectorMetadata } from './vector-store';
+
+const client = new ChromaClient();
+
+// Note: ChromaDB's JS client currently requires an embedding function
+// even if we provide our own embeddings. We can provide a dummy one
+// since we will be generating embeddings ourselves with Google/OpenAI clients.
+const embedder = new OpenAIEmbeddingFunction({ openai_api_key: "dummy-key-not-used" });
+
+// Cache collection objects
+const collections = new Map<string, any>();
+
+async function getOrCreateCollection(collectionName: string) {
+    if (collections.has(collectionName)) {
+        return collections.get(collectionName);
+    }
+
+        try {
+            const collection = await client.getCollection({
+                name: collectionName,
+                embeddingFunction: embedder
+            });
+            console.error(`Connected to existing ChromaDB collection: "${collectionName}"`);
+            collections.set(collectionName, collection);
+            return collection;
+        } catch (error: any) {
+            if (error.code === 'ECONNREFUSED') {
+                throw new Error("ChromaDB connection failed. Is ChromaDB running on localhost:8000?");
+            }
+            console.error(`Collection not found. Creating new ChromaDB collection: "${collectionName}"`);
+        const collection = await client.createCollection({
+            name: collectionName,
+            embeddingFunction: embedder
+        });
+        collections.set(collectionName, collection);
+        return collection;
+    }
+}
+
+export function createChromaVectorStore(collectionName: string): VectorStore {
+    return {
+        backend: 'chroma',
+        collectionName,
+
+        async addChunks(chunks: VectorChunk[], embeddings: number[][]) {
+            const coll = await getOrCreateCollection(collectionName);
+
+            if (chunks.length !== embeddings.length) {
+                throw new Error("Number of chunks and embeddings must match.");
+            }
+
+            const ids = chunks.map(chunk => getChunkVectorId(chunk.source_id, chunk.id));
+            const metadatas = chunks.map(toVectorMetadata);
+
+            const batchSize = 100;
+            for (let i = 0; i < ids.length; i += batchSize) {
+                const batchIds = ids.slice(i, i + batchSize);
+                const batchEmbeddings = embeddings.slice(i, i + batchSize);
+                const batchMetadatas = metadatas.slice(i, i + batchSize);
+
+                await coll.add({
+                    ids: batchIds,
+                    embeddings: batchEmbeddings,
+                    metadatas: batchMetadatas,
+                });
+                console.error(`Added batch of ${batchIds.length} embeddings to ChromaDB collection '${collectionName}'.`);
+            }
+        },
+
+        async query(queryEmbedding: number[], topN = 10, where?: WhereFilter): Promise<VectorMatch[]> {
+            const coll = await getOrCreateCollection(collectionName);
+
+            const queryOptions: any = {
+                queryEmbeddings: [queryEmbedding],
+                nResults: topN,
+            };
+
+            if (where && Object.keys(where).length > 0) {
+                queryOptions.where = where;
+            }
+
+            const results = await coll.query(queryOptions);
+            const ids: string[] = results.ids?.[0] || [];
+            const metadatas = results.metadatas?.[0] || [];
+            const distances = results.distances?.[0] || [];
+            return ids
+                .map((id, i) => ({ id, metadata: metadatas[i], distance: distances[i] as number }))
+                .filter(match => !!match.metadata);
+        },
+
+        // Removes every vector belonging to a source (matched on the source_id metadata)
+        async deleteSourceVectors(sourceId: number) {
+            const coll = await getOrCreateCollection(collectionName);
+            await coll.delete({ where: { source_id: sourceId } });
+            console.error(`Deleted vectors for source ${sourceId} from ChromaDB collection '${collectionName}'.`);
+        },
+
+        // Rewrites the tags metadata on every vector belonging to a source
+        async updateSourceTags(sourceId: number, tags: string[]) {
+            const coll = await getOrCreateCollection(collectionName);
+            const existing = await coll.get({ where: { source_id: sourceId } });
+            if (existing.ids.length === 0) return;
+
+            const metadatas = existing.metadatas.map((metadata: any) => ({ ...metadata, tags: tags.join(',') }));
+            await coll.update({ ids: existing.ids, metadatas });
+            console.error(`Updated tags on ${existing.ids.length} vectors in ChromaDB collection '${collectionName}'.`);
+        },
+
+        // Merges `metadata` into every vector of a source, returning how many were updated
+        async updateSourceMetadata(sourceId: number, metadata: Partial<VectorMetadata>) {
+            const coll = await getOrCreateCollection(collectionName);
+            const existing = await coll.get({ where: { source_id: sourceId } });
+            if (existing.ids.length === 0) return 0;
+
+            await coll.update({ ids: existing.ids, metadatas: existing.metadatas.map((current: any) => ({ ...current, ...metadata })) });
+            return existing.ids.length;
+        },
+
+        async getSourceEmbeddings(sourceId: number) {
+            const coll = await getOrCreateCollection(collectionName);
+            const existing = await coll.get({ where: { source_id: sourceId }, include: ['embeddings'] });
+            return new Map<string, number[]>(existing.ids.map((id: string, i: number) => [id, existing.embeddings[i]]));
+        },
+
+        // Lists every vector ID in the collection, paging through ChromaDB
+        async listIds() {
+            const coll = await getOrCreateCollection(collectionName);
+            const ids: string[] = [];
+            const pageSize = 1000;
+            for (let offset = 0; ; offset += pageSize) {
+                const page = await coll.get({ include: [], limit: pageSize, offset });
+                ids.push(...page.ids);
+                if (page.ids.length < pageSize) break;
+            }
+            return ids;
+        },
+
+        async deleteVectors(ids: string[]) {
+            const coll = await getOrCreateCollection(collectionName);
+            const batchSize = 100;
+            for (let i = 0; i < ids.length; i += batchSize) {
+                await coll.delete({ ids: ids.slice(i, i + batchSize) });
+            }
+            console.error(`Deleted ${ids.length} vectors from ChromaDB collection '${collectionName}'.`);
+        },
+
+        async deleteCollection() {
+            collections.delete(collectionName);
+            try {
+                await client.deleteCollection({ name: collectionName });
+                console.error(`Deleted ChromaDB collection '${collectionName}'.`);
+            } catch (error: any) {
+                if (error.code === 'ECONNREFUSED') {
+                    throw new Error("ChromaDB connection failed. Is ChromaDB running on localhost:8000?");
+                }
+                // The collection did not exist
+            }
+        },
+    };
+}
@@ -0,0 +1,280 @@
+import { ExtractedContent, ContentSegment, SourceType, ingestFromSource } from './extractor';
+import { Chunk, ChunkLocation } from './embedder';
+import { TargetConfig } from './targets';
+
+// 'structured' uses the source type's structure (pages, headings, transcript lines),
+// 'sentences' packs the sentences of the full text, 'fixed' packs words regardless
+// of sentence and section boundaries
+export type ChunkingStrategy = 'structured' | 'sentences' | 'fixed';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['structured', 'sentences', 'fixed'];
+
+export interface ChunkingOptions {
+    strategy: ChunkingStrategy;
+    maxTokens: number;      // No chunk is longer than this
+    overlapTokens: number;  // Repeated from the end of the previous chunk, in whole sentences or words
+    minTokens: number;      // A last chunk adding fewer tokens repeats more of the previous one
+}
+
+// About the 800/200/100 characters chunks were cut at before sizes were configurable
+export const DEFAULT_CHUNKING: ChunkingOptions = { strategy: 'structured', maxTokens: 200, overlapTokens: 50, minTokens: 25 };
+
+// Scripts written without spaces between words, counted a token per character
+const UNSPACED = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}';
+const TOKEN_PATTERN = new RegExp(`[${UNSPACED}]|(?:(?![${UNSPACED}])[\\p{L}\\p{N}]){1,6}|[^\\s\\p{L}\\p{N}]`, 'gu');
+
+// The text cut into the pieces countTokens counts; they add up to the text minus its whitespace
+function tokenPieces(text: string): string[] {
+    return text.match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Estimated token count. There is no tokenizer for every embedding provider, so this
+ * counts a token per punctuation mark, per character of scripts written without
+ * spaces (Chinese, Japanese, Korean, Thai...) and per 6 characters of other words.
+ * That is more than common BPE tokenizers give for English and other European text,
+ * but only an estimate elsewhere: rare characters can take several tokens each, so
+ * leave maxTokens some room below the model's limit.
+ */
+export function countTokens(text: string): number {
+    return tokenPieces(text).length;
+}
+
+/**
+ * Checks a set of chunking options, naming them with `label` in errors.
+ */
+export function validateChunkingOptions(options: ChunkingOptions, label: string): void {
+    if (!CHUNKING_STRATEGIES.includes(options.strategy)) {
+        throw new Error(`${label} has an unknown strategy '${options.strategy}'. Use ${CHUNKING_STRATEGIES.join(', ')}.`);
+    }
+    if (!Number.isInteger(options.maxTokens) || options.maxTokens < 10) {
+        throw new Error(`${label}.maxTokens must be an integer of at least 10.`);
+    }
+    if (!Number.isInteger(options.overlapTokens) || options.overlapTokens < 0 || options.overlapTokens >= options.maxTokens) {
+        throw new Error(`${label}.overlapTokens must be an integer from 0 to less than maxTokens.`);
+    }
+    if (!Number.isInteger(options.minTokens) || options.minTokens < 0 || options.minTokens > options.maxTokens) {
+        throw new Error(`${label}.minTokens must be an integer from 0 to maxTokens.`);
+    }
+}
+
+export function formatChunkOptions(options: ChunkingOptions): string {
+    return `${options.strategy}, max ${options.maxTokens} tokens, overlap ${options.overlapTokens}, min ${options.minTokens}`;
+}
+
+/**
+ * The target's chunking options for a source type: its defaults with the type's overrides.
+ */
+export function chunkingOptionsFor(target: TargetConfig, sourceType: SourceType): ChunkingOptions {
+    const { bySourceType, ...defaults } = target.chunking;
+    return { ...defaults, ...bySourceType[sourceType] };
+}
+
+// A piece of text (a sentence, a transcript line, a word) and where it comes from
+interface TextUnit {
+    text: string;
+    location: ChunkLocation;
+}
+
+interface SizedUnit extends TextUnit {
+    tokens: number;
+}
+
+function splitSentences(text: string): string[] {
+    return text.split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim().length > 0);
+}
+
+function splitWords(text: string): string[] {
+    return text.split(/\s+/).filter(word => word.length > 0);
+}
+
+// Cuts a unit longer than maxTokens into runs of whole words, and a single word that
+// is still too long into runs of its token pieces
+function fitUnit(unit: TextUnit, maxTokens: number): SizedUnit[] {
+    const tokens = countTokens(unit.text);
+    if (tokens <= maxTokens) return [{ ...unit, tokens }];
+
+    const pieces: SizedUnit[] = [];
+    let words: string[] = [];
+    let wordTokens = 0;
+    const flush = () => {
+        if (words.length > 0) pieces.push({ text: words.join(' '), location: unit.location, tokens: wordTokens });
+        words = [];
+        wordTokens = 0;
+    };
+    for (const word of splitWords(unit.text)) {
+        const count = countTokens(word);
+        if (count > maxTokens) {
+            flush();
+            const wordPieces = tokenPieces(word);
+            for (let start = 0; start < wordPieces.length; start += maxTokens) {
+                const part = wordPieces.slice(start, start + maxTokens);
+                pieces.push({ text: part.join(''), location: unit.location, tokens: part.length });
+            }
+        } else {
+            if (wordTokens + count > maxTokens) flush();
+            words.push(word);
+            wordTokens += count;
+        }
+    }
+    flush();
+    return pieces;
+}
+
+// The end of a chunk to repeat at the start of the next: whole units while they fit
+// in `budget` tokens, then whole words of the unit that did not fit
+function overlapUnits(units: SizedUnit[], budget: number): SizedUnit[] {
+    const overlap: SizedUnit[] = [];
+    let tokens = 0;
+    for (let i = units.length - 1; i >= 0 && tokens < budget; i--) {
+        const unit = units[i];
+        if (tokens + unit.tokens <= budget) {
+            overlap.unshift(unit);
+            tokens += unit.tokens;
+            continue;
+        }
+        const words = splitWords(unit.text);
+        const kept: string[] = [];
+        for (let w = words.length - 1; w >= 0; w--) {
+            const count = countTokens(words[w]);
+            if (tokens + count > budget) break;
+            kept.unshift(words[w]);
+            tokens += count;
+        }
+        if (kept.length > 0) overlap.unshift({ text: kept.join(' '), location: unit.location, tokens: countTokens(kept.join(' ')) });
+        break;
+    }
+    return overlap;
+}
+
+/**
+ * Packs units into chunks of at most maxTokens, each starting with up to
+ * overlapTokens from the end of the previous one, cut at unit or word boundaries. A
+ * chunk takes the location of the first unit it adds after that overlap. The previous
+ * chunk is full when a last one starts, so a last chunk adding fewer than minTokens
+ * can't be merged into it; it repeats more of the previous chunk instead, up to
+ * maxTokens, rather than being embedded as a sliver.
+ */
+function packUnits(units: TextUnit[], options: ChunkingOptions, firstIndex = 0): Chunk[] {
+    const chunks: Chunk[] = [];
+    let previous: SizedUnit[] = [];
+    let current: SizedUnit[] = [];
+    let currentTokens = 0;
+    let overlapCount = 0;   // Leading units of `current` repeated from the previous chunk
+    let location: ChunkLocation = {};
+
+    const emit = () => {
+        chunks.push({ content: current.map(unit => unit.text).join(' '), chunk_index: firstIndex + chunks.length, ...location });
+        previous = current;
+    };
+
+    for (const unit of units.flatMap(unit => fitUnit(unit, options.maxTokens))) {
+        if (current.length > overlapCount && currentTokens + unit.tokens > options.maxTokens) {
+            emit();
+            current = overlapUnits(current, Math.min(options.overlapTokens, options.maxTokens - unit.tokens));
+            currentTokens = current.reduce((sum, overlapUnit) => sum + overlapUnit.tokens, 0);
+            overlapCount = current.length;
+        }
+        if (current.length === overlapCount) location = unit.location;
+        current.push(unit);
+        currentTokens += unit.tokens;
+    }
+
+    if (current.length > overlapCount) {
+        const added = current.slice(overlapCount);
+        const addedTokens = added.reduce((sum, unit) => sum + unit.tokens, 0);
+        if (chunks.length > 0 && addedTokens < options.minTokens) {
+            current = [...overlapUnits(previous, options.maxTokens - addedTokens), ...added];
+        }
+        emit();
+    }
+
+    return chunks;
+}
+
+/**
+ * Sentence-based chunking of plain text with no location metadata.
+ */
+export function chunkContent(content: string, options: ChunkingOptions = DEFAULT_CHUNKING): Chunk[] {
+    return packUnits(splitSentences(content).map(text => ({ text, location: {} })), options);
+}
+
+// PDFs: sentences flow across page breaks, each chunk records the page it starts on
+function chunkPages(segments: ContentSegment[], options: ChunkingOptions): Chunk[] {
+    return packUnits(segments.flatMap(segment =>
+        splitSentences(segment.text).map(text => ({ text, location: { page: segment.page } }))
+    ), options);
+}
+
+// Markdown files and articles: every section is chunked on its own so no chunk mixes
+// two headings; a section shorter than minTokens still gets its own chunk
+function chunkSections(segments: ContentSegment[], options: ChunkingOptions): Chunk[] {
+    const chunks: Chunk[] = [];
+    for (const segment of segments) {
+        const location = segment.section ? { section: segment.section } : {};
+        chunks.push(...packUnits(splitSentences(segment.text).map(text => ({ text, location })), options, chunks.length));
+    }
+    return chunks;
+}
+
+// Transcripts: caption lines rarely end with punctuation, so lines are the units
+function chunkTranscript(segments: ContentSegment[], options: ChunkingOptions): Chunk[] {
+    return packUnits(segments
+        .map(segment => ({ text: segment.text.trim(), location: { start_time: segment.start_time } }))
+        .filter(unit => unit.text.length > 0), options);
+}
+
+/**
+ * Chunks extracted content with the given options. The 'structured' strategy picks
+ * the chunker for the source type and uses the segments the extractor kept (PDF
+ * pages, Markdown or article sections, transcript lines) so each chunk carries its
+ * location; content without segments is chunked by sentences.
+ */
+export function chunkExtracted(extracted: Pick<ExtractedContent, 'content' | 'sourceType' | 'segments'>, options: ChunkingOptions = DEFAULT_CHUNKING): Chunk[] {
+    if (options.strategy === 'fixed') {
+        return packUnits(splitWords(extracted.content).map(text => ({ text, location: {} })), options);
+    }
+    const segments = extracted.segments;
+    if (options.strategy === 'sentences' || !segments || segments.length === 0) return chunkContent(extracted.content, options);
+
+    switch (extracted.sourceType) {
+        case 'pdf':
+            return chunkPages(segments, options);
+        case 'video':
+            return chunkTranscript(segments, options);
+        default:
+            return chunkSections(segments, options);
+    }
+}
+
+export interface PreviewChunk extends Chunk {
+    tokens: number;
+}
+
+export interface ChunkPreviewResult {
+    success: boolean;
+    source?: string;
+    title?: string;
+    sourceType?: SourceType;
+    target?: string;
+    options?: ChunkingOptions;
+    chunks?: PreviewChunk[];
+    error?: string;
+}
+
+/**
+ * Extracts a source and chunks it the way ingestion into `target` would, without
+ * storing anything. `overrides` replace the target's options for this preview.
+ */
+export async function previewChunks(source: string, target: TargetConfig, overrides: Partial<ChunkingOptions> = {}): Promise<ChunkPreviewResult> {
+    try {
+        const extracted = await ingestFromSource(source);
+        const options = { ...chunkingOptionsFor(target, extracted.sourceType), ...overrides };
+        validateChunkingOptions(options, 'Chunking');
+        const chunks = chunkExtracted(extracted, options).map(chunk => ({ ...chunk, tokens: countTokens(chunk.content) }));
+        return { success: true, source, title: extracted.title, sourceType: extracted.sourceType, target: target.name, options, chunks };
+    } catch (error: any) {
+        console.error("Chunk preview failed:", error.message);
+        return { success: false, error: `Chunk preview failed: ${error.message}` };
+    }
+}
@@ -0,0 +1,168 @@
+import { Passage, QuerySource } from './query';
+
+export type CitationStatus = 'supported' | 'unsupported' | 'unknown_source';
+
+// A sentence (or list item) of an answer
+export interface Claim {
+    text: string;           // As written, citation markers included
+    start: number;          // Offset in the answer
+    citations: number[];    // Indexes into the citations list
+}
+
+export interface Citation {
+    claim: number;          // Index into the claims list
+    marker: string;         // As written, e.g. "[Source 2, p. 12]"
+    source: number;         // The cited Source number (1-based position in sources)
+    location?: string;      // Location written in the marker, e.g. "p. 12"
+    source_id?: number;
+    url?: string;
+    title?: string;
+    chunk_ids: number[];    // Chunks of the passage that best supports the claim
+    support?: number;       // Share of the claim's terms found in that passage, 0 to 1
+    status: CitationStatus;
+}
+
+export interface CitationAnalysis {
+    claims: Claim[];
+    citations: Citation[];
+}
+
+// A claim is supported when at least this share of its terms appears in the cited text
+const MIN_SUPPORT = 0.4;
+
+// Words carrying no content, left out of the terms of claims and passages
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'has', 'have', 'had', 'but', 'not',
+    'its', 'can', 'also', 'which', 'their', 'they', 'them', 'these', 'those', 'into', 'than', 'then', 'there',
+    'been', 'being', 'will', 'would', 'should', 'could', 'about', 'such', 'more', 'most', 'other', 'only', 'some',
+    'when', 'what', 'how', 'who', 'does', 'did', 'use', 'used', 'uses', 'using', 'source', 'sources',
+]);
+
+const MARKER_PATTERN = /\[([^[\]]*\bSources?\s*\d[^[\]]*)\]/g;
+
+/**
+ * Splits an answer into claims: at line breaks and after sentence-ending punctuation,
+ * never inside brackets. Markers placed after the full stop ("... RAG. [Source 1]")
+ * stay with the sentence they follow.
+ */
+function splitClaims(answer: string): { text: string, start: number }[] {
+    const claims: { text: string, start: number }[] = [];
+    let start = 0;
+    let depth = 0;
+    const push = (end: number) => {
+        const raw = answer.slice(start, end);
+        const text = raw.trim();
+        if (/[\p{L}\p{N}]/u.test(text)) claims.push({ text, start: start + raw.indexOf(text) });
+        start = end;
+    };
+    for (let i = 0; i < answer.length; i++) {
+        const char = answer[i];
+        if (char === '[') depth++;
+        else if (char === ']') depth = Math.max(depth - 1, 0);
+        else if (depth === 0 && char === '\n') push(i + 1);
+        else if (depth === 0 && /[.!?]/.test(char) && /\s/.test(answer[i + 1] || '')) {
+            const next = answer.slice(i + 1).match(/^[ \t]*(.)/);
+            if (!next || next[1] !== '[') push(i + 1);
+        }
+    }
+    push(answer.length);
+    return claims;
+}
+
+/**
+ * Reads the citations of one marker: "[Source 2, p. 12]", "[Source 1, Source 3]",
+ * "[Sources 1 and 4]" or "[Source 2, p. 3; Source 5]".
+ */
+function parseMarker(content: string): { source: number, location?: string }[] {
+    const cited: { source: number, location?: string }[] = [];
+    let afterSource = false;
+    for (const part of content.split(/[,;]|\band\b|&/)) {
+        const source = part.match(/\bSources?\s*(\d+)/);
+        const bareNumber = part.match(/^\s*(\d+)\s*$/);
+        if (source || (bareNumber && afterSource)) {
+            cited.push({ source: parseInt((source || bareNumber)![1], 10) });
+            afterSource = true;
+        } else if (part.trim() && cited.length > 0) {
+            const last = cited[cited.length - 1];
+            last.location = last.location ? `${last.location}, ${part.trim()}` : part.trim();
+            afterSource = false;
+        }
+    }
+    return cited;
+}
+
+function terms(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(word => /\d/.test(word) || (word.length >= 3 && !STOPWORDS.has(word)))
+        // Crude stemming: "encoding" and "encoded" share "encod"
+        .map(word => /\d/.test(word) ? word : word.slice(0, 5));
+}
+
+// Whether a passage is at the location a citation names (a page, section or timestamp)
+function atLocation(passage: Passage, location: string): boolean {
+    const page = location.match(/\bp(?:age)?\.?\s*(\d+)/i);
+    if (page) return passage.page === parseInt(page[1], 10);
+    const section = location.match(/§\s*(.+)/);
+    if (section) return !!passage.section && passage.section.toLowerCase().includes(section[1].split('>').pop()!.trim().toLowerCase());
+    const time = location.match(/^(?:(\d+):)?(\d+):(\d{2})$/);
+    if (time) {
+        const seconds = parseInt(time[1] || '0', 10) * 3600 + parseInt(time[2], 10) * 60 + parseInt(time[3], 10);
+        return passage.start_time != null && Math.floor(passage.start_time) === seconds;
+    }
+    return false;
+}
+
+/**
+ * Checks a citation against the cited source: the passage sharing the most terms with
+ * the claim is the one it draws on (among those at the cited location, if any).
+ */
+function checkSupport(claimText: string, source: QuerySource, location?: string): { chunk_ids: number[], support: number } {
+    const claimTerms = Array.from(new Set(terms(claimText.replace(MARKER_PATTERN, ' '))));
+    const passages = source.passages && source.passages.length > 0
+        ? source.passages
+        : [{ content: source.content, chunk_indexes: [], chunk_ids: [] } as Passage];
+    const located = location ? passages.filter(passage => atLocation(passage, location)) : [];
+
+    let best = { chunk_ids: [] as number[], support: -1 };
+    for (const passage of located.length > 0 ? located : passages) {
+        const passageTerms = new Set(terms(passage.content));
+        const support = claimTerms.length > 0 ? claimTerms.filter(term => passageTerms.has(term)).length / claimTerms.length : 1;
+        if (support > best.support) best = { chunk_ids: passage.chunk_ids || [], support };
+    }
+    return { chunk_ids: best.chunk_ids, support: Math.round(best.support * 100) / 100 };
+}
+
+/**
+ * Parses an answer into claims and the [Source N] citations they carry, linking each
+ * citation to its source and the chunks backing it. A citation is 'unknown_source'
+ * when no source has its number, and 'unsupported' when fewer than MIN_SUPPORT of the
+ * claim's terms appear in the cited text. Support is measured on words, so it
+ * catches citations to the wrong source rather than judging paraphrases.
+ */
+export function analyzeCitations(answer: string, sources: QuerySource[]): CitationAnalysis {
+    const claims: Claim[] = [];
+    const citations: Citation[] = [];
+    for (const { text, start } of splitClaims(answer)) {
+        const claim: Claim = { text, start, citations: [] };
+        for (const match of text.matchAll(MARKER_PATTERN)) {
+            for (const { source: number, location } of parseMarker(match[1])) {
+                const source = sources[number - 1];
+                let citation: Citation;
+                if (!source) {
+                    citation = { claim: claims.length, marker: match[0], source: number, location, chunk_ids: [], status: 'unknown_source' };
+                } else {
+                    const { chunk_ids, support } = checkSupport(text, source, location);
+                    citation = {
+                        claim: claims.length, marker: match[0], source: number, location,
+                        source_id: source.source_id, url: source.url, title: source.title,
+                        chunk_ids, support, status: support >= MIN_SUPPORT ? 'supported' : 'unsupported',
+                    };
+                }
+                claim.citations.push(citations.length);
+                citations.push(citation);
+            }
+        }
+        claims.push(claim);
+    }
+    return { claims, citations };
+}
@@ -1,9 +1,182 @@
 #!/usr/bin/env node
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { ingestSource, IngestResult } from './ingest'; 
-import { answerQuery, QueryResult } from './query';   
-import { validateConfig } from './config';
+import { ingestSource, ingestSources, collectSources, IngestResult, BulkIngestResult } from './ingest'; 
+import { answerQuery, streamQuery, formatCitation, QueryResult, QueryOptions, QuerySource } from './query';   
+import { validateConfig, config } from './config';
+import { listTargets, getTarget, addTarget, removeTarget, getDefaultTargetName, TargetConfig } from './targets';
+import { initializeSchema, getSourceStats } from './database';
+import { listSources, getSource, getSourceHistory, retagSource, deleteSource, SourceSummary, SourceListResult, SourceResult, SourceHistoryResult, SourceDeleteResult } from './sources';
+import { refreshSources, RefreshResult } from './refresh';
+import { summarizeSource, summarizeSources, SummarizeResult, SynthesisResult } from './summarizer';
+import { previewChunks, formatChunkOptions, CHUNKING_STRATEGIES, ChunkPreviewResult } from './chunker';
+import { formatRerankSettings } from './rerank';
+import { Claim, Citation } from './citations';
+import { runDoctor, DoctorResult, DoctorReport } from './doctor';
+import { reindexTarget, ReindexResult } from './reindex';
+import { parseEmbeddingModel } from './llm-provider';
+import { getActiveCollection, CollectionRecord } from './collections';
+import { VECTOR_STORE_BACKENDS } from './vector-store';
+import { NEAR_DUPLICATE_POLICIES } from './duplicates';
+import { RETRIEVAL_MODES } from './retrieval';
+import { startChat, listSessions, ChatSessionSummary } from './chat';
+import { listTags, renameTag, mergeTags, deleteTag, TagListResult, TagUpdateResult } from './tags';
+import { enqueueJobs, listJobs, retryJobs, cancelJobs, runWorker, JOB_STATUSES, Job, JobStatus, JobEnqueueResult, JobListResult, JobUpdateResult, WorkerResult } from './jobs';
+import { startServer, DEFAULT_HOST, DEFAULT_PORT } from './server';
+import { startMcpServer } from './mcp';
+import { exportTarget, importBundle, ExportResult, ImportResult } from './bundle';
+import * as fs from 'fs';
+import * as path from 'path';
+
+function splitList(value?: string): string[] {
+    return value ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : [];
+}
+
+// Prints a command result (JSON or human-readable) and exits with the matching code
+function finish(argv: any, result: { success: boolean, error?: string }, printHuman: () => void): never {
+    if (argv.json) {
+        console.log(JSON.stringify(result, null, 2));
+    } else if (result.success) {
+        printHuman();
+    } else {
+        console.error("Error:", result.error);
+    }
+    process.exit(result.success ? 0 : 1);
+}
+
+function printBulkIngestSummary(result: BulkIngestResult) {
+    console.error(`\nIngested ${result.total} sources: ${result.succeeded} succeeded, ${result.skipped} skipped, ${result.failed} failed.`);
+    result.results.filter(item => !item.success).forEach(item => console.error(`  FAILED ${item.source}: ${item.error || 'no target accepted it'}`));
+}
+
+function printEnqueueResult(result: JobEnqueueResult) {
+    (result.jobs || []).forEach(job => console.error(`  #${job.id} ${job.source}${job.existing ? ' (already queued)' : ''}`));
+    (result.rejected || []).forEach(item => console.error(`  REJECTED ${item.source}: ${item.error}`));
+    if (result.jobs && result.jobs.length > 0) console.error("Run `jobs work` to process the queue.");
+}
+
+function printJob(job: Job) {
+    const attempts = job.attempts > 0 ? ` | attempt ${job.attempts}/${job.max_attempts}` : '';
+    const due = job.status === 'queued' && job.attempts > 0 ? ` | next attempt ${job.next_attempt_at} UTC` : '';
+    console.error(`#${job.id} [${job.status}] ${job.source}`);
+    console.error(`    stage: ${job.stage}${attempts}${due} | tags: ${job.tags.join(', ') || '(none)'} | queued ${job.created_at}`);
+    job.targets.forEach(target => console.error(`    ${target.target}: ${target.stage}${target.error ? ` (${target.error})` : ''}`));
+    if (job.last_error && job.status !== 'succeeded') console.error(`    last error: ${job.last_error}`);
+}
+
+// Targets a query command searches: --all-targets, --targets or the single --target
+function queryTargets(argv: any): string | string[] {
+    if (argv.allTargets) return listTargets().map(target => target.name);
+    return argv.targets ? splitList(argv.targets) : argv.target;
+}
+
+function printQuerySources(sources?: QuerySource[]) {
+    if (sources && sources.length > 0) {
+        console.error("\n--- Sources ---");
+        // Sources are labelled with their target when they come from several
+        const labelled = new Set(sources.map(s => s.target)).size > 1;
+        sources.forEach((s, i) => {
+            const origin = labelled ? `[${s.target}${s.alsoIn ? `, also in ${s.alsoIn.join(', ')}` : ''}] ` : '';
+            console.error(`${i + 1}. ${origin}${formatCitation(s)}`);
+        });
+    }
+    console.error("--------------\n");
+}
+
+// Citations the answer can't back up, after its sources
+function printCitationIssues(claims?: Claim[], citations?: Citation[]) {
+    const issues = (citations || []).filter(citation => citation.status !== 'supported');
+    if (issues.length === 0) return;
+    console.error("--- Citation issues ---");
+    issues.forEach(citation => {
+        const claim = claims![citation.claim].text;
+        const problem = citation.status === 'unknown_source'
+            ? `cites Source ${citation.source}, which does not exist`
+            : `is not backed by Source ${citation.source} (support ${citation.support})`;
+        console.error(`- "${claim.length > 80 ? claim.substring(0, 77) + '...' : claim}" ${problem}`);
+    });
+    console.error("--------------\n");
+}
+
+/**
+ * Streams a query's answer: deltas to stderr as they arrive or, with --json, one JSON
+ * event per line on stdout (sources, delta..., done).
+ */
+async function streamAnswer(argv: any, question: string, tags: string[], options: QueryOptions): Promise<never> {
+    let streamed = false;
+    for await (const event of streamQuery(question, tags, queryTargets(argv), options)) {
+        if (argv.json) {
+            console.log(JSON.stringify(event));
+            if (event.type === 'done') process.exit(event.success ? 0 : 1);
+            continue;
+        }
+        if (event.type === 'delta') {
+            if (!streamed) console.error("\n--- Answer ---");
+            streamed = true;
+            process.stderr.write(event.text);
+        } else if (event.type === 'done') {
+            if (streamed) process.stderr.write('\n');
+            if (!event.success) {
+                console.error("Error:", event.error);
+                process.exit(1);
+            }
+            if (!streamed) {
+                console.error("\n--- Answer ---");
+                console.error(event.answer);
+            }
+            printQuerySources(event.sources);
+            printCitationIssues(event.claims, event.citations);
+            process.exit(0);
+        }
+    }
+    process.exit(1);
+}
+
+function printSourceSummary(source: SourceSummary) {
+    console.error(`#${source.id} [${source.source_type}] ${source.title}`);
+    console.error(`    ${source.url}`);
+    console.error(`    tags: ${source.tags.join(', ') || '(none)'} | ${source.chunks} chunks | added ${source.created_at}`);
+}
+
+function printDoctorReport(report: DoctorReport) {
+    console.error(`\n${report.target}: ${report.healthy ? 'OK' : 'issues found'}`);
+    console.error(`  ${report.sources} sources, ${report.chunks} chunks, ${report.vectors ?? '?'} vectors`);
+    if (report.vectorStoreError) console.error(`  vector store unavailable: ${report.vectorStoreError}`);
+    if (report.outdatedVectorMetadata) console.error('  vectors lack the source filter fields (--backfill-metadata adds them)');
+    const issues: [string, any[]][] = [
+        ['chunks missing vectors', report.chunksMissingVectors.map(chunk => `chunk ${chunk.chunk_id} (source ${chunk.source_id})`)],
+        ['orphan vectors', report.orphanVectors],
+        ['sources without chunks', report.sourcesWithoutChunks],
+        ['sources missing an archive file', report.sourcesMissingArchive],
+        ['orphan archive files', report.orphanArchives],
+    ];
+    for (const [label, items] of issues) {
+        if (items.length === 0) continue;
+        console.error(`  ${items.length} ${label}:`);
+        items.slice(0, 10).forEach(item => console.error(`    - ${item}`));
+        if (items.length > 10) console.error(`    ... and ${items.length - 10} more`);
+    }
+    if (report.repairs) {
+        console.error(`  repaired: ${report.repairs.reembeddedChunks} chunks re-embedded, ${report.repairs.deletedVectors} orphan vectors deleted, ${report.repairs.regeneratedArchives.length} archives regenerated, ${report.repairs.backfilledVectors} vectors backfilled`);
+        report.repairs.errors.forEach(error => console.error(`  repair error: ${error}`));
+    }
+}
+
+function printTarget(target: TargetConfig, isDefault: boolean) {
+    console.error(`${target.name}${isDefault ? ' (default)' : ''}`);
+    console.error(`  repoPath:       ${target.repoPath}`);
+    console.error(`  dbPath:         ${target.dbPath}`);
+    console.error(`  collectionName: ${target.collectionName}`);
+    console.error(`  vectorStore:    ${target.vectorStore}${target.vectorStore === 'local' ? ` (${target.vectorStorePath})` : ''}`);
+    console.error(`  defaultTags:    ${target.defaultTags.join(', ') || '(none)'}`);
+    console.error(`  classifier:     ${target.classifier.enabled ? `enabled (reference: ${target.classifier.referenceTarget || target.name})` : 'disabled'}`);
+    console.error(`  summarizer:     ${target.summarizer.enabled ? 'enabled' : 'disabled'}`);
+    console.error(`  chunking:       ${formatChunkOptions(target.chunking)}`);
+    Object.entries(target.chunking.bySourceType).forEach(([sourceType, options]) =>
+      console.error(`    ${sourceType}: ${formatChunkOptions({ ...target.chunking, ...options })}`));
+    console.error(`  rerank:         ${formatRerankSettings(target.rerank)}`);
+    console.error(`  duplicates:     near duplicates ${target.duplicates.nearDuplicates}${target.duplicates.nearDuplicates !== 'off' ? ` (max distance ${target.duplicates.maxDistance})` : ''}`);
+}
 
 async function main() {
     try {
@@ -20,30 +193,92 @@ async function main() {
         default: false,
       })
       .command(
-        'ingest <source>',
-        'Ingest a new document from a URL or file path',
+        'ingest [source]',
+        'Ingest documents from a URL, a file, a directory or a list of sources',
         (yargs: any) => {
           return yargs.positional('source', {
-            describe: 'URL or local file path of the document to ingest',
+            describe: 'URL, local file or directory to ingest',
             type: 'string',
           }).option('tags', {
             alias: 't',
             describe: 'Comma-separated tags for the source',
             type: 'string',
           }).option('targets', {
-            describe: 'Comma-separated targets (pablo, paloma, reels)',
+            describe: 'Comma-separated target names (see `target list`); defaults to the registry default',
+            type: 'string',
+          }).option('from-file', {
+            describe: 'File listing one URL or path per line (# comments allowed)',
             type: 'string',
-            default: 'pablo'
+          }).option('stdin', {
+            describe: 'Read one URL or path per line from stdin',
+            type: 'boolean',
+            default: false,
+          }).option('recursive', {
+            alias: 'r',
+            describe: 'Also ingest files in subdirectories of a directory source',
+            type: 'boolean',
+            default: false,
+          }).option('concurrency', {
+            describe: 'Number of sources extracted and embedded at once in bulk ingestion',
+            type: 'number',
+            default: 3,
+          }).option('queue', {
+            describe: 'Add the sources to the job queue and return instead of ingesting now (see `jobs work`)',
+            type: 'boolean',
+            default: false,
           });
         },
         async (argv: any) => {
+          const tags = argv.tags ? argv.tags.split(',').map((tag: string) => tag.trim()) : [];
+          const targets = argv.targets ? argv.targets.split(',').map((target: string) => target.trim()) : [];
+          const isBulk = !!argv.fromFile || argv.stdin ||
+            (!!argv.source && fs.existsSync(argv.source) && fs.statSync(argv.source).isDirectory());
+
+          if (argv.queue) {
+            let result: JobEnqueueResult;
+            try {
+              const sources = isBulk
+                ? collectSources(argv.source, { fromFile: argv.fromFile, stdin: argv.stdin, recursive: argv.recursive })
+                : argv.source ? [argv.source] : [];
+              result = await enqueueJobs(sources, tags, targets);
+            } catch (error: any) {
+              result = { success: false, error: error.message };
+            }
+            if (argv.json) {
+              console.log(JSON.stringify(result, null, 2));
+            } else if (!result.jobs) {
+              console.error("Error:", result.error);
+            } else {
+              printEnqueueResult(result);
+            }
+            process.exit(result.success ? 0 : 1);
+          }
+
+          if (isBulk) {
+            let result: BulkIngestResult;
+            try {
+              const sources = collectSources(argv.source, { fromFile: argv.fromFile, stdin: argv.stdin, recursive: argv.recursive });
+              if (!argv.json) {
+                console.error(`Starting bulk ingestion of ${sources.length} sources with tags: ${tags.join(', ')} into targets: ${targets.join(', ') || 'default'}`);
+              }
+              result = await ingestSources(sources, tags, targets, { concurrency: argv.concurrency });
+            } catch (error: any) {
+              result = { success: false, total: 0, succeeded: 0, skipped: 0, failed: 0, results: [], error: error.message };
+            }
+            if (argv.json) {
+              console.log(JSON.stringify(result, null, 2));
+            } else if (result.error) {
+              console.error("Error:", result.error);
+            } else {
+              printBulkIngestSummary(result);
+            }
+            process.exit(result.success ? 0 : 1);
+          }
+
           let result: IngestResult;
           if (argv.source) {
-            const tags = argv.tags ? argv.tags.split(',').map((tag: string) => tag.trim()) : [];
-            const targets = argv.targets ? argv.targets.split(',').map((target: string) => target.trim()) : ['pablo'];
-            
             if (!argv.json) {
-                console.error(`Starting ingestion for: ${argv.source} with tags: ${tags.join(', ')} into targets: ${targets.join(', ')}`);
+                console.error(`Starting ingestion for: ${argv.source} with tags: ${tags.join(', ')} into targets: ${targets.join(', ') || 'default'}`);
             }
             result = await ingestSource(argv.source, tags, targets);
           } else {
@@ -65,12 +300,77 @@ async function main() {
             type: 'string',
           }).option('tags', {
             alias: 't',
-            describe: 'Comma-separated tags to filter the search',
+            describe: 'Comma-separated tags; sources must have all of them',
+            type: 'string',
+          }).option('any-tags', {
+            describe: 'Comma-separated tags; sources must have at least one of them',
+            type: 'string',
+          }).option('not-tags', {
+            describe: 'Comma-separated tags; sources must have none of them',
+            type: 'string',
+          }).option('type', {
+            describe: 'Comma-separated source types; only sources of one of them (article, video, pdf, text, tweet, reel, other)',
+            type: 'string',
+          }).option('since', {
+            describe: 'Only sources added on/after this date (YYYY-MM-DD or relative, e.g. 30d)',
+            type: 'string',
+          }).option('until', {
+            describe: 'Only sources added on/before this date (YYYY-MM-DD or relative, e.g. 1d)',
+            type: 'string',
+          }).option('domain', {
+            describe: 'Comma-separated domains, e.g. arxiv.org; only sources from one of them',
+            type: 'string',
+          }).option('source', {
+            describe: 'Comma-separated source IDs; only these sources',
             type: 'string',
           }).option('target', {
-            describe: 'Target knowledge base to query (e.g., pablo, paloma, reels)',
+            describe: 'Target knowledge base to query (see `target list`); defaults to the registry default',
+            type: 'string',
+          }).option('targets', {
+            describe: 'Comma-separated targets to query together, merging their results (overrides --target)',
             type: 'string',
-            default: 'pablo'
+          }).option('all-targets', {
+            describe: 'Query every registered target together (overrides --target and --targets)',
+            type: 'boolean',
+            default: false,
+          }).option('mode', {
+            describe: 'Retrieval mode: vector (semantic), keyword (BM25 full-text) or hybrid (both, rank-fused)',
+            choices: RETRIEVAL_MODES,
+            default: 'hybrid',
+          }).option('stream', {
+            describe: 'Print the answer as it is generated (--json: newline-delimited events); --no-stream waits for the full answer',
+            type: 'boolean',
+            default: true,
+          }).option('top-k', {
+            describe: 'Best-ranked chunks the context is built from',
+            type: 'number',
+            default: 10,
+          }).option('depth', {
+            describe: 'Candidates each retriever returns before fusion (default: 3 x top-k)',
+            type: 'number',
+          }).option('per-source', {
+            describe: 'Matching chunks used per source',
+            type: 'number',
+            default: 3,
+          }).option('neighbors', {
+            describe: 'Adjacent chunks added on each side of a matching chunk',
+            type: 'number',
+            default: 1,
+          }).option('context-tokens', {
+            describe: "Token budget of the context (default: the chat model's, see LLM_PROVIDERS.md)",
+            type: 'number',
+          }).option('mmr', {
+            describe: "Diversify the chosen chunks with Maximal Marginal Relevance (default: the target's rerank.mmr); --no-mmr keeps the retrieval order",
+            type: 'boolean',
+          }).option('mmr-lambda', {
+            describe: "MMR weight of relevance against diversity, 0 to 1 (default: the target's rerank.lambda)",
+            type: 'number',
+          }).option('llm-rerank', {
+            describe: "Score candidates' relevance with the LLM and drop those under --min-relevance (default: the target's rerank.llm)",
+            type: 'boolean',
+          }).option('min-relevance', {
+            describe: "LLM relevance, 0 to 1, under which a candidate is dropped (default: the target's rerank.minRelevance)",
+            type: 'number',
           });
         },
         async (argv: any) => {
@@ -78,9 +378,33 @@ async function main() {
           if (argv.question) {
             const tags = argv.tags ? argv.tags.split(',').map((tag: string) => tag.trim()) : [];
             if (!argv.json) {
-                console.error(`Starting query for: "${argv.question}" with tags: ${tags.join(', ')} from target: ${argv.target}`);
+                const targets = queryTargets(argv);
+                console.error(`Starting query for: "${argv.question}" with tags: ${tags.join(', ')} from target: ${(Array.isArray(targets) ? targets.join(', ') : targets) || 'default'}`);
+            }
+            const options: QueryOptions = {
+                mode: argv.mode,
+                anyTags: splitList(argv.anyTags),
+                notTags: splitList(argv.notTags),
+                topK: argv.topK,
+                depth: argv.depth,
+                perSource: argv.perSource,
+                neighbors: argv.neighbors,
+                contextTokens: argv.contextTokens,
+                rerank: Object.fromEntries(Object.entries({
+                  mmr: argv.mmr, lambda: argv.mmrLambda, llm: argv.llmRerank, minRelevance: argv.minRelevance,
+                }).filter(([, value]) => value !== undefined)),
+                filter: {
+                  types: splitList(argv.type),
+                  since: argv.since,
+                  until: argv.until,
+                  domains: splitList(argv.domain),
+                  ids: splitList(argv.source).map(Number),
+                },
+            };
+            if (argv.stream) {
+                await streamAnswer(argv, argv.question, tags, options);
             }
-            result = await answerQuery(argv.question, tags, argv.target as string);
+            result = await answerQuery(argv.question, tags, queryTargets(argv), options);
           } else {
               result = { success: false, error: "Question not provided." };
           }
@@ -90,17 +414,967 @@ async function main() {
           } else if (result.success && result.answer) {
             console.error("\n--- Answer ---");
             console.error(result.answer);
-            if (result.sources && result.sources.length > 0) {
-                console.error("\n--- Sources ---");
-                result.sources.forEach((s, i) => console.error(`${i + 1}. ${s.title} (${s.url})`));
+            printQuerySources(result.sources);
+            printCitationIssues(result.claims, result.citations);
+          } else if (!result.success && result.error) {
+            console.error("Error:", result.error);
+          }
+          process.exit(result.success ? 0 : 1);
+        }
+      )
+      .command(
+        'chat',
+        'Interactive multi-turn chat with a knowledge base',
+        (yargs: any) => {
+          return yargs.option('target', {
+            describe: 'Target knowledge base (see `target list`); defaults to the registry default',
+            type: 'string',
+          }).option('session', {
+            describe: 'Resume a saved session by ID',
+            type: 'number',
+          }).option('list', {
+            describe: 'List saved sessions and exit',
+            type: 'boolean',
+            default: false,
+          }).option('mode', {
+            describe: 'Retrieval mode: vector, keyword or hybrid',
+            choices: RETRIEVAL_MODES,
+            default: 'hybrid',
+          });
+        },
+        async (argv: any) => {
+          if (argv.list) {
+            let result: { success: boolean, target?: string, sessions?: ChatSessionSummary[], error?: string };
+            try {
+              const target = getTarget(argv.target);
+              result = { success: true, target: target.name, sessions: await listSessions(target) };
+            } catch (error: any) {
+              result = { success: false, error: error.message };
             }
+
+            finish(argv, result, () => {
+              if (result.sessions!.length === 0) console.error(`No chat sessions in target '${result.target}'.`);
+              result.sessions!.forEach(session => console.error(`#${session.id} ${session.title || '(empty)'} | ${session.messages} messages | last active ${session.updated_at}`));
+            });
+          }
+
+          try {
+            await startChat(getTarget(argv.target), { session: argv.session, mode: argv.mode, json: argv.json });
+          } catch (error: any) {
+            console.error("Error:", error.message);
+            process.exit(1);
+          }
+          process.exit(0);
+        }
+      )
+      .command(
+        ['doctor', 'reconcile'],
+        'Check SQLite chunks, vectors and archive files for consistency',
+        (yargs: any) => {
+          return yargs.option('target', {
+            describe: 'Only check this target (default: every registered target)',
+            type: 'string',
+          }).option('repair', {
+            describe: 'Apply every repair below',
+            type: 'boolean',
+            default: false,
+          }).option('reembed', {
+            describe: 'Re-embed chunks that have no vector',
+            type: 'boolean',
+            default: false,
+          }).option('delete-orphans', {
+            describe: 'Delete vectors whose chunk no longer exists in SQLite',
+            type: 'boolean',
+            default: false,
+          }).option('regenerate-archives', {
+            describe: 'Rewrite missing archive files from the stored raw_content',
+            type: 'boolean',
+            default: false,
+          }).option('backfill-metadata', {
+            describe: 'Add the source filter fields to vectors stored before they existed',
+            type: 'boolean',
+            default: false,
+          });
+        },
+        async (argv: any) => {
+          let result: DoctorResult;
+          try {
+            const targets = argv.target ? [getTarget(argv.target)] : listTargets();
+            result = await runDoctor(targets, {
+              reembed: argv.repair || argv.reembed,
+              deleteOrphanVectors: argv.repair || argv.deleteOrphans,
+              regenerateArchives: argv.repair || argv.regenerateArchives,
+              backfillMetadata: argv.repair || argv.backfillMetadata,
+            });
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          if (argv.json) {
+            console.log(JSON.stringify(result, null, 2));
+          } else if (result.success) {
+            result.reports!.forEach(printDoctorReport);
+          } else {
+            console.error("Error:", result.error);
+          }
+          process.exit(result.success && result.healthy ? 0 : 1);
+        }
+      )
+      .command(
+        'reindex',
+        'Re-embed every chunk of a target into a new collection and swap it in',
+        (yargs: any) => {
+          return yargs.option('target', {
+            describe: 'Target to reindex; defaults to the registry default',
+            type: 'string',
+          }).option('model', {
+            describe: 'Embedding model as provider[:model], e.g. gemini or minimax:embo-01 (default: provider hierarchy)',
+            type: 'string',
+          }).option('keep-old', {
+            describe: 'Keep the previous collection instead of deleting it after the swap',
+            type: 'boolean',
+            default: false,
+          });
+        },
+        async (argv: any) => {
+          let result: ReindexResult;
+          try {
+            const model = argv.model ? parseEmbeddingModel(argv.model) : undefined;
+            result = await reindexTarget(getTarget(argv.target), model, argv.keepOld);
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          finish(argv, result, () => {
+            console.error(`Reindexed ${result.chunks} chunks of '${result.target}' with ${result.model!.provider}/${result.model!.model} (${result.model!.dimension} dimensions).`);
+            console.error(`Active collection: ${result.collection} (was ${result.previousCollection})`);
+          });
+        }
+      )
+      .command(
+        'refresh [source]',
+        'Re-extract sources and replace their chunks and vectors when the content changed',
+        (yargs: any) => {
+          return yargs.positional('source', {
+            describe: 'Source ID, URL or file path',
+            type: 'string',
+          }).option('target', {
+            describe: 'Target knowledge base (see `target list`); defaults to the registry default',
+            type: 'string',
+          }).option('all', {
+            describe: 'Refresh every source of the target',
+            type: 'boolean',
+            default: false,
+          }).option('older-than', {
+            describe: 'Refresh sources not refreshed or added within this age (e.g. 30d) or before a date',
+            type: 'string',
+          });
+        },
+        async (argv: any) => {
+          let result: RefreshResult;
+          try {
+            result = await refreshSources(getTarget(argv.target), argv.source, { all: argv.all, olderThan: argv.olderThan });
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          if (argv.json) {
+            console.log(JSON.stringify(result, null, 2));
+          } else if (!result.results) {
+            console.error("Error:", result.error);
+          } else {
+            console.error(`\nRefreshed ${result.total} source(s) of '${result.target}': ${result.changed} changed, ${result.unchanged} unchanged, ${result.failed} failed.`);
+            result.results.forEach(item => {
+              if (item.status === 'changed') console.error(`  CHANGED #${item.id} ${item.url} (previous content saved as version ${item.version})`);
+              if (item.status === 'failed') console.error(`  FAILED #${item.id} ${item.url}: ${item.error}`);
+            });
+          }
+          process.exit(result.success ? 0 : 1);
+        }
+      )
+      .command(
+        'chunk',
+        'Show how a source would be chunked, without ingesting it',
+        (yargs: any) => {
+          return yargs.option('preview', {
+            describe: 'URL or file path of the source to chunk',
+            type: 'string',
+            demandOption: true,
+          }).option('target', {
+            describe: 'Target whose chunking options are used; defaults to the registry default',
+            type: 'string',
+          }).option('strategy', {
+            describe: 'Override the strategy: structured (pages, headings, timestamps), sentences or fixed',
+            choices: CHUNKING_STRATEGIES,
+          }).option('max-tokens', {
+            describe: 'Override the maximum chunk size in tokens',
+            type: 'number',
+          }).option('overlap-tokens', {
+            describe: 'Override the overlap between consecutive chunks in tokens',
+            type: 'number',
+          }).option('min-tokens', {
+            describe: 'Override the size under which a last chunk repeats more of the previous one',
+            type: 'number',
+          }).option('full', {
+            describe: 'Print every chunk in full instead of its first line',
+            type: 'boolean',
+            default: false,
+          });
+        },
+        async (argv: any) => {
+          let result: ChunkPreviewResult;
+          try {
+            const overrides = Object.fromEntries(Object.entries({
+              strategy: argv.strategy, maxTokens: argv.maxTokens, overlapTokens: argv.overlapTokens, minTokens: argv.minTokens,
+            }).filter(([, value]) => value !== undefined));
+            result = await previewChunks(argv.preview, getTarget(argv.target), overrides);
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          finish(argv, result, () => {
+            const sizes = result.chunks!.map(chunk => chunk.tokens);
+            console.error(`\n${result.title} (${result.sourceType}) with the options of '${result.target}': ${formatChunkOptions(result.options!)}`);
+            console.error(`${sizes.length} chunks, ${sizes.length > 0 ? `${Math.min(...sizes)}-${Math.max(...sizes)} tokens (average ${Math.round(sizes.reduce((a, b) => a + b, 0) / sizes.length)})` : 'nothing to embed'}\n`);
+            result.chunks!.forEach(chunk => {
+              const location = [
+                chunk.page != null ? `p. ${chunk.page}` : '',
+                chunk.section ? `§ ${chunk.section}` : '',
+                chunk.start_time != null ? `${Math.floor(chunk.start_time)}s` : '',
+              ].filter(part => part).join(' ');
+              console.error(`#${chunk.chunk_index} [${chunk.tokens} tokens]${location ? ` ${location}` : ''}`);
+              const text = chunk.content.replace(/\s+/g, ' ').trim();
+              console.error(`    ${argv.full ? chunk.content : text.length > 100 ? `${text.slice(0, 100)}...` : text}`);
+            });
+          });
+        }
+      )
+      .command(
+        'summarize [source]',
+        'Show a source\'s summary, or write a synthesis with citations across the sources matching filters',
+        (yargs: any) => {
+          return yargs.positional('source', {
+            describe: 'Source ID, URL or file path; omit to summarize the sources matching the filters',
+            type: 'string',
+          }).option('target', {
+            describe: 'Target knowledge base (see `target list`); defaults to the registry default',
+            type: 'string',
+          }).option('regenerate', {
+            describe: 'Generate the source\'s summary again instead of showing the stored one',
+            type: 'boolean',
+            default: false,
+          }).option('type', {
+            describe: 'Only sources of this type (article, video, pdf, text, tweet, reel, other)',
+            type: 'string',
+          }).option('tag', {
+            describe: 'Only sources with all of these comma-separated tags',
+            type: 'string',
+          }).option('any-tags', {
+            describe: 'Only sources with at least one of these comma-separated tags',
+            type: 'string',
+          }).option('not-tags', {
+            describe: 'Only sources with none of these comma-separated tags',
+            type: 'string',
+          }).option('since', {
+            describe: 'Only sources added on/after this date (YYYY-MM-DD or relative, e.g. 7d)',
+            type: 'string',
+          }).option('until', {
+            describe: 'Only sources added on/before this date (YYYY-MM-DD or relative, e.g. 1d)',
+            type: 'string',
+          }).option('limit', {
+            describe: 'Most recent matching sources to include',
+            type: 'number',
+            default: 20,
+          }).option('generate-missing', {
+            describe: 'Generate and store the summaries of matching sources that have none (LLM calls per source); otherwise they are left out',
+            type: 'boolean',
+            default: false,
+          });
+        },
+        async (argv: any) => {
+          if (argv.source) {
+            let result: SummarizeResult;
+            try {
+              result = await summarizeSource(getTarget(argv.target), argv.source, argv.regenerate);
+            } catch (error: any) {
+              result = { success: false, error: error.message };
+            }
+
+            finish(argv, result, () => {
+              console.error(`#${result.source!.id} ${result.source!.title} (${result.source!.url})\n`);
+              console.error(result.summary);
+            });
+          }
+
+          let result: SynthesisResult;
+          try {
+            result = await summarizeSources(getTarget(argv.target), {
+              type: argv.type,
+              tags: { all: splitList(argv.tag), any: splitList(argv.anyTags), not: splitList(argv.notTags) },
+              since: argv.since, until: argv.until, limit: argv.limit, generateMissing: argv.generateMissing,
+            });
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          finish(argv, result, () => {
+            console.error(`\n${result.summary}`);
+            console.error("\n--- Sources ---");
+            result.sources!.forEach((source, i) => console.error(`${i + 1}. ${source.title} (${source.url})`));
             console.error("--------------\n");
-          } else if (!result.success && result.error) {
+          });
+        }
+      )
+      .command(
+        'target',
+        'Manage the target registry (targets.json)',
+        (yargs: any) => {
+          return yargs
+            .command(
+              'list',
+              'List configured targets',
+              () => {},
+              async (argv: any) => {
+                let result: { success: boolean, defaultTarget?: string, targets?: TargetConfig[], error?: string };
+                try {
+                  const targets = listTargets();
+                  result = { success: true, defaultTarget: targets.length > 0 ? getDefaultTargetName() : undefined, targets };
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  if (result.targets!.length === 0) console.error("No targets configured.");
+                  result.targets!.forEach(t => printTarget(t, t.name === result.defaultTarget));
+                });
+              }
+            )
+            .command(
+              'add <name>',
+              'Register a new target and initialize its database',
+              (yargs: any) => {
+                return yargs.positional('name', {
+                  describe: 'Name of the target',
+                  type: 'string',
+                }).option('repo', {
+                  describe: 'Storage directory for archives (created if missing)',
+                  type: 'string',
+                  demandOption: true,
+                }).option('db', {
+                  describe: 'SQLite database path (default: <repo>/knowledge_base.db)',
+                  type: 'string',
+                }).option('collection', {
+                  describe: 'Vector collection name (default: <name>_kb)',
+                  type: 'string',
+                }).option('vector-store', {
+                  describe: 'Vector store backend: chroma (server on localhost:8000, the default) or local (vectors.db next to the database)',
+                  choices: VECTOR_STORE_BACKENDS,
+                }).option('tags', {
+                  alias: 't',
+                  describe: 'Comma-separated tags applied to every source ingested into this target',
+                  type: 'string',
+                }).option('classifier', {
+                  describe: 'Enable AI classification (use --no-classifier to disable)',
+                  type: 'boolean',
+                  default: true,
+                }).option('classifier-reference', {
+                  describe: 'Target whose existing tags are offered to the classifier',
+                  type: 'string',
+                }).option('summarizer', {
+                  describe: 'Generate a summary of each source at ingestion (use --no-summarizer to disable)',
+                  type: 'boolean',
+                  default: true,
+                }).option('near-duplicates', {
+                  describe: 'Near-duplicate content: off (ingest anyway), flag (ingest and mark, the default) or merge (record as an alias of the stored source)',
+                  choices: NEAR_DUPLICATE_POLICIES,
+                }).option('default', {
+                  describe: 'Make this the default target',
+                  type: 'boolean',
+                  default: false,
+                });
+              },
+              async (argv: any) => {
+                let result: { success: boolean, target?: TargetConfig, error?: string };
+                try {
+                  const target = addTarget(argv.name, {
+                    repoPath: path.resolve(argv.repo),
+                    dbPath: argv.db ? path.resolve(argv.db) : undefined,
+                    collectionName: argv.collection,
+                    vectorStore: argv.vectorStore,
+                    defaultTags: splitList(argv.tags),
+                    classifier: { enabled: argv.classifier, referenceTarget: argv.classifierReference },
+                    summarizer: { enabled: argv.summarizer },
+                    duplicates: argv.nearDuplicates ? { nearDuplicates: argv.nearDuplicates } : undefined,
+                  }, argv.default);
+                  fs.mkdirSync(target.repoPath, { recursive: true });
+                  await initializeSchema(target.dbPath);
+                  result = { success: true, target };
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Target '${result.target!.name}' added.`);
+                });
+              }
+            )
+            .command(
+              'remove <name>',
+              'Unregister a target (its database and archives are left on disk)',
+              (yargs: any) => {
+                return yargs.positional('name', {
+                  describe: 'Name of the target',
+                  type: 'string',
+                });
+              },
+              async (argv: any) => {
+                let result: { success: boolean, target?: TargetConfig, error?: string };
+                try {
+                  result = { success: true, target: removeTarget(argv.name) };
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Target '${result.target!.name}' removed. Data left in ${result.target!.repoPath}`);
+                });
+              }
+            )
+            .command(
+              'show <name>',
+              'Show a target\'s configuration and contents',
+              (yargs: any) => {
+                return yargs.positional('name', {
+                  describe: 'Name of the target',
+                  type: 'string',
+                });
+              },
+              async (argv: any) => {
+                let result: { success: boolean, target?: TargetConfig, isDefault?: boolean, stats?: { sources: number, chunks: number }, collection?: CollectionRecord, error?: string };
+                try {
+                  const target = getTarget(argv.name);
+                  let stats, collection;
+                  if (fs.existsSync(target.dbPath)) {
+                    await initializeSchema(target.dbPath);
+                    stats = await getSourceStats(target.dbPath);
+                    collection = await getActiveCollection(target);
+                  }
+                  result = { success: true, target, isDefault: target.name === getDefaultTargetName(), stats, collection };
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  printTarget(result.target!, result.isDefault!);
+                  console.error(result.stats ? `  contents:       ${result.stats.sources} sources, ${result.stats.chunks} chunks` : '  contents:       (database not created yet)');
+                  if (result.collection) {
+                    console.error(`  vectors:        '${result.collection.name}' embedded with ${result.collection.embedding_provider}/${result.collection.embedding_model} (${result.collection.embedding_dimension} dimensions)`);
+                  }
+                });
+              }
+            )
+            .demandCommand(1, 'Specify a target subcommand: list, add, remove or show');
+        }
+      )
+      .command(
+        'sources',
+        'Inspect and manage ingested sources',
+        (yargs: any) => {
+          return yargs
+            .option('target', {
+              describe: 'Target knowledge base (see `target list`); defaults to the registry default',
+              type: 'string',
+            })
+            .command(
+              'list',
+              'List sources, newest first',
+              (yargs: any) => {
+                return yargs.option('type', {
+                  describe: 'Only sources of this type (article, video, pdf, text, tweet, reel, other)',
+                  type: 'string',
+                }).option('tag', {
+                  describe: 'Only sources with all of these comma-separated tags',
+                  type: 'string',
+                }).option('any-tags', {
+                  describe: 'Only sources with at least one of these comma-separated tags',
+                  type: 'string',
+                }).option('not-tags', {
+                  describe: 'Only sources with none of these comma-separated tags',
+                  type: 'string',
+                }).option('near-duplicates', {
+                  describe: 'Only sources flagged as near duplicates of another source',
+                  type: 'boolean',
+                  default: false,
+                }).option('since', {
+                  describe: 'Only sources added on/after this date (YYYY-MM-DD or relative, e.g. 7d)',
+                  type: 'string',
+                }).option('until', {
+                  describe: 'Only sources added on/before this date (YYYY-MM-DD or relative, e.g. 1d)',
+                  type: 'string',
+                }).option('limit', {
+                  describe: 'Sources per page',
+                  type: 'number',
+                  default: 20,
+                }).option('page', {
+                  describe: 'Page number (1-based)',
+                  type: 'number',
+                  default: 1,
+                });
+              },
+              async (argv: any) => {
+                let result: SourceListResult;
+                try {
+                  result = await listSources(getTarget(argv.target), {
+                    type: argv.type,
+                    tags: { all: splitList(argv.tag), any: splitList(argv.anyTags), not: splitList(argv.notTags) },
+                    nearDuplicates: argv.nearDuplicates,
+                    since: argv.since, until: argv.until, limit: argv.limit, page: argv.page,
+                  });
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  const first = (result.page! - 1) * result.limit! + 1;
+                  const last = first + result.sources!.length - 1;
+                  console.error(result.sources!.length > 0
+                    ? `Sources ${first}-${last} of ${result.total} in target '${result.target}' (page ${result.page}):\n`
+                    : `No sources found in target '${result.target}'.`);
+                  result.sources!.forEach(printSourceSummary);
+                });
+              }
+            )
+            .command(
+              'show <source>',
+              'Show a source by ID or URL',
+              (yargs: any) => {
+                return yargs.positional('source', {
+                  describe: 'Source ID, URL or file path',
+                  type: 'string',
+                }).option('content', {
+                  describe: 'Include the full extracted content',
+                  type: 'boolean',
+                  default: false,
+                });
+              },
+              async (argv: any) => {
+                let result: SourceResult;
+                try {
+                  result = await getSource(getTarget(argv.target), String(argv.source), argv.content);
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  const source = result.source!;
+                  printSourceSummary(source);
+                  console.error(`    normalized: ${source.normalized_url}`);
+                  console.error(`    hash: ${source.content_hash}`);
+                  if (source.aliases.length > 0) console.error(`    aliases: ${source.aliases.join(', ')}`);
+                  if (source.near_duplicate_of) console.error(`    near duplicate of: #${source.near_duplicate_of}`);
+                  console.error(`    archived: ${source.archived_files.join(', ') || '(no archive file found)'}`);
+                  if (source.summary) console.error(`\n--- Summary ---\n${source.summary}`);
+                  if (source.raw_content) console.error(`\n--- Content ---\n${source.raw_content}`);
+                });
+              }
+            )
+            .command(
+              'history <source>',
+              'Show the content versions of a source kept by refresh',
+              (yargs: any) => {
+                return yargs.positional('source', {
+                  describe: 'Source ID, URL or file path',
+                  type: 'string',
+                }).option('diff', {
+                  describe: 'Print the lines removed and added by each version',
+                  type: 'boolean',
+                  default: false,
+                });
+              },
+              async (argv: any) => {
+                let result: SourceHistoryResult;
+                try {
+                  result = await getSourceHistory(getTarget(argv.target), String(argv.source), argv.diff);
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`#${result.source!.id} ${result.source!.title}\n    ${result.source!.url}\n`);
+                  result.versions!.forEach(version => {
+                    const changes = version.added !== undefined ? ` | +${version.added} -${version.removed} lines` : '';
+                    console.error(`v${version.version}${version.current ? ' (current)' : ''} ${version.from} -> ${version.until || 'now'} | ${version.characters} chars${changes} | ${version.content_hash.substring(0, 12)}`);
+                    if (version.version > 1 && version.title !== result.versions![version.version - 2].title) console.error(`    title: ${version.title}`);
+                    (version.diff || []).forEach(line => console.error(`    ${line}`));
+                  });
+                  if (result.versions!.length === 1) console.error("No earlier versions; content has not changed since it was ingested.");
+                });
+              }
+            )
+            .command(
+              'retag <source>',
+              'Change the tags of a source in SQLite and the vector store',
+              (yargs: any) => {
+                return yargs.positional('source', {
+                  describe: 'Source ID, URL or file path',
+                  type: 'string',
+                }).option('tags', {
+                  alias: 't',
+                  describe: 'Comma-separated tags replacing the current ones',
+                  type: 'string',
+                }).option('add', {
+                  describe: 'Comma-separated tags to add',
+                  type: 'string',
+                }).option('remove', {
+                  describe: 'Comma-separated tags to remove',
+                  type: 'string',
+                }).check((argv: any) => {
+                  if (argv.tags === undefined && !argv.add && !argv.remove) {
+                    throw new Error('Provide --tags, --add or --remove.');
+                  }
+                  return true;
+                });
+              },
+              async (argv: any) => {
+                let result: SourceResult;
+                try {
+                  result = await retagSource(getTarget(argv.target), String(argv.source), {
+                    set: argv.tags !== undefined ? splitList(argv.tags) : undefined,
+                    add: splitList(argv.add),
+                    remove: splitList(argv.remove),
+                  });
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Tags for source #${result.source!.id}: ${result.source!.tags.join(', ') || '(none)'}`);
+                });
+              }
+            )
+            .command(
+              'delete <source>',
+              'Delete a source with its chunks, vectors and archived file',
+              (yargs: any) => {
+                return yargs.positional('source', {
+                  describe: 'Source ID, URL or file path',
+                  type: 'string',
+                });
+              },
+              async (argv: any) => {
+                let result: SourceDeleteResult;
+                try {
+                  result = await deleteSource(getTarget(argv.target), String(argv.source));
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Deleted source #${result.source!.id} (${result.source!.title}): ${result.chunks} chunks, their vectors and ${result.archivedFiles!.length} archived file(s).`);
+                });
+              }
+            )
+            .demandCommand(1, 'Specify a sources subcommand: list, show, history, retag or delete');
+        }
+      )
+      .command(
+        'tags',
+        'List and reorganize the tags of a target',
+        (yargs: any) => {
+          return yargs
+            .option('target', {
+              describe: 'Target knowledge base (see `target list`); defaults to the registry default',
+              type: 'string',
+            })
+            .command(
+              'list',
+              'List tags with the number of sources carrying each',
+              () => {},
+              async (argv: any) => {
+                let result: TagListResult;
+                try {
+                  result = await listTags(getTarget(argv.target));
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  if (result.tags!.length === 0) console.error(`No tags in target '${result.target}'.`);
+                  result.tags!.forEach(tag => console.error(`${String(tag.sources).padStart(5)}  ${tag.name}`));
+                });
+              }
+            )
+            .command(
+              'rename <from> <to>',
+              'Rename a tag on every source',
+              (yargs: any) => {
+                return yargs.positional('from', {
+                  describe: 'Current tag name',
+                  type: 'string',
+                }).positional('to', {
+                  describe: 'New tag name (must not exist yet; use merge otherwise)',
+                  type: 'string',
+                });
+              },
+              async (argv: any) => {
+                let result: TagUpdateResult;
+                try {
+                  result = await renameTag(getTarget(argv.target), String(argv.from), String(argv.to));
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Renamed '${argv.from}' to '${result.tag}' on ${result.sources} source(s).`);
+                });
+              }
+            )
+            .command(
+              'merge <tags..>',
+              'Replace one or more tags with another tag on every source',
+              (yargs: any) => {
+                return yargs.positional('tags', {
+                  describe: 'Tags to merge away',
+                  type: 'string',
+                }).option('into', {
+                  describe: 'Tag that replaces them (created if missing)',
+                  type: 'string',
+                  demandOption: true,
+                });
+              },
+              async (argv: any) => {
+                let result: TagUpdateResult;
+                try {
+                  result = await mergeTags(getTarget(argv.target), argv.tags.map(String), String(argv.into));
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Merged ${argv.tags.join(', ')} into '${result.tag}' on ${result.sources} source(s).`);
+                });
+              }
+            )
+            .command(
+              'delete <tag>',
+              'Remove a tag from every source',
+              (yargs: any) => {
+                return yargs.positional('tag', {
+                  describe: 'Tag to delete',
+                  type: 'string',
+                });
+              },
+              async (argv: any) => {
+                let result: TagUpdateResult;
+                try {
+                  result = await deleteTag(getTarget(argv.target), String(argv.tag));
+                } catch (error: any) {
+                  result = { success: false, error: error.message };
+                }
+
+                finish(argv, result, () => {
+                  console.error(`Deleted tag '${result.tag}' from ${result.sources} source(s).`);
+                });
+              }
+            )
+            .demandCommand(1, 'Specify a tags subcommand: list, rename, merge or delete');
+        }
+      )
+      .command(
+        'jobs',
+        'Inspect and process the ingestion job queue (filled by `ingest --queue`)',
+        (yargs: any) => {
+          return yargs
+            .command(
+              'list',
+              'List recent jobs with their per-target progress',
+              (yargs: any) => {
+                return yargs.option('status', {
+                  describe: 'Only jobs with this status',
+                  choices: JOB_STATUSES,
+                }).option('limit', {
+                  describe: 'Maximum number of jobs to list (newest first)',
+                  type: 'number',
+                  default: 50,
+                });
+              },
+              async (argv: any) => {
+                const result: JobListResult = await listJobs(argv.status as JobStatus | undefined, argv.limit);
+                finish(argv, result, () => {
+                  if (result.jobs!.length === 0) console.error("No jobs.");
+                  result.jobs!.forEach(printJob);
+                });
+              }
+            )
+            .command(
+              'retry [ids..]',
+              'Requeue jobs now with a fresh attempt count (default: every failed job)',
+              (yargs: any) => {
+                return yargs.positional('ids', {
+                  describe: 'Job IDs (failed, cancelled or waiting for a retry)',
+                  type: 'number',
+                });
+              },
+              async (argv: any) => {
+                const result: JobUpdateResult = await retryJobs((argv.ids || []).map(Number));
+                finish(argv, result, () => {
+                  console.error(result.updated!.length > 0 ? `Requeued job(s) ${result.updated!.join(', ')}.` : "No failed jobs to retry.");
+                });
+              }
+            )
+            .command(
+              'cancel <ids..>',
+              'Cancel queued or failed jobs',
+              (yargs: any) => {
+                return yargs.positional('ids', {
+                  describe: 'Job IDs',
+                  type: 'number',
+                });
+              },
+              async (argv: any) => {
+                const result: JobUpdateResult = await cancelJobs(argv.ids.map(Number));
+                finish(argv, result, () => {
+                  console.error(`Cancelled job(s) ${result.updated!.join(', ')}.`);
+                });
+              }
+            )
+            .command(
+              'work',
+              'Process queued jobs, retrying failures with backoff, until the queue is empty',
+              (yargs: any) => {
+                return yargs.option('watch', {
+                  describe: 'Keep running and pick up new jobs as they are queued',
+                  type: 'boolean',
+                  default: false,
+                }).option('concurrency', {
+                  describe: 'Number of jobs processed at once',
+                  type: 'number',
+                  default: 3,
+                });
+              },
+              async (argv: any) => {
+                const result: WorkerResult = await runWorker({ watch: argv.watch, concurrency: argv.concurrency });
+                if (argv.json) {
+                  console.log(JSON.stringify(result, null, 2));
+                } else if (result.error) {
+                  console.error("Error:", result.error);
+                } else {
+                  console.error(`\nProcessed ${result.processed} attempt(s): ${result.succeeded} succeeded, ${result.requeued} requeued, ${result.failed} failed.`);
+                }
+                process.exit(result.success ? 0 : 1);
+              }
+            )
+            .demandCommand(1, 'Specify a jobs subcommand: list, retry, cancel or work');
+        }
+      )
+      .command(
+        'export <file>',
+        'Write a target to a portable tar bundle: sources, chunks, vectors with their model, and archived files',
+        (yargs: any) => {
+          return yargs.positional('file', {
+            describe: 'Bundle to write, e.g. research.tar',
+            type: 'string',
+          }).option('target', {
+            describe: 'Target knowledge base to export (see `target list`); defaults to the registry default',
+            type: 'string',
+          });
+        },
+        async (argv: any) => {
+          let result: ExportResult;
+          try {
+            result = await exportTarget(getTarget(argv.target), path.resolve(argv.file));
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          finish(argv, result, () => {
+            console.error(`Wrote ${result.path}: ${result.sources} sources, ${result.chunks} chunks, ${result.vectors} vectors, ${result.files} archived files.`);
+          });
+        }
+      )
+      .command(
+        'import <file>',
+        'Restore an export bundle into a new or existing target, skipping sources it already holds',
+        (yargs: any) => {
+          return yargs.positional('file', {
+            describe: 'Bundle written by `export`',
+            type: 'string',
+          }).option('target', {
+            describe: 'Target to import into; defaults to the registry default',
+            type: 'string',
+          }).option('repo', {
+            describe: 'Storage directory for archives, to create the target if it is not registered (with the exported settings)',
+            type: 'string',
+          }).option('vector-store', {
+            describe: 'Vector store backend of a created target (default: that of the exported target)',
+            choices: VECTOR_STORE_BACKENDS,
+          });
+        },
+        async (argv: any) => {
+          let result: ImportResult;
+          try {
+            result = await importBundle(path.resolve(argv.file), argv.target || getDefaultTargetName(), { repoPath: argv.repo, vectorStore: argv.vectorStore });
+          } catch (error: any) {
+            result = { success: false, error: error.message };
+          }
+
+          if (argv.json) {
+            console.log(JSON.stringify(result, null, 2));
+          } else if (result.error) {
             console.error("Error:", result.error);
+          } else {
+            console.error(`\n${result.created ? 'Created' : 'Updated'} target ${result.target}: imported ${result.imported} sources (${result.chunks} chunks, ${result.vectors} vectors, ${result.files} archived files), skipped ${result.skipped!.length} already present, ${result.failed!.length} failed.`);
+            result.failed!.forEach(failure => console.error(`  Failed: ${failure.url}: ${failure.error}`));
           }
           process.exit(result.success ? 0 : 1);
         }
       )
+      .command(
+        'serve',
+        'Run a local HTTP API for ingestion, queries, sources and tags (see /openapi.json)',
+        (yargs: any) => {
+          return yargs.option('host', {
+            describe: 'Interface to listen on',
+            type: 'string',
+            default: DEFAULT_HOST,
+          }).option('port', {
+            describe: 'Port to listen on',
+            type: 'number',
+            default: DEFAULT_PORT,
+          }).option('token', {
+            describe: 'Bearer token required on every endpoint but /health and /openapi.json (default: SERVER_TOKEN)',
+            type: 'string',
+          }).option('worker', {
+            describe: 'Process queued ingestion jobs in the server (--no-worker leaves them to `jobs work`)',
+            type: 'boolean',
+            default: true,
+          }).option('concurrency', {
+            describe: 'Number of jobs the worker processes at once',
+            type: 'number',
+            default: 3,
+          });
+        },
+        async (argv: any) => {
+          const result = await startServer({
+            host: argv.host,
+            port: argv.port,
+            token: argv.token || config.serverToken,
+            worker: argv.worker,
+            concurrency: argv.concurrency,
+          });
+          if (!result.success) console.error("Error:", result.error);
+          process.exit(result.success ? 0 : 1);
+        }
+      )
+      .command(
+        'mcp',
+        'Serve the knowledge base as Model Context Protocol tools over stdio, for AI assistants',
+        () => {},
+        async () => {
+          await startMcpServer();
+          process.exit(0);
+        }
+      )
       .demandCommand(1, 'You need at least one command before moving on')
       .strict()
       .help()
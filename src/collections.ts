@@ -0,0 +1,164 @@
+import { getDbConnection, withTransaction } from './database';
+import { EmbeddingInfo, EmbeddingModel, embeddingModelKey } from './llm-provider';
+import { TargetConfig } from './targets';
+import { VectorStore, getVectorStore, sourceFilterMetadata } from './vector-store';
+
+export interface CollectionRecord {
+    name: string;
+    base_name: string;
+    embedding_provider: string;
+    embedding_model: string;
+    embedding_dimension: number;
+    active: number;
+    metadata_version: number;
+    created_at: string;
+}
+
+// Version of the metadata stored with vectors. Version 2 added the filter fields
+// (source_type, created_at, domain); collections at an older version get them from
+// backfillVectorMetadata (`doctor --backfill-metadata`).
+export const VECTOR_METADATA_VERSION = 2;
+
+/**
+ * Returns the active vector collection of a target, or undefined for a collection
+ * that predates model tracking (or has never been written to).
+ */
+export async function getActiveCollection(target: TargetConfig): Promise<CollectionRecord | undefined> {
+    const db = await getDbConnection(target.dbPath);
+    return db.get('SELECT * FROM vector_collections WHERE base_name = ? AND active = 1', target.collectionName);
+}
+
+/**
+ * Name of the collection that currently holds the target's vectors. After a reindex
+ * this differs from the configured collectionName.
+ */
+export async function getActiveCollectionName(target: TargetConfig): Promise<string> {
+    const active = await getActiveCollection(target);
+    return active ? active.name : target.collectionName;
+}
+
+/**
+ * The target's active collection, opened in the target's vector store backend.
+ */
+export async function getActiveVectorStore(target: TargetConfig): Promise<VectorStore> {
+    return getVectorStore(target, await getActiveCollectionName(target));
+}
+
+export function getCollectionModel(record: CollectionRecord): EmbeddingModel {
+    return { provider: record.embedding_provider, model: record.embedding_model };
+}
+
+/**
+ * Throws if vectors from `model` may not be written to (or queried against) the collection.
+ */
+export function assertSameModel(record: CollectionRecord | undefined, model: EmbeddingInfo): void {
+    if (!record) return;
+    const expected = embeddingModelKey(getCollectionModel(record));
+    if (expected !== embeddingModelKey(model) || record.embedding_dimension !== model.dimension) {
+        throw new Error(
+            `Collection '${record.name}' holds ${expected} vectors (${record.embedding_dimension} dimensions), ` +
+            `refusing to mix in ${embeddingModelKey(model)} (${model.dimension} dimensions). ` +
+            `Use 'reindex' to migrate the collection to another model.`
+        );
+    }
+}
+
+/**
+ * Records the embedding model of a collection. The first collection recorded for a
+ * target becomes its active one, taking over the metadata version of vectors stored
+ * before collections were recorded.
+ */
+export async function recordCollection(target: TargetConfig, name: string, model: EmbeddingInfo, active?: boolean): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await withTransaction(db, async () => {
+        const existing = await db.get('SELECT name FROM vector_collections WHERE base_name = ? AND active = 1', target.collectionName);
+        const legacy = existing ? undefined : await db.get('SELECT metadata_version FROM legacy_collection');
+        await db.run(
+            `INSERT INTO vector_collections (name, base_name, embedding_provider, embedding_model, embedding_dimension, active, metadata_version)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(name) DO UPDATE SET embedding_provider = excluded.embedding_provider,
+               embedding_model = excluded.embedding_model, embedding_dimension = excluded.embedding_dimension`,
+            name, target.collectionName, model.provider, model.model, model.dimension, (active ?? !existing) ? 1 : 0,
+            legacy ? legacy.metadata_version : VECTOR_METADATA_VERSION
+        );
+        if (legacy) await db.run('DELETE FROM legacy_collection');
+    });
+}
+
+/**
+ * Makes `name` the target's active collection in a single transaction, so readers
+ * see either the old or the new collection, never neither.
+ */
+export async function activateCollection(target: TargetConfig, name: string): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await withTransaction(db, async () => {
+        await db.run('UPDATE vector_collections SET active = 0 WHERE base_name = ?', target.collectionName);
+        const updated = await db.run('UPDATE vector_collections SET active = 1 WHERE name = ?', name);
+        if (!updated.changes) throw new Error(`Collection '${name}' is not recorded for target ${target.name}.`);
+    });
+}
+
+export async function forgetCollection(target: TargetConfig, name: string): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await db.run('DELETE FROM vector_collections WHERE name = ? AND active = 0', name);
+}
+
+/**
+ * Picks an unused collection name for a reindex: {collectionName}_v2, _v3, ...
+ */
+export async function nextCollectionName(target: TargetConfig): Promise<string> {
+    const db = await getDbConnection(target.dbPath);
+    const rows = await db.all('SELECT name FROM vector_collections WHERE base_name = ?', target.collectionName);
+    const taken = new Set(rows.map(row => row.name));
+    let version = 2;
+    while (taken.has(`${target.collectionName}_v${version}`)) version++;
+    return `${target.collectionName}_v${version}`;
+}
+
+/**
+ * Marks a collection's vectors as carrying the current metadata fields, for
+ * collections written entirely by the current code (a reindex) or backfilled.
+ */
+export async function markMetadataCurrent(target: TargetConfig, name: string): Promise<void> {
+    const db = await getDbConnection(target.dbPath);
+    await withTransaction(db, async () => {
+        const updated = await db.run('UPDATE vector_collections SET metadata_version = ? WHERE name = ?', VECTOR_METADATA_VERSION, name);
+        // A collection that predates model tracking has no record yet
+        if (!updated.changes) await db.run('UPDATE legacy_collection SET metadata_version = ?', VECTOR_METADATA_VERSION);
+    });
+}
+
+/**
+ * Returns the metadata version the vectors of the target's active collection are
+ * known to carry. Only reads, so queries can check it.
+ */
+export async function getMetadataVersion(target: TargetConfig): Promise<number> {
+    const record = await getActiveCollection(target);
+    if (record) return record.metadata_version;
+    const db = await getDbConnection(target.dbPath);
+    const legacy = await db.get('SELECT metadata_version FROM legacy_collection');
+    return legacy ? legacy.metadata_version : VECTOR_METADATA_VERSION;
+}
+
+/**
+ * Adds the filter fields to the vectors of the target's active collection if it
+ * predates them, source by source from the sources table, and records the collection
+ * as up to date. Returns the number of vectors updated (0 when nothing was needed).
+ * Writes to the vector store, so callers hold the ingestion lock.
+ */
+export async function backfillVectorMetadata(target: TargetConfig): Promise<number> {
+    if (await getMetadataVersion(target) >= VECTOR_METADATA_VERSION) return 0;
+
+    const record = await getActiveCollection(target);
+    const db = await getDbConnection(target.dbPath);
+    const store = getVectorStore(target, record ? record.name : target.collectionName);
+    const sources = await db.all('SELECT id, url, source_type, created_at FROM sources ORDER BY id');
+    console.error(`Backfilling filter metadata on the vectors of ${sources.length} source(s) in '${store.collectionName}'...`);
+    let updated = 0;
+    for (const source of sources) {
+        updated += await store.updateSourceMetadata(source.id, sourceFilterMetadata(source));
+    }
+    await markMetadataCurrent(target, store.collectionName);
+    console.error(`Updated ${updated} vectors.`);
+    return updated;
+}
@@ -1,30 +1,68 @@
 
 import dotenv from 'dotenv';
 import path from 'path';
+import { getProvider } from './llm-provider';
 
 const projectRoot = path.resolve(__dirname, '..');
 const envPath = path.resolve(projectRoot, '.env');
 dotenv.config({ path: envPath, override: true });
 
+// Providers tried for each task when no order is configured; unconfigured ones are skipped
+const DEFAULT_PROVIDER_ORDER = 'gemini,minimax,openai,openai-compatible';
+
+function providerOrder(value: string | undefined): string[] {
+    return (value || DEFAULT_PROVIDER_ORDER).split(',').map(name => name.trim()).filter(name => name.length > 0);
+}
+
 export const config = {
     googleApiKey: process.env.GOOGLE_API_KEY,
     openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    openaiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
     transcriptApiKey: process.env.TRANSCRIPT_API_KEY,
     
     // Minimax Configuration
     minimaxApiKey: process.env.MINIMAX_API_KEY,
     minimaxGroupId: process.env.MINIMAX_GROUP_ID,
 
+    // Any server implementing the OpenAI API (llama.cpp server, Ollama, vLLM...)
+    openaiCompatibleBaseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    openaiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    openaiCompatibleModel: process.env.OPENAI_COMPATIBLE_MODEL,
+    openaiCompatibleEmbeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL,
+    // Local models often have small context windows
+    openaiCompatibleContextTokens: parseInt(process.env.OPENAI_COMPATIBLE_CONTEXT_TOKENS || '', 10) || 3000,
+
+    // Provider order for each task (see LLM_PROVIDERS.md)
+    generationProviders: providerOrder(process.env.GENERATION_PROVIDERS),
+    embeddingProviders: providerOrder(process.env.EMBEDDING_PROVIDERS),
+
     dbPath: process.env.DB_PATH || './knowledge_base.db',
     chromaCollectionName: process.env.CHROMA_COLLECTION_NAME || 'knowledge_base',
 
-    primaryEmbeddingModel: 'embedding-001',
-    fallbackEmbeddingModel: 'text-embedding-3-small',
+    // Target registry (see targets.example.json)
+    targetsConfigPath: path.resolve(projectRoot, process.env.TARGETS_CONFIG || 'targets.json'),
+
+    // Ingestion job queue, shared by all targets
+    jobsDbPath: path.resolve(projectRoot, process.env.JOBS_DB_PATH || 'jobs.db'),
+
+    // Bearer token the `serve` HTTP API requires, unless --token is given; none by default
+    serverToken: process.env.SERVER_TOKEN,
+
     generativeModel: 'gemini-2.0-flash',
 };
 
+/**
+ * Checks the provider orders only name known providers and that at least one of
+ * them is configured for generation and one for embeddings.
+ */
 export function validateConfig() {
-    if (!config.googleApiKey && !config.minimaxApiKey) {
-        throw new Error("At least one LLM provider API key (GOOGLE_API_KEY or MINIMAX_API_KEY) must be set in the .env file.");
+    const generation = config.generationProviders.map(getProvider);
+    const embedding = config.embeddingProviders.map(getProvider);
+    if (!generation.some(provider => provider.canGenerate())) {
+        throw new Error(`No generation provider is configured (GENERATION_PROVIDERS: ${config.generationProviders.join(', ')}). Set GOOGLE_API_KEY, MINIMAX_API_KEY, OPENAI_API_KEY or OPENAI_COMPATIBLE_BASE_URL with OPENAI_COMPATIBLE_MODEL in the .env file.`);
+    }
+    if (!embedding.some(provider => provider.canEmbed())) {
+        throw new Error(`No embedding provider is configured (EMBEDDING_PROVIDERS: ${config.embeddingProviders.join(', ')}). Set GOOGLE_API_KEY, MINIMAX_API_KEY, OPENAI_API_KEY or OPENAI_COMPATIBLE_BASE_URL with OPENAI_COMPATIBLE_EMBEDDING_MODEL in the .env file.`);
     }
 }
@@ -2,18 +2,36 @@
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { migrateJsonTags } from './tags';
 
-// Cache connections to avoid opening multiple handles to the same DB
-const dbConnections = new Map<string, Database>();
+// Cache connections to avoid opening multiple handles to the same DB. The pending
+// open is cached too, so concurrent first calls share one connection.
+const dbConnections = new Map<string, Promise<Database>>();
 
-export async function getDbConnection(dbPath: string): Promise<Database> {
-  // Resolve absolute path to ensure cache hits
-  const absolutePath = path.resolve(dbPath);
+// Tail of each connection's write queue (see withWriteLock)
+const writeQueues = new WeakMap<Database, Promise<unknown>>();
 
-  if (dbConnections.has(absolutePath)) {
-    return dbConnections.get(absolutePath)!;
-  }
+// The connections whose write lock the current async call chain holds, with the
+// depth of its open transactions on each
+const heldLocks = new AsyncLocalStorage<Map<Database, number>>();
+
+function holdsWriteLock(db: Database): boolean {
+  return heldLocks.getStore()?.has(db) ?? false;
+}
 
+// Queues run() and exec() calls made outside withWriteLock behind the connection's
+// other writes, so a stray statement never lands in another caller's transaction
+function guardWrites(db: Database): void {
+  const run = db.run.bind(db);
+  const exec = db.exec.bind(db);
+  db.run = ((...args: Parameters<Database['run']>) =>
+    holdsWriteLock(db) ? run(...args) : withWriteLock(db, () => run(...args))) as Database['run'];
+  db.exec = ((sql: Parameters<Database['exec']>[0]) =>
+    holdsWriteLock(db) ? exec(sql) : withWriteLock(db, () => exec(sql))) as Database['exec'];
+}
+
+async function openConnection(absolutePath: string): Promise<Database> {
   const sqlite = sqlite3.verbose();
   const db = await open({
     filename: absolutePath,
@@ -24,12 +42,80 @@ export async function getDbConnection(dbPath: string): Promise<Database> {
   await db.exec('PRAGMA journal_mode = WAL;');
   // Enforce foreign key constraints
   await db.exec('PRAGMA foreign_keys = ON;');
+  // Wait for other processes' writes instead of failing with SQLITE_BUSY
+  await db.exec('PRAGMA busy_timeout = 5000;');
 
+  guardWrites(db);
   console.error(`Database connection established: ${absolutePath}`);
-  dbConnections.set(absolutePath, db);
   return db;
 }
 
+export function getDbConnection(dbPath: string): Promise<Database> {
+  // Resolve absolute path to ensure cache hits
+  const absolutePath = path.resolve(dbPath);
+
+  let connection = dbConnections.get(absolutePath);
+  if (!connection) {
+    connection = openConnection(absolutePath);
+    dbConnections.set(absolutePath, connection);
+    connection.catch(() => dbConnections.delete(absolutePath));
+  }
+  return connection;
+}
+
+/**
+ * Runs fn after every write queued before it on this connection has finished. The
+ * connection is shared by the whole process, so a statement run while another caller
+ * has a transaction open would become part of that transaction; db.run() and db.exec()
+ * outside the lock are queued the same way. Within fn the lock is held, so fn's own
+ * writes and nested withWriteLock() calls run directly.
+ */
+export function withWriteLock<T>(db: Database, fn: () => Promise<T>): Promise<T> {
+  if (holdsWriteLock(db)) return fn();
+  const held = new Map(heldLocks.getStore()).set(db, 0);
+  const run = (writeQueues.get(db) || Promise.resolve()).then(() => heldLocks.run(held, fn));
+  writeQueues.set(db, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Runs fn in a transaction, queued behind the connection's other writes so concurrent
+ * transactions never interleave. Rolls back and rethrows when fn fails. Nested in
+ * another transaction, fn runs in a savepoint, so its failure only undoes its own writes.
+ */
+export function withTransaction<T>(db: Database, fn: () => Promise<T>): Promise<T> {
+  return withWriteLock(db, async () => {
+    const held = heldLocks.getStore()!;
+    const depth = held.get(db)!;
+    const savepoint = `nested_${depth}`;
+    await db.run(depth === 0 ? 'BEGIN TRANSACTION;' : `SAVEPOINT ${savepoint};`);
+    held.set(db, depth + 1);
+    try {
+      const result = await fn();
+      await db.run(depth === 0 ? 'COMMIT;' : `RELEASE ${savepoint};`);
+      return result;
+    } catch (error) {
+      if (depth === 0) {
+        await db.run('ROLLBACK;');
+      } else {
+        await db.run(`ROLLBACK TO ${savepoint};`);
+        await db.run(`RELEASE ${savepoint};`);
+      }
+      throw error;
+    } finally {
+      held.set(db, depth);
+    }
+  });
+}
+
+// Adds columns introduced after a table was first released to databases that predate them
+async function addMissingColumns(db: Database, table: string, columns: [string, string][]): Promise<void> {
+  const existing = (await db.all(`PRAGMA table_info(${table})`)).map(column => column.name);
+  for (const [name, definition] of columns) {
+    if (!existing.includes(name)) await db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition};`);
+  }
+}
+
 export async function initializeSchema(dbPath: string): Promise<void> {
   const db = await getDbConnection(dbPath);
 
@@ -45,8 +131,40 @@ export async function initializeSchema(dbPath: string): Promise<void> {
       content_hash TEXT NOT NULL UNIQUE,
       tags TEXT DEFAULT '[]',
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      refreshed_at DATETIME,
+      simhash TEXT,
+      near_duplicate_of INTEGER REFERENCES sources(id) ON DELETE SET NULL
+    );
+  `;
+
+  // Other URLs whose content turned out to be a stored source (mirrors, AMP pages,
+  // syndicated copies; see duplicates.ts). Matched like the source's own URL.
+  const createSourceAliasesTable = `
+    CREATE TABLE IF NOT EXISTS source_aliases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      normalized_url TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_source_aliases_source_id ON source_aliases(source_id);
+  `;
+
+  // Earlier contents of sources whose content changed on refresh (see refresh.ts).
+  // replaced_at is when a version stopped being current.
+  const createSourceVersionsTable = `
+    CREATE TABLE IF NOT EXISTS source_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      title TEXT,
+      raw_content TEXT,
+      content_hash TEXT NOT NULL,
+      replaced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE
     );
+    CREATE INDEX IF NOT EXISTS idx_source_versions_source_id ON source_versions(source_id);
   `;
 
   const createChunksTable = `
@@ -55,11 +173,103 @@ export async function initializeSchema(dbPath: string): Promise<void> {
       source_id INTEGER NOT NULL,
       chunk_index INTEGER NOT NULL,
       content TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'content' CHECK(kind IN ('content', 'summary')),
+      page INTEGER,
+      section TEXT,
+      start_time REAL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE
     );
   `;
 
+  // One row per vector collection a target has used; exactly one is active per base name.
+  // Records which embedding model produced the vectors so providers are never mixed.
+  const createVectorCollectionsTable = `
+    CREATE TABLE IF NOT EXISTS vector_collections (
+      name TEXT PRIMARY KEY,
+      base_name TEXT NOT NULL,
+      embedding_provider TEXT NOT NULL,
+      embedding_model TEXT NOT NULL,
+      embedding_dimension INTEGER NOT NULL,
+      active INTEGER NOT NULL DEFAULT 0,
+      metadata_version INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `;
+
+  // Metadata version of vectors stored before vector_collections existed. Its single row
+  // moves to the collection's record once one is made.
+  const createLegacyCollectionTable = `
+    CREATE TABLE IF NOT EXISTS legacy_collection (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      metadata_version INTEGER NOT NULL
+    );
+  `;
+
+  // Normalized tags. sources.tags keeps a JSON copy of each source's tags for display.
+  const createTagsTables = `
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS source_tags (
+      source_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      PRIMARY KEY (source_id, tag_id),
+      FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_source_tags_tag_id ON source_tags(tag_id);
+  `;
+
+  // Saved chat conversations (see chat.ts). Sources are a JSON array of the context
+  // passages an assistant answer was given.
+  const createChatTables = `
+    CREATE TABLE IF NOT EXISTS chat_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT,
+      tags TEXT DEFAULT '[]',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id INTEGER NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+      content TEXT NOT NULL,
+      query TEXT,
+      sources TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_chat_messages_session_id ON chat_messages(session_id);
+  `;
+
+  // Full-text index over chunk text for keyword (BM25) retrieval. It is an external-content
+  // table reading from chunks, kept in sync by triggers.
+  const createChunksFtsTable = `
+    CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+      content,
+      content='chunks',
+      content_rowid='id',
+      tokenize='porter unicode61'
+    );
+  `;
+
+  const createChunksFtsTriggers = `
+    CREATE TRIGGER IF NOT EXISTS chunks_fts_insert AFTER INSERT ON chunks BEGIN
+      INSERT INTO chunks_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chunks_fts_delete AFTER DELETE ON chunks BEGIN
+      INSERT INTO chunks_fts(chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chunks_fts_update AFTER UPDATE OF content ON chunks BEGIN
+      INSERT INTO chunks_fts(chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      INSERT INTO chunks_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+  `;
+
   const createIndexes = `
     CREATE INDEX IF NOT EXISTS idx_chunks_source_id ON chunks(source_id);
     CREATE INDEX IF NOT EXISTS idx_sources_source_type ON sources(source_type);
@@ -68,26 +278,61 @@ export async function initializeSchema(dbPath: string): Promise<void> {
   `;
 
   await db.exec(createSourcesTable);
+  await addMissingColumns(db, 'sources', [
+    ['refreshed_at', 'DATETIME'],
+    ['simhash', 'TEXT'],
+    ['near_duplicate_of', 'INTEGER REFERENCES sources(id) ON DELETE SET NULL'],
+  ]);
+  await db.exec(createSourceVersionsTable);
+  await db.exec(createSourceAliasesTable);
   await db.exec(createChunksTable);
+  await addMissingColumns(db, 'chunks', [
+    ['kind', "TEXT NOT NULL DEFAULT 'content' CHECK(kind IN ('content', 'summary'))"],
+    ['page', 'INTEGER'],
+    ['section', 'TEXT'],
+    ['start_time', 'REAL'],
+  ]);
+  await db.exec(createVectorCollectionsTable);
+  await addMissingColumns(db, 'vector_collections', [
+    ['metadata_version', 'INTEGER NOT NULL DEFAULT 1'],
+  ]);
+  const hasLegacyCollection = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'legacy_collection'");
+  await db.exec(createLegacyCollectionTable);
+  if (!hasLegacyCollection) {
+    // Databases with chunks but no recorded collection: their vectors predate the filter metadata
+    const legacy = await db.get('SELECT EXISTS (SELECT 1 FROM chunks) AS chunks, EXISTS (SELECT 1 FROM vector_collections) AS collections');
+    if (legacy.chunks && !legacy.collections) await db.run('INSERT INTO legacy_collection (id, metadata_version) VALUES (1, 1)');
+  }
+
+  await db.exec(createChatTables);
+
+  const hasTags = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'tags'");
+  await db.exec(createTagsTables);
+  if (!hasTags) {
+    // Databases created before the tag tables existed: copy the JSON tags over once
+    await migrateJsonTags(db);
+  }
+
+  const hasFts = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'chunks_fts'");
+  await db.exec(createChunksFtsTable);
+  await db.exec(createChunksFtsTriggers);
+  if (!hasFts) {
+    // Databases created before the index existed: index their chunks once
+    await db.exec("INSERT INTO chunks_fts(chunks_fts) VALUES ('rebuild');");
+  }
   await db.exec(createIndexes);
   console.error(`Schema initialized for ${dbPath}`);
 }
 
 export async function getAllUniqueTags(dbPath: string): Promise<string[]> {
     const db = await getDbConnection(dbPath);
-    const rows = await db.all('SELECT tags FROM sources');
-    const allTags = new Set<string>();
-    
-    rows.forEach(row => {
-      try {
-        const tags = JSON.parse(row.tags);
-        if (Array.isArray(tags)) {
-          tags.forEach(t => allTags.add(t));
-        }
-      } catch (e) {
-        // Ignore parsing errors
-      }
-    });
-    
-    return Array.from(allTags);
+    const rows = await db.all('SELECT name FROM tags WHERE EXISTS (SELECT 1 FROM source_tags WHERE source_tags.tag_id = tags.id) ORDER BY name');
+    return rows.map(row => row.name);
+}
+
+export async function getSourceStats(dbPath: string): Promise<{ sources: number, chunks: number }> {
+    const db = await getDbConnection(dbPath);
+    const sources = await db.get('SELECT COUNT(*) AS count FROM sources');
+    const chunks = await db.get('SELECT COUNT(*) AS count FROM chunks');
+    return { sources: sources.count, chunks: chunks.count };
 }
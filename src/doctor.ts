@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Database } from 'sqlite';
+import { openTargetDb } from './sources';
+import { archiveSource, findArchivedFiles, getSourceTypeDir } from './archive';
+import { embedChunks } from './embedder';
+import { getVectorStore, getChunkVectorId } from './vector-store';
+import { SOURCE_TYPES } from './extractor';
+import { getActiveCollection, getCollectionModel, assertSameModel, recordCollection, getMetadataVersion, backfillVectorMetadata, VECTOR_METADATA_VERSION, CollectionRecord } from './collections';
+import { TargetConfig } from './targets';
+import { withIngestLock } from './ingest';
+
+export interface RepairOptions {
+    reembed?: boolean;           // Embed chunks that have no vector
+    deleteOrphanVectors?: boolean;
+    regenerateArchives?: boolean; // Rewrite missing archive files from raw_content
+    backfillMetadata?: boolean;  // Add the source filter fields to vectors that predate them
+}
+
+export interface RepairSummary {
+    reembeddedChunks: number;
+    deletedVectors: number;
+    regeneratedArchives: string[];
+    backfilledVectors: number;
+    errors: string[];
+}
+
+export interface DoctorReport {
+    target: string;
+    sources: number;
+    chunks: number;
+    vectors?: number;
+    chunksMissingVectors: { chunk_id: number, source_id: number }[];
+    orphanVectors: string[];
+    outdatedVectorMetadata: boolean;    // Vectors lack the source filter fields
+    sourcesWithoutChunks: number[];
+    sourcesMissingArchive: number[];
+    orphanArchives: string[];
+    vectorStoreError?: string;
+    healthy: boolean;
+    repairs?: RepairSummary;
+}
+
+export interface DoctorResult {
+    success: boolean;
+    healthy?: boolean;
+    reports?: DoctorReport[];
+    error?: string;
+}
+
+/**
+ * Lists archive files ({Type}/{YYYY-MM}/{id}-*) whose source ID no longer exists in SQLite.
+ */
+function findOrphanArchives(target: TargetConfig, sourceIds: Set<number>): string[] {
+    const orphans: string[] = [];
+    for (const sourceType of SOURCE_TYPES) {
+        const typeDir = path.join(target.repoPath, getSourceTypeDir(sourceType));
+        if (!fs.existsSync(typeDir)) continue;
+        for (const dateDir of fs.readdirSync(typeDir, { withFileTypes: true })) {
+            if (!dateDir.isDirectory() || !/^\d{4}-\d{2}$/.test(dateDir.name)) continue;
+            for (const file of fs.readdirSync(path.join(typeDir, dateDir.name))) {
+                const match = file.match(/^(\d+)-/);
+                if (match && !sourceIds.has(parseInt(match[1], 10))) {
+                    orphans.push(path.join(typeDir, dateDir.name, file));
+                }
+            }
+        }
+    }
+    return orphans;
+}
+
+function isHealthy(report: DoctorReport): boolean {
+    return !report.vectorStoreError
+        && report.chunksMissingVectors.length === 0
+        && report.orphanVectors.length === 0
+        && !report.outdatedVectorMetadata
+        && report.sourcesWithoutChunks.length === 0
+        && report.sourcesMissingArchive.length === 0
+        && report.orphanArchives.length === 0;
+}
+
+async function reembedChunks(db: Database, target: TargetConfig, collection: CollectionRecord | undefined, missing: { chunk_id: number, source_id: number }[]): Promise<number> {
+    const collectionName = collection ? collection.name : target.collectionName;
+    const bySource = new Map<number, number[]>();
+    missing.forEach(({ chunk_id, source_id }) => bySource.set(source_id, [...(bySource.get(source_id) || []), chunk_id]));
+
+    let reembedded = 0;
+    for (const [sourceId, chunkIds] of bySource) {
+        const source = await db.get('SELECT url, title, tags, source_type, created_at FROM sources WHERE id = ?', sourceId);
+        const rows = await db.all(
+            `SELECT id, chunk_index, content, kind, page, section, start_time FROM chunks WHERE id IN (${chunkIds.map(() => '?').join(',')}) ORDER BY chunk_index`,
+            ...chunkIds
+        );
+        // Embed with the collection's recorded model so the repair never mixes providers
+        const embedded = await embedChunks(
+            rows.map(row => ({ content: row.content, chunk_index: row.chunk_index })),
+            collection ? getCollectionModel(collection) : undefined
+        );
+        assertSameModel(collection, embedded.model!);
+        const tags = JSON.parse(source.tags || '[]');
+        await getVectorStore(target, collectionName).addChunks(
+            rows.map(row => ({ id: row.id, source_id: sourceId, content: row.content, url: source.url, title: source.title, tags,
+                source_type: source.source_type, created_at: source.created_at, kind: row.kind, page: row.page, section: row.section, start_time: row.start_time })),
+            embedded.chunks.map(chunk => chunk.embedding)
+        );
+        if (!collection) {
+            await recordCollection(target, collectionName, embedded.model!);
+            collection = await getActiveCollection(target);
+        }
+        reembedded += rows.length;
+    }
+    return reembedded;
+}
+
+/**
+ * Compares a target's SQLite chunks with its vector collection and archive tree,
+ * and optionally repairs what it finds.
+ */
+export async function checkTarget(target: TargetConfig, repair: RepairOptions = {}): Promise<DoctorReport> {
+    console.error(`\n--- Checking target: ${target.name} ---`);
+    const db = await openTargetDb(target);
+
+    const collection = await getActiveCollection(target);
+    const collectionName = collection ? collection.name : target.collectionName;
+    const store = getVectorStore(target, collectionName);
+    const sources = await db.all('SELECT id, url, title, source_type, raw_content FROM sources');
+    const chunks = await db.all('SELECT id, source_id FROM chunks');
+
+    const expectedIds = new Map<string, { chunk_id: number, source_id: number }>();
+    chunks.forEach(chunk => expectedIds.set(getChunkVectorId(chunk.source_id, chunk.id), { chunk_id: chunk.id, source_id: chunk.source_id }));
+
+    const report: DoctorReport = {
+        target: target.name,
+        sources: sources.length,
+        chunks: chunks.length,
+        chunksMissingVectors: [],
+        orphanVectors: [],
+        outdatedVectorMetadata: false,
+        sourcesWithoutChunks: [],
+        sourcesMissingArchive: [],
+        orphanArchives: [],
+        healthy: false,
+    };
+
+    // 1. SQLite chunks vs. vector IDs
+    try {
+        const vectorIds = await store.listIds();
+        const present = new Set(vectorIds);
+        report.vectors = vectorIds.length;
+        report.orphanVectors = vectorIds.filter(id => !expectedIds.has(id));
+        report.chunksMissingVectors = Array.from(expectedIds.entries())
+            .filter(([id]) => !present.has(id))
+            .map(([, chunk]) => chunk);
+        report.outdatedVectorMetadata = vectorIds.length > 0 && await getMetadataVersion(target) < VECTOR_METADATA_VERSION;
+    } catch (error: any) {
+        console.error(`Could not read vector collection '${collectionName}':`, error.message);
+        report.vectorStoreError = error.message;
+    }
+
+    // 2. Sources vs. chunks and archive files
+    const sourcesWithChunks = new Set(chunks.map(chunk => chunk.source_id));
+    report.sourcesWithoutChunks = sources.filter(source => !sourcesWithChunks.has(source.id)).map(source => source.id);
+    report.sourcesMissingArchive = sources
+        .filter(source => findArchivedFiles(target.repoPath, source.source_type, source.id).length === 0)
+        .map(source => source.id);
+    report.orphanArchives = findOrphanArchives(target, new Set(sources.map(source => source.id)));
+
+    console.error(`Sources: ${report.sources}, chunks: ${report.chunks}, vectors: ${report.vectors ?? 'unavailable'}`);
+
+    if (!repair.reembed && !repair.deleteOrphanVectors && !repair.regenerateArchives && !repair.backfillMetadata) {
+        report.healthy = isHealthy(report);
+        return report;
+    }
+
+    // 3. Repairs
+    const repairs: RepairSummary = { reembeddedChunks: 0, deletedVectors: 0, regeneratedArchives: [], backfilledVectors: 0, errors: [] };
+
+    if (repair.reembed && report.chunksMissingVectors.length > 0) {
+        try {
+            repairs.reembeddedChunks = await reembedChunks(db, target, collection, report.chunksMissingVectors);
+            report.chunksMissingVectors = [];
+        } catch (error: any) {
+            repairs.errors.push(`Re-embedding failed: ${error.message}`);
+        }
+    }
+
+    if (repair.deleteOrphanVectors && report.orphanVectors.length > 0) {
+        try {
+            await store.deleteVectors(report.orphanVectors);
+            repairs.deletedVectors = report.orphanVectors.length;
+            report.orphanVectors = [];
+        } catch (error: any) {
+            repairs.errors.push(`Deleting orphan vectors failed: ${error.message}`);
+        }
+    }
+
+    if (repair.backfillMetadata && report.outdatedVectorMetadata) {
+        try {
+            repairs.backfilledVectors = await backfillVectorMetadata(target);
+            report.outdatedVectorMetadata = false;
+        } catch (error: any) {
+            repairs.errors.push(`Backfilling vector metadata failed: ${error.message}`);
+        }
+    }
+
+    if (repair.regenerateArchives && report.sourcesMissingArchive.length > 0) {
+        const stillMissing: number[] = [];
+        for (const sourceId of report.sourcesMissingArchive) {
+            const source = sources.find(row => row.id === sourceId);
+            // Local PDFs and text files are re-copied when the original still exists;
+            // everything else is rewritten from the stored raw_content.
+            const hasLocalOriginal = ['pdf', 'text'].includes(source.source_type) && fs.existsSync(source.url);
+            try {
+                const filePath = archiveSource(target.repoPath, source.id, {
+                    title: source.title || 'untitled',
+                    sourceType: source.source_type,
+                    fileExtension: hasLocalOriginal ? path.extname(source.url) : '.txt',
+                    source: source.url,
+                    originalContent: source.raw_content || '',
+                });
+                repairs.regeneratedArchives.push(filePath);
+            } catch (error: any) {
+                stillMissing.push(sourceId);
+                repairs.errors.push(`Archiving source ${sourceId} failed: ${error.message}`);
+            }
+        }
+        report.sourcesMissingArchive = stillMissing;
+    }
+
+    report.repairs = repairs;
+    report.healthy = isHealthy(report) && repairs.errors.length === 0;
+    return report;
+}
+
+/**
+ * Checks each target. Repairs run under the ingestion lock: chunks and vector IDs are
+ * read at different moments, so vectors an ingestion adds in between would look like
+ * orphans and be deleted. A plain check takes no lock.
+ */
+export async function runDoctor(targets: TargetConfig[], repair: RepairOptions = {}): Promise<DoctorResult> {
+    try {
+        const checkAll = async () => {
+            const reports: DoctorReport[] = [];
+            for (const target of targets) {
+                if (!fs.existsSync(target.dbPath)) {
+                    console.error(`Database for target ${target.name} not found at ${target.dbPath}. Skipping.`);
+                    continue;
+                }
+                reports.push(await checkTarget(target, repair));
+            }
+            return reports;
+        };
+        const repairing = repair.reembed || repair.deleteOrphanVectors || repair.regenerateArchives || repair.backfillMetadata;
+        const reports = repairing ? await withIngestLock(checkAll) : await checkAll();
+        return { success: true, healthy: reports.every(report => report.healthy), reports };
+    } catch (error: any) {
+        console.error("Consistency check failed:", error.message);
+        return { success: false, error: `Consistency check failed: ${error.message}` };
+    }
+}
@@ -0,0 +1,104 @@
+import * as crypto from 'crypto';
+import { Database } from 'sqlite';
+import { DuplicateSettings } from './targets';
+import { withTransaction } from './database';
+
+export type NearDuplicatePolicy = 'off' | 'flag' | 'merge';
+
+export const NEAR_DUPLICATE_POLICIES: NearDuplicatePolicy[] = ['off', 'flag', 'merge'];
+
+export interface DuplicateMatch {
+    kind: 'exact' | 'near';
+    sourceId: number;
+    url: string;
+    distance?: number;      // Differing simhash bits, for near duplicates
+}
+
+// Words per shingle, and the fewest words a text needs to get a fingerprint:
+// below that a few shared phrases would make unrelated snippets look alike
+const SHINGLE_SIZE = 3;
+const MIN_WORDS = 50;
+
+/**
+ * 64-bit simhash of a text's word shingles, as 16 hex characters. Texts sharing most
+ * of their shingles (syndicated copies, pages differing by boilerplate) get hashes a
+ * few bits apart. Returns '' for texts too short to fingerprint reliably.
+ */
+export function computeSimhash(content: string): string {
+    const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (words.length < MIN_WORDS) return '';
+
+    const weights = new Array<number>(64).fill(0);
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        const digest = crypto.createHash('md5').update(words.slice(i, i + SHINGLE_SIZE).join(' ')).digest();
+        for (let bit = 0; bit < 64; bit++) {
+            weights[bit] += (digest[bit >> 3] >> (bit & 7)) & 1 ? 1 : -1;
+        }
+    }
+
+    const hash = Buffer.alloc(8);
+    weights.forEach((weight, bit) => {
+        if (weight > 0) hash[bit >> 3] |= 1 << (bit & 7);
+    });
+    return hash.toString('hex');
+}
+
+export function hammingDistance(a: string, b: string): number {
+    const left = Buffer.from(a, 'hex');
+    const right = Buffer.from(b, 'hex');
+    let distance = 0;
+    for (let i = 0; i < left.length; i++) {
+        let diff = left[i] ^ right[i];
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+// Fingerprints sources stored before simhashes were recorded
+async function backfillSimhashes(db: Database): Promise<void> {
+    const rows = await db.all('SELECT id, raw_content FROM sources WHERE simhash IS NULL');
+    if (rows.length === 0) return;
+    await withTransaction(db, async () => {
+        for (const row of rows) {
+            await db.run('UPDATE sources SET simhash = ? WHERE id = ?', computeSimhash(row.raw_content || ''), row.id);
+        }
+    });
+}
+
+/**
+ * Finds a stored source with the same content hash or, unless the policy is 'off',
+ * the closest source whose simhash is within settings.maxDistance bits.
+ */
+export async function findContentDuplicate(db: Database, contentHash: string, simhash: string, settings: DuplicateSettings): Promise<DuplicateMatch | undefined> {
+    const exact = await db.get('SELECT id, url FROM sources WHERE content_hash = ?', contentHash);
+    if (exact) return { kind: 'exact', sourceId: exact.id, url: exact.url };
+    if (settings.nearDuplicates === 'off' || !simhash) return undefined;
+
+    await backfillSimhashes(db);
+    let best: DuplicateMatch | undefined;
+    for (const row of await db.all("SELECT id, url, simhash FROM sources WHERE simhash != ''")) {
+        const distance = hammingDistance(simhash, row.simhash);
+        if (distance <= settings.maxDistance && (!best || distance < best.distance!)) {
+            best = { kind: 'near', sourceId: row.id, url: row.url, distance };
+        }
+    }
+    return best;
+}
+
+/**
+ * Returns the ID of the source stored under a normalized URL, directly or as an alias.
+ */
+export async function findSourceIdByUrl(db: Database, normalizedUrl: string): Promise<number | undefined> {
+    const row = await db.get(
+        'SELECT id FROM sources WHERE normalized_url = ? UNION ALL SELECT source_id FROM source_aliases WHERE normalized_url = ? LIMIT 1',
+        normalizedUrl, normalizedUrl
+    );
+    return row ? row.id : undefined;
+}
+
+export async function addSourceAlias(db: Database, sourceId: number, url: string, normalizedUrl: string): Promise<void> {
+    await db.run('INSERT OR IGNORE INTO source_aliases (source_id, url, normalized_url) VALUES (?, ?, ?)', sourceId, url, normalizedUrl);
+}
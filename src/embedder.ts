@@ -1,52 +1,45 @@
 
 import { LRUCache } from 'lru-cache';
-import { getEmbeddings } from './llm-provider';
+import { getEmbeddings, embeddingModelKey, EmbeddingInfo, EmbeddingModel } from './llm-provider';
 
 const cache = new LRUCache<string, number[]>({ max: 1000 });
 
-export interface Chunk {
+// 'summary' marks a source's generated summary, stored as an extra chunk (chunk_index -1)
+export type ChunkKind = 'content' | 'summary';
+
+// Where a chunk starts in its source, for citations. Which fields are set depends on the source type.
+export interface ChunkLocation {
+    page?: number;          // PDF page (1-based)
+    section?: string;       // Heading path, e.g. "Setup > Installation" (Markdown files, articles)
+    start_time?: number;    // Transcript offset in seconds (videos)
+}
+
+export interface Chunk extends ChunkLocation {
     content: string;
     chunk_index: number;
+    kind?: ChunkKind;       // Default 'content'
 }
 
 export interface EmbeddedChunk extends Chunk {
     embedding: number[];
 }
 
-export function chunkContent(content: string): Chunk[] {
-    const chunkSize = 800;
-    const chunkOverlap = 200;
-    const minChunkSize = 100;
-
-    const sentences = content.split(/(?<=[.!?])\s+/);
-    const chunks: Chunk[] = [];
-    let currentChunk = "";
-    let chunkIndex = 0;
-
-    for (const sentence of sentences) {
-        if (currentChunk.length + sentence.length <= chunkSize) {
-            currentChunk += (currentChunk ? " " : "") + sentence;
-        } else {
-            chunks.push({ content: currentChunk, chunk_index: chunkIndex++ });
-            const overlapIndex = Math.max(0, currentChunk.length - chunkOverlap);
-            currentChunk = currentChunk.substring(overlapIndex) + " " + sentence;
-        }
-    }
-
-    if (currentChunk) {
-        if (currentChunk.length < minChunkSize && chunks.length > 0) {
-            chunks[chunks.length - 1].content += " " + currentChunk;
-        } else {
-            chunks.push({ content: currentChunk, chunk_index: chunkIndex++ });
-        }
-    }
-
-    return chunks;
+export interface EmbeddedChunks {
+    chunks: EmbeddedChunk[];
+    model?: EmbeddingInfo; // Undefined only if there was nothing to embed
 }
 
-export async function embedChunks(chunks: Chunk[]): Promise<EmbeddedChunk[]> {
+/**
+ * Embeds chunks with the given model, or with the provider hierarchy if none is given.
+ * Whichever model answers the first batch is pinned for the remaining batches so a
+ * single source never mixes vectors from different models.
+ */
+export async function embedChunks(chunks: Chunk[], model?: EmbeddingModel): Promise<EmbeddedChunks> {
     const embeddedChunks: EmbeddedChunk[] = [];
     const batchSize = 10;
+    let pinned: EmbeddingInfo | undefined;
+    // Cache keys include the model: the same text has a different vector per model
+    const cacheKey = (content: string) => `${embeddingModelKey(model!)}:${content}`;
 
     for (let i = 0; i < chunks.length; i += batchSize) {
         const batchChunks = chunks.slice(i, i + batchSize);
@@ -56,7 +49,7 @@ export async function embedChunks(chunks: Chunk[]): Promise<EmbeddedChunk[]> {
         const cachedResults = new Map<number, EmbeddedChunk>();
 
         batchChunks.forEach((chunk, index) => {
-            const cachedEmbedding = cache.get(chunk.content);
+            const cachedEmbedding = model ? cache.get(cacheKey(chunk.content)) : undefined;
             if (cachedEmbedding) {
                 cachedResults.set(index, { ...chunk, embedding: cachedEmbedding });
             } else {
@@ -68,12 +61,14 @@ export async function embedChunks(chunks: Chunk[]): Promise<EmbeddedChunk[]> {
         if (contentToEmbed.length > 0) {
             try {
                 // Use the agnostic provider
-                const embeddings = await getEmbeddings(contentToEmbed);
+                const result = await getEmbeddings(contentToEmbed, model);
+                model = { provider: result.provider, model: result.model };
+                pinned = pinned || { ...model, dimension: result.dimension };
                 
-                embeddings.forEach((embedding, idx) => {
+                result.embeddings.forEach((embedding, idx) => {
                     const originalIndex = originalIndices[idx];
                     const originalChunk = batchChunks[originalIndex];
-                    cache.set(originalChunk.content, embedding);
+                    cache.set(cacheKey(originalChunk.content), embedding);
                     cachedResults.set(originalIndex, { ...originalChunk, embedding });
                 });
             } catch (error) {
@@ -98,5 +93,9 @@ export async function embedChunks(chunks: Chunk[]): Promise<EmbeddedChunk[]> {
         }
     }
 
-    return embeddedChunks;
+    if (!pinned && model && embeddedChunks.length > 0) {
+        // Everything came from the cache
+        pinned = { ...model, dimension: embeddedChunks[0].embedding.length };
+    }
+    return { chunks: embeddedChunks, model: pinned };
 }
@@ -18,10 +18,21 @@ export interface ExtractedContent {
     source: string; // Original URL or file path
     normalizedSource: string; // Normalized URL or absolute file path
     contentHash: string;
+    segments?: ContentSegment[]; // Structure kept for chunking; content stays the hashed full text
+}
+
+// A part of the content with its location: a PDF page, a section under a heading, a transcript line
+export interface ContentSegment {
+    text: string;
+    page?: number;          // 1-based PDF page
+    section?: string;       // Heading path, e.g. "Setup > Installation"
+    start_time?: number;    // Seconds from the start of the video
 }
 
 export type SourceType = 'article' | 'video' | 'pdf' | 'text' | 'tweet' | 'reel' | 'other';
 
+export const SOURCE_TYPES: SourceType[] = ['article', 'video', 'pdf', 'text', 'tweet', 'reel', 'other'];
+
 /**
  * Detects the source type based on the input string (URL or file path).
  */
@@ -87,6 +98,17 @@ export function normalizeSource(source: string, sourceType: SourceType): string
     }
 }
 
+/**
+ * Domain a source comes from: the URL's host name without "www.", or '' for local files.
+ */
+export function sourceDomain(source: string): string {
+    try {
+        return new URL(source).hostname.toLowerCase().replace(/^www\./, '');
+    } catch (e) {
+        return '';
+    }
+}
+
 /**
  * Generates a SHA256 hash of the content.
  */
@@ -94,6 +116,80 @@ export function hashContent(content: string): string {
     return crypto.createHash('sha256').update(content).digest('hex');
 }
 
+// Heading path from a stack of open headings, e.g. "Setup > Installation"
+function sectionPath(headings: { level: number, title: string }[]): string | undefined {
+    return headings.length > 0 ? headings.map(heading => heading.title).join(' > ') : undefined;
+}
+
+function openHeading(headings: { level: number, title: string }[], level: number, title: string) {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+    headings.push({ level, title });
+}
+
+/**
+ * Splits Markdown into one segment per heading (the heading line included), ignoring
+ * '#' lines inside fenced code blocks.
+ */
+function markdownSections(markdown: string): ContentSegment[] {
+    const segments: ContentSegment[] = [];
+    const headings: { level: number, title: string }[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+    const flush = () => {
+        const text = lines.join('\n').trim();
+        if (text) segments.push({ text, section: sectionPath(headings) });
+        lines = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            flush();
+            openHeading(headings, heading[1].length, heading[2]);
+        }
+        lines.push(line);
+    }
+    flush();
+    return segments;
+}
+
+/**
+ * Splits the article HTML Readability kept into one segment per h1-h6 heading.
+ */
+function htmlSections(html: string): ContentSegment[] {
+    const document = new JSDOM(html).window.document;
+    const segments: ContentSegment[] = [];
+    const headings: { level: number, title: string }[] = [];
+    let text = '';
+    const flush = () => {
+        const trimmed = text.replace(/\s+/g, ' ').trim();
+        if (trimmed) segments.push({ text: trimmed, section: sectionPath(headings) });
+        text = '';
+    };
+    const walk = (node: Node) => {
+        node.childNodes.forEach(child => {
+            const heading = child.nodeName.match(/^H([1-6])$/);
+            if (heading) {
+                flush();
+                const title = (child.textContent || '').replace(/\s+/g, ' ').trim();
+                if (title) openHeading(headings, Number(heading[1]), title);
+                text += title + '. ';
+            } else if (child.nodeType === child.TEXT_NODE) {
+                text += child.textContent;
+            } else {
+                walk(child);
+                text += ' ';
+            }
+        });
+    };
+
+    walk(document.body);
+    flush();
+    // Without headings the sentence chunker does the same job
+    return segments.some(segment => segment.section) ? segments : [];
+}
+
 /**
  * Extracts content from an article URL using JSDOM and Readability.
  */
@@ -130,10 +226,26 @@ async function extractArticle(url: string): Promise<ExtractedContent> {
         fileExtension: '.html',
         source: url,
         normalizedSource: normalizeSource(url, 'article'),
-        contentHash: hashContent(article.textContent)
+        contentHash: hashContent(article.textContent),
+        segments: htmlSections(article.content)
     };
 }
 
+/**
+ * Text of one PDF page, as pdf-parse's default renderer builds it (a line break
+ * wherever the vertical position changes), so the joined text is unchanged.
+ */
+async function renderPdfPage(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+        text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+    }
+    return text;
+}
+
 /**
  * Extracts text from a PDF file (local or remote).
  */
@@ -153,7 +265,15 @@ async function extractPdf(source: string): Promise<ExtractedContent> {
         originalFilename = path.basename(source);
     }
 
-    const data = await pdfParse(pdfBuffer);
+    // Keep each page's text: pdf-parse only returns them joined
+    const pages: string[] = [];
+    const data = await pdfParse(pdfBuffer, {
+        pagerender: async (pageData: any) => {
+            const text = await renderPdfPage(pageData);
+            pages.push(text);
+            return text;
+        }
+    });
     if (!data || !data.text || data.text.trim().length === 0) {
         throw new Error('Could not extract text from PDF.');
     }
@@ -166,7 +286,8 @@ async function extractPdf(source: string): Promise<ExtractedContent> {
         fileExtension: '.pdf',
         source: source,
         normalizedSource: normalizeSource(source, 'pdf'),
-        contentHash: hashContent(data.text)
+        contentHash: hashContent(data.text),
+        segments: pages.map((text, i) => ({ text, page: i + 1 })).filter(page => page.text.trim().length > 0)
     };
 }
 
@@ -205,7 +326,12 @@ async function extractYouTubeVideo(url: string): Promise<ExtractedContent> {
         fileExtension: '.json', // Storing raw transcript JSON as original content
         source: url,
         normalizedSource: normalizeSource(url, 'video'),
-        contentHash: hashContent(fullTranscript)
+        contentHash: hashContent(fullTranscript),
+        // Line offsets are in seconds ('start', or 'offset' in some responses)
+        segments: transcriptData.transcript.map((item: any) => {
+            const start = item.start ?? item.offset;
+            return { text: item.text, start_time: typeof start === 'number' ? start : undefined };
+        })
     };
 }
 
@@ -293,6 +419,7 @@ async function extractTextFile(filePath: string): Promise<ExtractedContent> {
     if (content.trim().length === 0) {
         throw new Error('Text file is empty or contains no meaningful content.');
     }
+    const isMarkdown = path.extname(filePath).toLowerCase() === '.md';
     return {
         title: path.basename(filePath),
         content: content,
@@ -301,7 +428,8 @@ async function extractTextFile(filePath: string): Promise<ExtractedContent> {
         fileExtension: path.extname(filePath),
         source: filePath,
         normalizedSource: normalizeSource(filePath, 'text'),
-        contentHash: hashContent(content)
+        contentHash: hashContent(content),
+        segments: isMarkdown ? markdownSections(content) : undefined
     };
 }
 
@@ -0,0 +1,66 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import axios from 'axios';
+import { config } from './config';
+import { LLMProvider } from './llm-provider';
+
+// Created on first use, once GOOGLE_API_KEY is known to be set
+let genAI: GoogleGenerativeAI | null = null;
+
+function getClient(): GoogleGenerativeAI {
+    if (!config.googleApiKey) throw new Error("GOOGLE_API_KEY is not set.");
+    if (!genAI) genAI = new GoogleGenerativeAI(config.googleApiKey);
+    return genAI;
+}
+
+function getModel(systemInstruction?: string) {
+    return getClient().getGenerativeModel({
+        model: config.generativeModel || "gemini-2.5-flash-lite",
+        systemInstruction: systemInstruction
+    });
+}
+
+/**
+ * Google Gemini: generation through the @google/generative-ai SDK, embeddings through
+ * the embedContent REST endpoint (one call per text).
+ */
+export function createGeminiProvider(): LLMProvider {
+    return {
+        name: 'gemini',
+        defaultEmbeddingModel: 'gemini-embedding-001',
+        contextTokens: 16000,
+
+        canGenerate: () => !!config.googleApiKey,
+        canEmbed: () => !!config.googleApiKey,
+
+        async generate(prompt: string, systemInstruction?: string) {
+            const result = await getModel(systemInstruction).generateContent(prompt);
+            return result.response.text();
+        },
+
+        async *stream(prompt: string, systemInstruction?: string) {
+            const result = await getModel(systemInstruction).generateContentStream(prompt);
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                if (text) yield text;
+            }
+        },
+
+        async embed(texts: string[], model: string) {
+            if (!config.googleApiKey) throw new Error("GOOGLE_API_KEY is not set.");
+            const embeddings: number[][] = [];
+            for (const text of texts) {
+                const response = await axios.post(
+                    `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent?key=${config.googleApiKey}`,
+                    { content: { role: "user", parts: [{ text }] } },
+                    { headers: { 'Content-Type': 'application/json' } }
+                );
+                if (response.data.embedding?.values) {
+                    embeddings.push(response.data.embedding.values);
+                } else {
+                    throw new Error("Unexpected Gemini embedding response structure");
+                }
+            }
+            return embeddings;
+        },
+    };
+}
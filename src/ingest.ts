@@ -1,49 +1,62 @@
 
-import { getDbConnection, initializeSchema, getAllUniqueTags } from './database';
-import { ingestFromSource, ExtractedContent } from './extractor';
+import { getDbConnection, initializeSchema, getAllUniqueTags, withTransaction } from './database';
+import { ingestFromSource, detectSourceType, ExtractedContent } from './extractor';
 import { classifyContent } from './classifier';
-import { chunkContent, embedChunks, EmbeddedChunk } from './embedder';
-import { addChunksToVectorStore } from './vector-store';
+import { summarizeContent } from './summarizer';
+import { embedChunks, Chunk, EmbeddedChunks } from './embedder';
+import { chunkExtracted, chunkingOptionsFor } from './chunker';
+import { getVectorStore } from './vector-store';
+import { getActiveCollection, getCollectionModel, assertSameModel, recordCollection, CollectionRecord } from './collections';
+import { embeddingModelKey } from './llm-provider';
+import { archiveSource } from './archive';
+import { findTarget, getDefaultTargetName, TargetConfig } from './targets';
+import { normalizeTags, setSourceTags, pruneUnusedTags } from './tags';
+import { computeSimhash, findContentDuplicate, findSourceIdByUrl, addSourceAlias, DuplicateMatch } from './duplicates';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Database } from 'sqlite';
+
+export interface DuplicateReport extends DuplicateMatch {
+    target: string;
+    action: 'alias' | 'flag';   // Recorded as an alias of the stored source, or stored and marked
+}
 
 export interface IngestResult {
     success: boolean;
     source: string;
     targets?: string[];
     tags?: string[];
-    chunks?: number;
+    chunks?: number;   // Content chunks with the first target's chunking options
+    skipped?: boolean; // Already present in every target it succeeded on
+    duplicates?: DuplicateReport[];
+    error?: string;
+}
+
+export interface BulkIngestOptions {
+    concurrency?: number; // Sources extracted and embedded at once (default 3)
+}
+
+export interface BulkIngestResult {
+    success: boolean;     // True when no source failed
+    total: number;
+    succeeded: number;
+    skipped: number;
+    failed: number;
+    results: IngestResult[];
     error?: string;
 }
 
+export interface SourceListOptions {
+    fromFile?: string;    // File with one source per line
+    stdin?: boolean;      // Read one source per line from stdin
+    recursive?: boolean;  // Descend into subdirectories of a directory source
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
 // Global lock file for the ingestion process itself
 const LOCK_FILE_PATH = path.join(__dirname, '../ingest.lock');
 
-// --- Configuration for Targets ---
-interface TargetConfig {
-    repoPath: string;
-    dbPath: string;
-    collectionName: string;
-}
-
-const TARGETS: Record<string, TargetConfig> = {
-    'pablo': {
-        repoPath: path.resolve(__dirname, '../../personal-rag-kb-storage'),
-        dbPath: path.resolve(__dirname, '../../personal-rag-kb-storage/knowledge_base.db'),
-        collectionName: 'pablo_kb'
-    },
-    'paloma': {
-        repoPath: path.resolve(__dirname, '../../paloma-rag-kb-storage'),
-        dbPath: path.resolve(__dirname, '../../paloma-rag-kb-storage/knowledge_base.db'),
-        collectionName: 'paloma_kb'
-    },
-    'reels': {
-        repoPath: path.resolve(__dirname, '../../instagram-reels-storage'),
-        dbPath: path.resolve(__dirname, '../../instagram-reels-storage/knowledge_base.db'),
-        collectionName: 'reels_kb'
-    }
-};
-
 function isLockStale(): boolean {
     if (!fs.existsSync(LOCK_FILE_PATH)) return false;
     const stats = fs.statSync(LOCK_FILE_PATH);
@@ -68,22 +81,216 @@ function removeLock(): void {
     if (fs.existsSync(LOCK_FILE_PATH)) fs.unlinkSync(LOCK_FILE_PATH);
 }
 
-function sanitizeFilename(name: string): string {
-    return name.replace(/[^a-z0-9_\-\.]/gi, '_').substring(0, 100);
+/**
+ * Runs fn while holding the ingestion lock, for maintenance tasks that must not
+ * interleave with an ingestion (e.g. reindexing a collection). The lock file is
+ * touched every minute so long runs are not mistaken for stale locks.
+ */
+export async function withIngestLock<T>(fn: () => Promise<T>): Promise<T> {
+    createLock();
+    const heartbeat = setInterval(() => {
+        const now = new Date();
+        try { fs.utimesSync(LOCK_FILE_PATH, now, now); } catch (e) { /* removed by hand */ }
+    }, 60 * 1000);
+    heartbeat.unref();
+    try {
+        return await fn();
+    } finally {
+        clearInterval(heartbeat);
+        removeLock();
+    }
 }
 
-export async function ingestSource(source: string, tags: string[] = [], targetKeys: string[] = ['pablo']): Promise<IngestResult> {
-    if (!source) {
-        const errorMsg = "A source URL or file path is required.";
-        console.error(errorMsg);
-        return { success: false, source, error: errorMsg };
+/**
+ * Runs the functions passed to it one at a time, in call order. Bulk ingestion
+ * extracts and embeds items concurrently but funnels every SQLite/vector store
+ * write through one queue.
+ */
+export type WriteQueue = <T>(fn: () => Promise<T>) => Promise<T>;
+
+export function createWriteQueue(): WriteQueue {
+    let tail: Promise<unknown> = Promise.resolve();
+    return <T>(fn: () => Promise<T>) => {
+        const run = tail.then(fn);
+        tail = run.catch(() => undefined);
+        return run;
+    };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    });
+    await Promise.all(workers);
+    return results;
+}
+
+export function resolveTargets(targetKeys: string[]): TargetConfig[] {
+    if (targetKeys.length === 0) targetKeys = [getDefaultTargetName()];
+    const targets: TargetConfig[] = [];
+    for (const targetKey of targetKeys) {
+        const target = findTarget(targetKey);
+        if (!target) {
+            console.error(`Unknown target: ${targetKey}. Skipping.`);
+            continue;
+        }
+        targets.push(target);
+    }
+    return targets;
+}
+
+type WriteOutcome = 'stored' | 'exists' | 'aliased' | 'failed';
+
+// Pipeline stages, in order. Target-level stages (embedded onwards) come with the target's name.
+export type IngestStage = 'extracted' | 'classified' | 'summarized' | 'embedded' | 'stored' | 'archived' | 'exists' | 'aliased' | 'failed';
+
+export type IngestProgress = (stage: IngestStage, target?: string, error?: string) => Promise<void>;
+
+/**
+ * Looks for the source in a target before it is stored: under its URL (or as an
+ * alias), then by content. An exact copy, or a near duplicate when the target merges
+ * them, is recorded as an alias of the stored source and gets an outcome; a near
+ * duplicate to flag is only returned. Runs inside the write queue.
+ */
+async function checkDuplicates(db: Database, target: TargetConfig, extractedContent: ExtractedContent, simhash: string, progress: IngestProgress): Promise<{ outcome?: WriteOutcome, duplicate?: DuplicateMatch }> {
+    if (await findSourceIdByUrl(db, extractedContent.normalizedSource)) {
+        console.error(`Source already exists in target ${target.name}. Skipping (use \`refresh\` to update it).`);
+        await progress('exists', target.name);
+        return { outcome: 'exists' };
+    }
+
+    const duplicate = await findContentDuplicate(db, extractedContent.contentHash, simhash, target.duplicates);
+    if (!duplicate) return {};
+    if (duplicate.kind === 'near' && target.duplicates.nearDuplicates === 'flag') {
+        console.error(`Near duplicate of source #${duplicate.sourceId} (${duplicate.url}, distance ${duplicate.distance}) in target ${target.name}; storing it flagged.`);
+        return { duplicate };
+    }
+
+    await addSourceAlias(db, duplicate.sourceId, extractedContent.source, extractedContent.normalizedSource);
+    const similarity = duplicate.kind === 'exact' ? 'Same content as' : `Near duplicate (distance ${duplicate.distance}) of`;
+    console.error(`${similarity} source #${duplicate.sourceId} (${duplicate.url}) in target ${target.name}; recorded as an alias.`);
+    await progress('aliased', target.name);
+    return { outcome: 'aliased', duplicate };
+}
+
+/**
+ * Saves one extracted, embedded source into a target: SQLite rows, vectors and the
+ * archived original. Runs inside the write queue.
+ */
+async function writeToTarget(target: TargetConfig, extractedContent: ExtractedContent, simhash: string, embedded: EmbeddedChunks, finalTags: string[], progress: IngestProgress): Promise<{ outcome: WriteOutcome, duplicate?: DuplicateMatch }> {
+    const targetKey = target.name;
+    const db = await getDbConnection(target.dbPath);
+
+    // Checked again here: another item of the same batch may have stored this source
+    const { outcome, duplicate } = await checkDuplicates(db, target, extractedContent, simhash, progress);
+    if (outcome) return { outcome, duplicate };
+
+    // Re-read too: an earlier write of the batch may have recorded the collection's model
+    const collection = await getActiveCollection(target);
+    const collectionName = collection ? collection.name : target.collectionName;
+    try {
+        assertSameModel(collection, embedded.model!);
+    } catch (error: any) {
+        console.error(`Embedding failed for ${targetKey}:`, error.message);
+        await progress('failed', targetKey, `Embedding failed: ${error.message}`);
+        return { outcome: 'failed', duplicate };
+    }
+    // The summary chunk is embedded with the rest but only kept where summaries are on
+    const embeddedChunks = embedded.chunks.filter(chunk => chunk.kind !== 'summary' || target.summarizer.enabled);
+    const summary = embeddedChunks.find(chunk => chunk.kind === 'summary')?.content ?? null;
+
+    let sourceId: number | undefined;
+    let createdAt: string;
+    const insertedChunkIds: number[] = [];
+
+    try {
+        createdAt = await withTransaction(db, async () => {
+            const sourceInsert = await db.run(
+                'INSERT INTO sources (url, normalized_url, title, source_type, summary, raw_content, content_hash, simhash, near_duplicate_of) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                extractedContent.source, extractedContent.normalizedSource, extractedContent.title, extractedContent.sourceType, summary, extractedContent.content, extractedContent.contentHash,
+                simhash, duplicate ? duplicate.sourceId : null
+            );
+            sourceId = sourceInsert.lastID;
+            if (!sourceId) throw new Error("Failed to get last inserted source ID.");
+            await setSourceTags(db, sourceId, finalTags);
+
+            const stmt = await db.prepare('INSERT INTO chunks (source_id, chunk_index, content, kind, page, section, start_time) VALUES (?, ?, ?, ?, ?, ?, ?)');
+            for (const chunk of embeddedChunks) {
+                const chunkInsert = await stmt.run(sourceId, chunk.chunk_index, chunk.content, chunk.kind || 'content', chunk.page, chunk.section, chunk.start_time);
+                if (chunkInsert.lastID) insertedChunkIds.push(chunkInsert.lastID);
+            }
+            await stmt.finalize();
+            return (await db.get('SELECT created_at FROM sources WHERE id = ?', sourceId)).created_at;
+        });
+        console.error(`Successfully saved metadata to SQLite (${targetKey}).`);
+    } catch (error: any) {
+        console.error(`Database transaction failed for ${targetKey}:`, error.message);
+        await progress('failed', targetKey, `Database transaction failed: ${error.message}`);
+        return { outcome: 'failed', duplicate };
     }
 
     try {
-        createLock();
+        const chunksWithIds = embeddedChunks.map((chunk, index) => ({ 
+            id: insertedChunkIds[index], 
+            source_id: sourceId!, 
+            content: chunk.content, 
+            url: extractedContent.source, 
+            title: extractedContent.title, 
+            tags: finalTags,
+            source_type: extractedContent.sourceType,
+            created_at: createdAt,
+            kind: chunk.kind,
+            page: chunk.page,
+            section: chunk.section,
+            start_time: chunk.start_time,
+        }));
+        const embeddings = embeddedChunks.map(chunk => chunk.embedding);
+        await getVectorStore(target, collectionName).addChunks(chunksWithIds, embeddings);
+        if (!collection) await recordCollection(target, collectionName, embedded.model!);
+        console.error(`Successfully saved vectors to ${target.vectorStore} collection '${collectionName}' (${embeddingModelKey(embedded.model!)}).`);
+    } catch(error: any) {
+        console.error(`Failed to add to vector store for ${targetKey}:`, error.message);
+        // Remove the SQLite rows again, so a retry stores the source from scratch
+        // instead of finding it already present without vectors
+        try {
+            await withTransaction(db, async () => {
+                await db.run('DELETE FROM sources WHERE id = ?', sourceId);
+                await pruneUnusedTags(db);
+            });
+        } catch (cleanupError: any) {
+            console.error(`Failed to remove source ${sourceId} from SQLite (${targetKey}):`, cleanupError.message);
+        }
+        await progress('failed', targetKey, `Vector store insert failed: ${error.message}`);
+        return { outcome: 'failed', duplicate };
+    }
+    await progress('stored', targetKey);
 
+    try {
+        const filePath = archiveSource(target.repoPath, sourceId!, extractedContent);
+        console.error(`Successfully archived file to ${filePath}`);
+        await progress('archived', targetKey);
+        return { outcome: 'stored', duplicate };
+    } catch (error: any) {
+        console.error(`Failed to save original file artifact for ${targetKey}:`, error.message);
+        await progress('failed', targetKey, `Archiving failed: ${error.message}`);
+        return { outcome: 'failed', duplicate };
+    }
+}
+
+/**
+ * Ingests one source into already resolved targets. Extraction, classification and
+ * embedding happen here; writes go through `enqueueWrite`. `progress` is told about
+ * every completed stage (the job queue records them). Never throws.
+ */
+export async function ingestIntoTargets(source: string, tags: string[], targets: TargetConfig[], enqueueWrite: WriteQueue, progress: IngestProgress = async () => {}): Promise<IngestResult> {
+    try {
         console.error(`Processing source: ${source}`);
-        console.error(`Targets: ${targetKeys.join(', ')}`);
+        console.error(`Targets: ${targets.map(target => target.name).join(', ')}`);
 
         // 1. Extraction (Done once for all targets)
         let extractedContent: ExtractedContent;
@@ -93,149 +300,265 @@ export async function ingestSource(source: string, tags: string[] = [], targetKe
             console.error('Extraction failed:', error.message);
             return { success: false, source, error: `Extraction failed: ${error.message}` };
         }
+        await progress('extracted');
 
-        // 1.5 Classification (Auto-Tagging)
-        console.error('Fetching existing topics and classifying content...');
-        const refTarget = TARGETS['reels'] || TARGETS[targetKeys[0]];
-        const existingTags = await getAllUniqueTags(refTarget.dbPath);
-        
+        // 1.5 Classification (Auto-Tagging), run once if any target has it enabled
         let classificationTags: string[] = [];
         let newClassificationTags: string[] = [];
         let classificationReasoning: string = "";
 
-        try {
-            const classification = await classifyContent(extractedContent.content, existingTags);
-            classificationTags = classification.tags;
-            newClassificationTags = classification.newTags;
-            classificationReasoning = classification.reasoning;
-        } catch (error: any) {
-            console.error("AI Classification failed, proceeding with manual tags only:", error.message);
-            // This is non-fatal, so we proceed with just the manual tags
-        }
+        const classifyingTarget = targets.find(target => target.classifier.enabled);
+        if (classifyingTarget) {
+            console.error('Fetching existing topics and classifying content...');
+            const refTarget = findTarget(classifyingTarget.classifier.referenceTarget || classifyingTarget.name) || classifyingTarget;
+            let existingTags: string[] = [];
+            if (fs.existsSync(refTarget.dbPath)) {
+                await enqueueWrite(() => initializeSchema(refTarget.dbPath));
+                existingTags = await getAllUniqueTags(refTarget.dbPath);
+            }
 
-        const finalTags = Array.from(new Set([...tags, ...classificationTags])); // Merge manual + auto tags
-        
-        console.error(`AI Classification:\n- Assigned Topics: ${finalTags.join(', ')}\n- New Topics Created: ${newClassificationTags.join(', ') || 'None'}\n- Reasoning: ${classificationReasoning}\n`);
+            try {
+                const classification = await classifyContent(extractedContent.content, existingTags);
+                classificationTags = classification.tags;
+                newClassificationTags = classification.newTags;
+                classificationReasoning = classification.reasoning;
+            } catch (error: any) {
+                console.error("AI Classification failed, proceeding with manual tags only:", error.message);
+                // This is non-fatal, so we proceed with just the manual tags
+            }
 
-        // 2. Embedding (Done once for all targets)
-        console.error('Chunking and embedding content...');
-        const chunks = chunkContent(extractedContent.content);
-        let embeddedChunks: EmbeddedChunk[] = [];
-        try {
-            embeddedChunks = await embedChunks(chunks);
-        } catch (error: any) {
-            console.error("Embedding failed:", error.message);
-            return { success: false, source, error: `Embedding failed: ${error.message}` };
+            console.error(`AI Classification:\n- Assigned Topics: ${classificationTags.join(', ')}\n- New Topics Created: ${newClassificationTags.join(', ') || 'None'}\n- Reasoning: ${classificationReasoning}\n`);
         }
-        
-        if (embeddedChunks.length === 0) {
-            console.error('No chunks were embedded. Halting.');
-            return { success: false, source, error: "No chunks were embedded." };
+        await progress('classified');
+
+        // 1.6 Summary (map-reduce over long content), run once if any target stores summaries
+        let summary: string | undefined;
+        if (targets.some(target => target.summarizer.enabled)) {
+            console.error('Summarizing content...');
+            try {
+                summary = await summarizeContent(extractedContent.title, extractedContent.content);
+            } catch (error: any) {
+                console.error("Summarization failed, proceeding without a summary (run `summarize` later):", error.message);
+                // Non-fatal like classification
+            }
+            await progress('summarized');
         }
 
+        // Merge manual + target default + auto tags per target
+        const tagsForTarget = (target: TargetConfig): string[] => normalizeTags([
+            ...tags,
+            ...target.defaultTags,
+            ...(target.classifier.enabled ? classificationTags : []),
+        ]);
+        const allTags = new Set<string>();
+
+        // 2. Chunking and fingerprinting, once per distinct chunking configuration of the
+        // targets. The summary rides along as an extra chunk so it gets embedded in the same calls.
+        const chunksByOptions = new Map<string, Chunk[]>();
+        const chunksFor = (target: TargetConfig): { key: string, chunks: Chunk[] } => {
+            const options = chunkingOptionsFor(target, extractedContent.sourceType);
+            const key = JSON.stringify(options);
+            if (!chunksByOptions.has(key)) chunksByOptions.set(key, chunkExtracted(extractedContent, options));
+            return { key, chunks: chunksByOptions.get(key)! };
+        };
+        const simhash = computeSimhash(extractedContent.content);
+        const duplicates: DuplicateReport[] = [];
+
+        // Embedding runs once per chunking configuration and embedding model the targets'
+        // collections require. Collections without a recorded model take whatever was
+        // already embedded for the same chunks.
+        const embeddings = new Map<string, Map<string, EmbeddedChunks>>();
+        let embeddingError: string | undefined;
+        const embedForTarget = async (target: TargetConfig, collection?: CollectionRecord): Promise<EmbeddedChunks> => {
+            const { key, chunks } = chunksFor(target);
+            if (!embeddings.has(key)) embeddings.set(key, new Map());
+            const embeddingsByModel = embeddings.get(key)!;
+            const required = collection ? getCollectionModel(collection) : undefined;
+            if (!required && embeddingsByModel.size > 0) return embeddingsByModel.values().next().value!;
+            if (required && embeddingsByModel.has(embeddingModelKey(required))) return embeddingsByModel.get(embeddingModelKey(required))!;
+
+            console.error(`Embedding ${chunks.length} chunks...`);
+            const chunksToEmbed = summary ? [...chunks, { content: summary, chunk_index: -1, kind: 'summary' as const }] : chunks;
+            const embedded = await embedChunks(chunksToEmbed, required);
+            if (embedded.chunks.length === 0 || !embedded.model) {
+                throw new Error("No chunks were embedded.");
+            }
+            embeddingsByModel.set(embeddingModelKey(embedded.model), embedded);
+            return embedded;
+        };
+
         // 3. Process each target
         const successfullyIngestedTargets: string[] = [];
-        for (const targetKey of targetKeys) {
-            const target = TARGETS[targetKey];
-            if (!target) {
-                console.error(`Unknown target: ${targetKey}. Skipping.`);
-                continue;
-            }
+        let storedTargets = 0;
+        for (const target of targets) {
+            const targetKey = target.name;
+            const finalTags = tagsForTarget(target);
+            finalTags.forEach(tag => allTags.add(tag));
 
             console.error(`\n--- Ingesting into target: ${targetKey} ---`);
             
             if (!fs.existsSync(target.repoPath)) {
                 console.error(`Target repository not found at ${target.repoPath}. Skipping.`);
+                await progress('failed', targetKey, `Target repository not found at ${target.repoPath}`);
                 continue;
             }
 
-            await initializeSchema(target.dbPath);
+            // Schema setup may migrate data, so it must not interleave with other writes
+            await enqueueWrite(() => initializeSchema(target.dbPath));
             const db = await getDbConnection(target.dbPath);
 
-            const existingBySource = await db.get('SELECT id FROM sources WHERE normalized_url = ?', extractedContent.normalizedSource);
-            if (existingBySource) {
-                console.error(`Source already exists in target ${targetKey}. Skipping.`);
+            // Known URLs and duplicates are settled before spending an embedding call
+            const precheck = await enqueueWrite(() => checkDuplicates(db, target, extractedContent, simhash, progress));
+            if (precheck.outcome) {
                 successfullyIngestedTargets.push(targetKey); // Consider it success if already exists
+                if (precheck.duplicate) duplicates.push({ ...precheck.duplicate, target: targetKey, action: 'alias' });
                 continue;
             }
 
-            let sourceId: number | undefined;
-            const insertedChunkIds: number[] = [];
-
+            const collection = await getActiveCollection(target);
+            let embedded: EmbeddedChunks;
             try {
-                await db.run('BEGIN TRANSACTION;');
-                const sourceInsert = await db.run(
-                    'INSERT INTO sources (url, normalized_url, title, source_type, raw_content, content_hash, tags) VALUES (?, ?, ?, ?, ?, ?, ?)',
-                    extractedContent.source, extractedContent.normalizedSource, extractedContent.title, extractedContent.sourceType, extractedContent.content, extractedContent.contentHash, JSON.stringify(finalTags)
-                );
-                sourceId = sourceInsert.lastID;
-                if (!sourceId) throw new Error("Failed to get last inserted source ID.");
-
-                const stmt = await db.prepare('INSERT INTO chunks (source_id, chunk_index, content) VALUES (?, ?, ?)');
-                for (const chunk of embeddedChunks) {
-                    const chunkInsert = await stmt.run(sourceId, chunk.chunk_index, chunk.content);
-                    if (chunkInsert.lastID) insertedChunkIds.push(chunkInsert.lastID);
-                }
-                await stmt.finalize();
-                await db.run('COMMIT;');
-                console.error(`Successfully saved metadata to SQLite (${targetKey}).`);
+                embedded = await embedForTarget(target, collection);
+                assertSameModel(collection, embedded.model!);
             } catch (error: any) {
-                await db.run('ROLLBACK;');
-                console.error(`Database transaction failed for ${targetKey}:`, error.message);
+                console.error(`Embedding failed for ${targetKey}:`, error.message);
+                embeddingError = error.message;
+                await progress('failed', targetKey, `Embedding failed: ${error.message}`);
                 continue;
             }
+            await progress('embedded', targetKey);
 
-            try {
-                const chunksWithIds = embeddedChunks.map((chunk, index) => ({ 
-                    id: insertedChunkIds[index], 
-                    source_id: sourceId!, 
-                    content: chunk.content, 
-                    url: extractedContent.source, 
-                    title: extractedContent.title, 
-                    tags: finalTags 
-                }));
-                const embeddings = embeddedChunks.map(chunk => chunk.embedding);
-                await addChunksToVectorStore(target.collectionName, chunksWithIds, embeddings);
-                console.error(`Successfully saved vectors to ChromaDB collection '${target.collectionName}'.`);
-            } catch(error: any) {
-                console.error(`Failed to add to vector store for ${targetKey}:`, error.message);
-                continue;
+            const { outcome, duplicate } = await enqueueWrite(() => writeToTarget(target, extractedContent, simhash, embedded, finalTags, progress));
+            if (outcome !== 'failed') successfullyIngestedTargets.push(targetKey);
+            if (outcome === 'stored') storedTargets++;
+            if (duplicate && outcome !== 'failed') duplicates.push({ ...duplicate, target: targetKey, action: outcome === 'aliased' ? 'alias' : 'flag' });
+        }
+        const success = successfullyIngestedTargets.length > 0;
+        return {
+            success,
+            source,
+            targets: successfullyIngestedTargets,
+            tags: Array.from(allTags),
+            chunks: chunksFor(targets[0]).chunks.length,
+            skipped: success && storedTargets === 0 ? true : undefined,
+            duplicates: duplicates.length > 0 ? duplicates : undefined,
+            error: !success && embeddingError ? `Embedding failed: ${embeddingError}` : undefined,
+        };
+
+    } catch (error: any) {
+        console.error("An error occurred during ingestion:", error.message);
+        return { success: false, source, error: `An unexpected error occurred during ingestion: ${error.message}` };
+    }
+}
+
+export async function ingestSource(source: string, tags: string[] = [], targetKeys: string[] = []): Promise<IngestResult> {
+    if (!source) {
+        const errorMsg = "A source URL or file path is required.";
+        console.error(errorMsg);
+        return { success: false, source, error: errorMsg };
+    }
+
+    try {
+        return await withIngestLock(async () => {
+            const targets = resolveTargets(targetKeys);
+            if (targets.length === 0) {
+                return { success: false, source, error: `None of the requested targets are configured: ${targetKeys.join(', ')}` };
             }
+            return ingestIntoTargets(source, tags, targets, fn => fn());
+        });
+    } catch (error: any) {
+        console.error("An error occurred during ingestion:", error.message);
+        return { success: false, source, error: `An unexpected error occurred during ingestion: ${error.message}` };
+    }
+}
 
-            if (sourceId) {
-                try {
-                    const date = new Date();
-                    const year = date.getFullYear();
-                    const month = String(date.getMonth() + 1).padStart(2, '0');
-                    const dateDir = `${year}-${month}`;
-
-                    const sourceTypeDir = extractedContent.sourceType.charAt(0).toUpperCase() + extractedContent.sourceType.slice(1);
-                    const storageDir = path.join(target.repoPath, sourceTypeDir, dateDir);
-                    fs.mkdirSync(storageDir, { recursive: true });
-
-                    const sanitizedTitle = sanitizeFilename(extractedContent.title);
-                    const filename = `${sourceId}-${sanitizedTitle}${extractedContent.fileExtension}`;
-                    const filePath = path.join(storageDir, filename);
-
-                    if (['pdf', 'text'].includes(extractedContent.sourceType) && fs.existsSync(extractedContent.source)) {
-                        fs.copyFileSync(extractedContent.source, filePath);
-                    } else {
-                        fs.writeFileSync(filePath, extractedContent.originalContent);
-                    }
-                    console.error(`Successfully archived file to ${filePath}`);
-                    successfullyIngestedTargets.push(targetKey);
-                } catch (error: any) {
-                    console.error(`Failed to save original file artifact for ${targetKey}:`, error.message);
-                    continue;
-                }
+/**
+ * Ingests many sources under a single ingestion lock. Up to `concurrency` items are
+ * extracted and embedded at once while their writes are serialized; a failing item
+ * is reported in its result and does not stop the batch.
+ */
+export async function ingestSources(sources: string[], tags: string[] = [], targetKeys: string[] = [], options: BulkIngestOptions = {}): Promise<BulkIngestResult> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    if (sources.length === 0) {
+        return { success: false, total: 0, succeeded: 0, skipped: 0, failed: 0, results: [], error: "No sources to ingest." };
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        return { success: false, total: sources.length, succeeded: 0, skipped: 0, failed: 0, results: [], error: `Invalid concurrency: ${concurrency}` };
+    }
+
+    try {
+        return await withIngestLock(async () => {
+            const targets = resolveTargets(targetKeys);
+            if (targets.length === 0) {
+                const error = `None of the requested targets are configured: ${targetKeys.join(', ')}`;
+                return { success: false, total: sources.length, succeeded: 0, skipped: 0, failed: 0, results: [], error };
             }
-        }
-        return { success: successfullyIngestedTargets.length > 0, source, targets: successfullyIngestedTargets, tags: finalTags, chunks: embeddedChunks.length };
 
+            console.error(`Ingesting ${sources.length} sources (concurrency ${concurrency})...`);
+            const enqueueWrite = createWriteQueue();
+            let done = 0;
+            const results = await mapWithConcurrency(sources, concurrency, async source => {
+                const result = await ingestIntoTargets(source, tags, targets, enqueueWrite);
+                done++;
+                console.error(`[${done}/${sources.length}] ${result.success ? (result.skipped ? 'skipped' : 'ok') : 'FAILED'}: ${source}`);
+                return result;
+            });
+
+            const failed = results.filter(result => !result.success).length;
+            const skipped = results.filter(result => result.success && result.skipped).length;
+            return {
+                success: failed === 0,
+                total: results.length,
+                succeeded: results.length - failed - skipped,
+                skipped,
+                failed,
+                results,
+            };
+        });
     } catch (error: any) {
         console.error("An error occurred during ingestion:", error.message);
-        return { success: false, source, error: `An unexpected error occurred during ingestion: ${error.message}` };
-    } finally {
-        removeLock();
+        return { success: false, total: sources.length, succeeded: 0, skipped: 0, failed: 0, results: [], error: `An unexpected error occurred during ingestion: ${error.message}` };
+    }
+}
+
+function parseSourceList(text: string): string[] {
+    return text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+// Files under `dir` the extractor supports (.pdf, .txt, .md), skipping hidden entries
+function listDirectorySources(dir: string, recursive: boolean): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue;
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (recursive) files.push(...listDirectorySources(entryPath, recursive));
+        } else if (entry.isFile() && detectSourceType(entryPath) !== 'other') {
+            files.push(entryPath);
+        }
+    }
+    return files.sort();
+}
+
+/**
+ * Expands the ingest command's inputs into a list of sources: a URL or file as is,
+ * a directory into its supported files, and the `fromFile` and stdin lists into one
+ * source per line (blank lines and # comments ignored). Duplicates are dropped.
+ */
+export function collectSources(source: string | undefined, options: SourceListOptions = {}): string[] {
+    const sources: string[] = [];
+    if (source && fs.existsSync(source) && fs.statSync(source).isDirectory()) {
+        sources.push(...listDirectorySources(source, !!options.recursive));
+    } else if (source) {
+        sources.push(source);
+    }
+    if (options.fromFile) {
+        sources.push(...parseSourceList(fs.readFileSync(options.fromFile, 'utf8')));
+    }
+    if (options.stdin) {
+        sources.push(...parseSourceList(fs.readFileSync(0, 'utf8')));
     }
+    return Array.from(new Set(sources));
 }
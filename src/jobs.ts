@@ -0,0 +1,394 @@
+import { Database } from 'sqlite';
+import { getDbConnection, withTransaction } from './database';
+import { config } from './config';
+import { detectSourceType } from './extractor';
+import { withIngestLock, resolveTargets, createWriteQueue, ingestIntoTargets, IngestStage, WriteQueue } from './ingest';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+export interface JobTargetState {
+    target: string;
+    stage: IngestStage | 'pending';
+    error: string | null;
+}
+
+export interface Job {
+    id: number;
+    source: string;
+    tags: string[];
+    status: JobStatus;
+    stage: string;             // Last source-level stage of the current attempt: queued, extracted or classified
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    next_attempt_at: string;   // UTC; when a queued job becomes due
+    created_at: string;
+    updated_at: string;
+    targets: JobTargetState[];
+}
+
+export interface JobEnqueueResult {
+    success: boolean;
+    jobs?: { id: number, source: string, existing?: boolean }[];
+    rejected?: { source: string, error: string }[];
+    error?: string;
+}
+
+export interface JobListResult {
+    success: boolean;
+    jobs?: Job[];
+    error?: string;
+}
+
+export interface JobResult {
+    success: boolean;
+    job?: Job;
+    error?: string;
+}
+
+export interface JobUpdateResult {
+    success: boolean;
+    updated?: number[];        // IDs of the jobs that changed
+    error?: string;
+}
+
+export interface WorkerOptions {
+    watch?: boolean;           // Keep polling for new jobs instead of exiting once the queue is empty
+    concurrency?: number;      // Jobs processed at once (default 3)
+    enqueueWrite?: WriteQueue; // Queue shared with other writers in the process (default: the worker's own)
+}
+
+export interface WorkerResult {
+    success: boolean;          // True when no job failed for good
+    processed: number;         // Attempts run
+    succeeded: number;
+    requeued: number;          // Failed attempts scheduled for a retry
+    failed: number;            // Jobs out of attempts
+    error?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_CONCURRENCY = 3;
+// Retry delay: 30s, 1m, 2m, 4m... capped at an hour
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+const POLL_INTERVAL_MS = 5000;
+
+// Per-target stages that mean the source is in the target (aliased: under another source)
+const DONE_STAGES = ['archived', 'exists', 'aliased'];
+
+// Schema is created once per process
+let schemaReady = false;
+
+async function openJobsDb(): Promise<Database> {
+    const db = await getDbConnection(config.jobsDbPath);
+    if (!schemaReady) {
+        await db.exec(`
+            CREATE TABLE IF NOT EXISTS jobs (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              source TEXT NOT NULL,
+              tags TEXT DEFAULT '[]',
+              status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+              stage TEXT NOT NULL DEFAULT 'queued',
+              attempts INTEGER NOT NULL DEFAULT 0,
+              max_attempts INTEGER NOT NULL DEFAULT ${DEFAULT_MAX_ATTEMPTS},
+              last_error TEXT,
+              next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, next_attempt_at);
+            CREATE TABLE IF NOT EXISTS job_targets (
+              job_id INTEGER NOT NULL,
+              target TEXT NOT NULL,
+              stage TEXT NOT NULL DEFAULT 'pending',
+              error TEXT,
+              updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              PRIMARY KEY (job_id, target),
+              FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+            );
+        `);
+        schemaReady = true;
+    }
+    return db;
+}
+
+function placeholders(values: unknown[]): string {
+    return values.map(() => '?').join(',');
+}
+
+async function loadJobs(db: Database, where: string, params: unknown[], limit?: number): Promise<Job[]> {
+    const rows = await db.all(
+        `SELECT * FROM jobs WHERE ${where} ORDER BY id DESC${limit ? ' LIMIT ?' : ''}`,
+        ...params, ...(limit ? [limit] : [])
+    );
+    if (rows.length === 0) return [];
+    const targetRows = await db.all(
+        `SELECT job_id, target, stage, error FROM job_targets WHERE job_id IN (${placeholders(rows)}) ORDER BY rowid`,
+        ...rows.map(row => row.id)
+    );
+    return rows.map(row => ({
+        ...row,
+        tags: JSON.parse(row.tags || '[]'),
+        targets: targetRows
+            .filter(target => target.job_id === row.id)
+            .map(target => ({ target: target.target, stage: target.stage, error: target.error })),
+    }));
+}
+
+/**
+ * Adds sources to the queue for `jobs work` to ingest. Targets are resolved now, so
+ * a later change of the default target does not move queued jobs. A source that
+ * already has a queued or running job is not queued twice.
+ */
+export async function enqueueJobs(sources: string[], tags: string[] = [], targetKeys: string[] = []): Promise<JobEnqueueResult> {
+    try {
+        if (sources.length === 0) {
+            return { success: false, error: "No sources to queue." };
+        }
+        const targets = resolveTargets(targetKeys);
+        if (targets.length === 0) {
+            return { success: false, error: `None of the requested targets are configured: ${targetKeys.join(', ')}` };
+        }
+
+        const db = await openJobsDb();
+        const jobs: { id: number, source: string, existing?: boolean }[] = [];
+        const rejected: { source: string, error: string }[] = [];
+        for (const source of sources) {
+            if (detectSourceType(source) === 'other') {
+                rejected.push({ source, error: `Unsupported source type or invalid source: ${source}` });
+                continue;
+            }
+            // Checked in the transaction, so concurrent requests can't both queue the source
+            jobs.push(await withTransaction(db, async () => {
+                const existing = await db.get("SELECT id FROM jobs WHERE source = ? AND status IN ('queued', 'running')", source);
+                if (existing) return { id: existing.id as number, source, existing: true };
+
+                const insert = await db.run('INSERT INTO jobs (source, tags) VALUES (?, ?)', source, JSON.stringify(tags));
+                for (const target of targets) {
+                    await db.run('INSERT INTO job_targets (job_id, target) VALUES (?, ?)', insert.lastID, target.name);
+                }
+                return { id: insert.lastID!, source };
+            }));
+        }
+
+        const added = jobs.filter(job => !job.existing).length;
+        console.error(`Queued ${added} job(s) for ${targets.map(target => target.name).join(', ')}${jobs.length > added ? ` (${jobs.length - added} already queued)` : ''}.`);
+        return { success: rejected.length === 0, jobs, rejected, error: rejected.length > 0 ? `${rejected.length} source(s) rejected` : undefined };
+    } catch (error: any) {
+        console.error("Failed to queue jobs:", error.message);
+        return { success: false, error: `Failed to queue jobs: ${error.message}` };
+    }
+}
+
+export async function listJobs(status?: JobStatus, limit = 50): Promise<JobListResult> {
+    try {
+        const db = await openJobsDb();
+        const jobs = status ? await loadJobs(db, 'status = ?', [status], limit) : await loadJobs(db, '1', [], limit);
+        return { success: true, jobs };
+    } catch (error: any) {
+        console.error("Failed to list jobs:", error.message);
+        return { success: false, error: `Failed to list jobs: ${error.message}` };
+    }
+}
+
+export async function getJob(id: number): Promise<JobResult> {
+    try {
+        const db = await openJobsDb();
+        const [job] = await loadJobs(db, 'id = ?', [id]);
+        return job ? { success: true, job } : { success: false, error: `Job not found: ${id}` };
+    } catch (error: any) {
+        console.error("Failed to get job:", error.message);
+        return { success: false, error: `Failed to get job: ${error.message}` };
+    }
+}
+
+/**
+ * Moves jobs to `status` when they are currently in one of `from`. Jobs in any other
+ * state (or missing) are reported in the error.
+ */
+async function updateJobs(ids: number[], from: JobStatus[], set: string, action: string): Promise<JobUpdateResult> {
+    try {
+        const db = await openJobsDb();
+        const updated: number[] = [];
+        for (const id of ids) {
+            const result = await db.run(
+                `UPDATE jobs SET ${set}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status IN (${placeholders(from)})`,
+                id, ...from
+            );
+            if (result.changes) updated.push(id);
+        }
+        const skipped = ids.filter(id => !updated.includes(id));
+        if (skipped.length > 0) {
+            const done = updated.length > 0 ? ` Updated: ${updated.join(', ')}.` : '';
+            return { success: false, updated, error: `Could not ${action} job(s) ${skipped.join(', ')}: not found or not ${from.join('/')}.${done}` };
+        }
+        return { success: true, updated };
+    } catch (error: any) {
+        console.error(`Failed to ${action} jobs:`, error.message);
+        return { success: false, error: `Failed to ${action} jobs: ${error.message}` };
+    }
+}
+
+/**
+ * Requeues jobs to run as soon as a worker picks them up, with a fresh attempt count.
+ * Without IDs, every failed job is retried.
+ */
+export async function retryJobs(ids: number[] = []): Promise<JobUpdateResult> {
+    if (ids.length === 0) {
+        try {
+            const db = await openJobsDb();
+            ids = (await db.all("SELECT id FROM jobs WHERE status = 'failed' ORDER BY id")).map(row => row.id);
+        } catch (error: any) {
+            return { success: false, error: `Failed to retry jobs: ${error.message}` };
+        }
+    }
+    return updateJobs(ids, ['failed', 'cancelled', 'queued'],
+        "status = 'queued', attempts = 0, last_error = NULL, next_attempt_at = CURRENT_TIMESTAMP", 'retry');
+}
+
+export async function cancelJobs(ids: number[]): Promise<JobUpdateResult> {
+    return updateJobs(ids, ['queued', 'failed'], "status = 'cancelled'", 'cancel');
+}
+
+/**
+ * Atomically marks the next due job as running. The status check in the UPDATE keeps
+ * two worker loops (or a concurrent cancel) from both taking the same job.
+ */
+async function claimNextJob(db: Database): Promise<Job | undefined> {
+    for (;;) {
+        const row = await db.get(
+            "SELECT id FROM jobs WHERE status = 'queued' AND next_attempt_at <= CURRENT_TIMESTAMP ORDER BY next_attempt_at, id LIMIT 1"
+        );
+        if (!row) return undefined;
+        const claim = await db.run(
+            "UPDATE jobs SET status = 'running', stage = 'queued', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'queued'",
+            row.id
+        );
+        if (claim.changes) return (await loadJobs(db, 'id = ?', [row.id]))[0];
+    }
+}
+
+// Milliseconds until the next queued job is due, or undefined if nothing is queued
+async function timeUntilNextJob(db: Database): Promise<number | undefined> {
+    const row = await db.get(
+        "SELECT MAX(0, (julianday(MIN(next_attempt_at)) - julianday(CURRENT_TIMESTAMP)) * 86400000) AS wait FROM jobs WHERE status = 'queued'"
+    );
+    return row && row.wait !== null ? Math.ceil(row.wait) : undefined;
+}
+
+function backoffSeconds(attempts: number): number {
+    return Math.min(BACKOFF_BASE_SECONDS * 2 ** (attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * Runs one attempt of a job. Targets that already hold the source (archived or
+ * already present in an earlier attempt) are not ingested again.
+ */
+async function runJob(db: Database, job: Job, enqueueWrite: WriteQueue): Promise<'succeeded' | 'requeued' | 'failed'> {
+    console.error(`\n=== Job #${job.id} (attempt ${job.attempts}/${job.max_attempts}): ${job.source} ===`);
+    const pending = job.targets.filter(target => !DONE_STAGES.includes(target.stage)).map(target => target.target);
+    await db.run(
+        `UPDATE job_targets SET stage = 'pending', error = NULL, updated_at = CURRENT_TIMESTAMP WHERE job_id = ? AND target IN (${placeholders(pending)})`,
+        job.id, ...pending
+    );
+
+    let error: string | undefined;
+    const targets = resolveTargets(pending);
+    for (const missing of pending.filter(name => !targets.some(target => target.name === name))) {
+        await db.run("UPDATE job_targets SET stage = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP WHERE job_id = ? AND target = ?",
+            `Unknown target: ${missing}`, job.id, missing);
+    }
+
+    if (targets.length > 0) {
+        const result = await ingestIntoTargets(job.source, job.tags, targets, enqueueWrite, async (stage, target, stageError) => {
+            if (target) {
+                await db.run('UPDATE job_targets SET stage = ?, error = ?, updated_at = CURRENT_TIMESTAMP WHERE job_id = ? AND target = ?',
+                    stage, stageError ?? null, job.id, target);
+            } else {
+                await db.run('UPDATE jobs SET stage = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', stage, job.id);
+            }
+        });
+        error = result.error;
+    }
+
+    const states = (await loadJobs(db, 'id = ?', [job.id]))[0].targets;
+    const unfinished = states.filter(state => !DONE_STAGES.includes(state.stage));
+    if (unfinished.length === 0) {
+        await db.run("UPDATE jobs SET status = 'succeeded', last_error = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?", job.id);
+        console.error(`Job #${job.id} succeeded.`);
+        return 'succeeded';
+    }
+
+    error = error || unfinished.map(state => `${state.target}: ${state.error || 'not ingested'}`).join('; ');
+    if (job.attempts >= job.max_attempts) {
+        await db.run("UPDATE jobs SET status = 'failed', last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?", error, job.id);
+        console.error(`Job #${job.id} failed after ${job.attempts} attempts: ${error}`);
+        return 'failed';
+    }
+    const delay = backoffSeconds(job.attempts);
+    await db.run(
+        "UPDATE jobs SET status = 'queued', last_error = ?, next_attempt_at = datetime(CURRENT_TIMESTAMP, ?), updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        error, `+${delay} seconds`, job.id
+    );
+    console.error(`Job #${job.id} failed (${error}); retrying in ${delay}s.`);
+    return 'requeued';
+}
+
+/**
+ * Drains the job queue under the ingestion lock: runs due jobs with bounded
+ * concurrency, waits for backed-off retries, and returns once nothing is queued
+ * (with watch, keeps polling for new jobs until interrupted). Ctrl-C lets the
+ * running jobs finish; a second Ctrl-C quits at once.
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<WorkerResult> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    const counts = { processed: 0, succeeded: 0, requeued: 0, failed: 0 };
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        return { success: false, ...counts, error: `Invalid concurrency: ${concurrency}` };
+    }
+
+    try {
+        return await withIngestLock(async () => {
+            const db = await openJobsDb();
+            // Holding the lock means no other worker runs: anything still 'running' was interrupted
+            const interrupted = await db.run("UPDATE jobs SET status = 'queued', updated_at = CURRENT_TIMESTAMP WHERE status = 'running'");
+            if (interrupted.changes) console.error(`Requeued ${interrupted.changes} interrupted job(s).`);
+
+            let stopping = false;
+            const onSignal = () => {
+                if (stopping) process.exit(130);
+                stopping = true;
+                console.error("\nStopping after the running jobs finish (Ctrl-C again to quit now)...");
+            };
+            process.on('SIGINT', onSignal);
+
+            const enqueueWrite = options.enqueueWrite ?? createWriteQueue();
+            console.error(`Worker started (concurrency ${concurrency}${options.watch ? ', watching for new jobs' : ''}).`);
+            try {
+                await Promise.all(Array.from({ length: concurrency }, async () => {
+                    while (!stopping) {
+                        const job = await claimNextJob(db);
+                        if (job) {
+                            const outcome = await runJob(db, job, enqueueWrite);
+                            counts.processed++;
+                            counts[outcome]++;
+                            continue;
+                        }
+                        const wait = await timeUntilNextJob(db);
+                        if (wait === undefined && !options.watch) return;
+                        await new Promise(resolve => setTimeout(resolve, Math.min(wait ?? POLL_INTERVAL_MS, POLL_INTERVAL_MS)));
+                    }
+                }));
+            } finally {
+                process.off('SIGINT', onSignal);
+            }
+            return { success: counts.failed === 0, ...counts };
+        });
+    } catch (error: any) {
+        console.error("Worker failed:", error.message);
+        return { success: false, ...counts, error: `Worker failed: ${error.message}` };
+    }
+}
@@ -1,133 +1,188 @@
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import axios from 'axios';
 import { config } from './config';
-
-// Initialize Gemini if key is present
-const genAI = config.googleApiKey ? new GoogleGenerativeAI(config.googleApiKey) : null;
+import { createGeminiProvider } from './gemini-provider';
+import { createMinimaxProvider } from './minimax-provider';
+import { createOpenAIProvider } from './openai-provider';
 
 export interface LLMResponse {
     text: string;
 }
 
 /**
- * Generates text using the configured LLM provider hierarchy.
- * Priority: Gemini -> Minimax
+ * A text generation and/or embedding backend. Providers are registered by name below
+ * and tried in the order configured for each task (config.generationProviders and
+ * config.embeddingProviders).
+ */
+export interface LLMProvider {
+    name: string;
+    defaultEmbeddingModel?: string;  // Used when embedding without an explicit model
+    contextTokens: number;           // Retrieved context an answer prompt to its chat model may hold, in tokens
+    canGenerate(): boolean;          // Has the keys/settings needed to generate
+    canEmbed(): boolean;             // Has the keys/settings needed to embed with its default model
+    generate(prompt: string, systemInstruction?: string): Promise<string>;
+    stream(prompt: string, systemInstruction?: string): AsyncGenerator<string>;
+    embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+const PROVIDERS: Record<string, LLMProvider> = {
+    gemini: createGeminiProvider(),
+    minimax: createMinimaxProvider(),
+    openai: createOpenAIProvider('openai', () => ({
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+        embeddingModel: config.openaiEmbeddingModel,
+        contextTokens: 16000,
+    })),
+    'openai-compatible': createOpenAIProvider('openai-compatible', () => ({
+        apiKey: config.openaiCompatibleApiKey,
+        baseURL: config.openaiCompatibleBaseUrl,
+        model: config.openaiCompatibleModel,
+        embeddingModel: config.openaiCompatibleEmbeddingModel,
+        contextTokens: config.openaiCompatibleContextTokens,
+    })),
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+export function getProvider(name: string): LLMProvider {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+        throw new Error(`Unknown LLM provider '${name}'. Available: ${LLM_PROVIDER_NAMES.join(', ')}`);
+    }
+    return provider;
+}
+
+// Configured providers able to generate, in the configured order
+function generationProviders(): LLMProvider[] {
+    return config.generationProviders.map(getProvider).filter(provider => provider.canGenerate());
+}
+
+/**
+ * Token budget for the retrieved context of an answer prompt: that of the first
+ * generation provider, the one that normally answers.
+ */
+export function contextTokenBudget(): number {
+    const provider = generationProviders()[0];
+    if (!provider) throw new Error("No generation provider is configured.");
+    return provider.contextTokens;
+}
+
+function embeddingProviders(): LLMProvider[] {
+    return config.embeddingProviders.map(getProvider).filter(provider => provider.canEmbed());
+}
+
+function describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+        return `${error.response?.status ?? ''} ${error.response?.data ? JSON.stringify(error.response.data) : error.message}`.trim();
+    }
+    return (error as Error).message;
+}
+
+/**
+ * Generates text with the first provider of the generation order that succeeds.
  */
 export async function generateText(prompt: string, systemInstruction?: string): Promise<string> {
-    // 1. Try Gemini
-    if (genAI && config.googleApiKey) {
+    const providers = generationProviders();
+    for (const [i, provider] of providers.entries()) {
         try {
-            const model = genAI.getGenerativeModel({ 
-                model: config.generativeModel || "gemini-2.5-flash-lite",
-                systemInstruction: systemInstruction 
-            });
-            const result = await model.generateContent(prompt);
-            return result.response.text();
+            if (i > 0) console.error(`Using ${provider.name} for generation...`);
+            return await provider.generate(prompt, systemInstruction);
         } catch (error) {
-            console.warn("Gemini generation failed, trying fallback...", (error as Error).message);
+            console.warn(`${provider.name} generation failed, trying fallback...`, describeError(error));
         }
     }
 
-    // 2. Fallback to Minimax
-    if (config.minimaxApiKey) {
+    throw new Error("All LLM providers failed. Please check your API keys.");
+}
+
+/**
+ * Streaming variant of generateText: yields text deltas as they arrive. Falls back
+ * to the next provider only while nothing has been yielded yet; a stream that
+ * breaks after the first token throws, since the caller has already shown part
+ * of the answer.
+ */
+export async function* generateTextStream(prompt: string, systemInstruction?: string): AsyncGenerator<string> {
+    const providers = generationProviders();
+    for (const [i, provider] of providers.entries()) {
+        let started = false;
         try {
-            console.error("Using Minimax for generation...");
-            const url = `https://api.minimax.io/v1/text/chatcompletion_v2?GroupId=${config.minimaxGroupId || ''}`;
-            
-            const messages = [];
-            if (systemInstruction) {
-                messages.push({ role: "system", content: systemInstruction });
-            }
-            messages.push({ role: "user", content: prompt });
-
-            const response = await axios.post(url, {
-                model: "abab6.5s-chat", // Efficient Minimax model
-                messages: messages,
-                stream: false
-            }, {
-                headers: {
-                    'Authorization': `Bearer ${config.minimaxApiKey}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response && response.data && response.data.choices) {
-                return response.data.choices[0].message.content;
-            } else {
-                throw new Error("Minimax response structure unexpected: " + (response ? JSON.stringify(response.data) : "Empty response"));
+            if (i > 0) console.error(`Using ${provider.name} for generation...`);
+            for await (const delta of provider.stream(prompt, systemInstruction)) {
+                started = true;
+                yield delta;
             }
+            return;
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                console.error("Minimax Axios Error:", error.response?.status, JSON.stringify(error.response?.data));
-            } else {
-                console.error("Minimax generation failed:", (error as Error).message);
+            if (started) {
+                throw new Error(`${provider.name} stream failed mid-answer: ${describeError(error)}`);
             }
+            console.warn(`${provider.name} streaming failed, trying fallback...`, describeError(error));
         }
     }
 
     throw new Error("All LLM providers failed. Please check your API keys.");
 }
 
+export interface EmbeddingModel {
+    provider: string;
+    model: string;
+}
+
+export interface EmbeddingInfo extends EmbeddingModel {
+    dimension: number;
+}
+
+export interface EmbeddingResult extends EmbeddingInfo {
+    embeddings: number[][];
+}
+
 /**
- * Generates embeddings using the configured LLM provider hierarchy.
- * Priority: Gemini -> Minimax
+ * Parses a model spec such as "gemini", "minimax:embo-01" or "openai-compatible:nomic-embed-text:latest".
+ * Everything after the first colon is the model name.
  */
-export async function getEmbeddings(texts: string[]): Promise<number[][]> {
-    // 1. Try Gemini via REST API
-    if (config.googleApiKey) {
+export function parseEmbeddingModel(spec: string): EmbeddingModel {
+    const separator = spec.indexOf(':');
+    const provider = (separator >= 0 ? spec.slice(0, separator) : spec).trim();
+    const model = separator >= 0 ? spec.slice(separator + 1).trim() : '';
+    const defaultModel = getProvider(provider).defaultEmbeddingModel;
+    if (!model && !defaultModel) {
+        throw new Error(`Provider '${provider}' has no default embedding model; use ${provider}:<model>.`);
+    }
+    return { provider, model: model || defaultModel! };
+}
+
+export function embeddingModelKey(model: EmbeddingModel): string {
+    return `${model.provider}/${model.model}`;
+}
+
+/**
+ * Generates embeddings and reports which provider/model produced them.
+ *
+ * With a model, only that provider is used: vectors from different models live in
+ * different spaces, so a collection pinned to one model must never silently get
+ * vectors from the fallback. Without one, the embedding order is tried.
+ */
+export async function getEmbeddings(texts: string[], model?: EmbeddingModel): Promise<EmbeddingResult> {
+    if (model) {
+        const provider = getProvider(model.provider);
         try {
-            const embeddings: number[][] = [];
-            for (const text of texts) {
-                const response = await axios.post(
-                    `https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-001:embedContent?key=${config.googleApiKey}`,
-                    { content: { role: "user", parts: [{ text }] } },
-                    { headers: { 'Content-Type': 'application/json' } }
-                );
-                if (response.data.embedding?.values) {
-                    embeddings.push(response.data.embedding.values);
-                } else {
-                    throw new Error("Unexpected Gemini embedding response structure");
-                }
-            }
-            return embeddings;
+            const embeddings = await provider.embed(texts, model.model);
+            return { ...model, dimension: embeddings[0]?.length ?? 0, embeddings };
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                console.warn("Gemini embeddings failed, trying fallback...", error.response?.status, (error as Error).message);
-            } else {
-                console.warn("Gemini embeddings failed, trying fallback...", (error as Error).message);
-            }
+            throw new Error(`Embedding with ${embeddingModelKey(model)} failed: ${describeError(error)}`);
         }
     }
 
-    // 2. Fallback to Minimax
-    if (config.minimaxApiKey) {
+    const providers = embeddingProviders();
+    for (const [i, provider] of providers.entries()) {
         try {
-            console.error("Using Minimax for embeddings...");
-            const url = `https://api.minimax.io/v1/embeddings?GroupId=${config.minimaxGroupId || ''}`;
-            
-            const response = await axios.post(url, {
-                model: "embo-01",
-                texts: texts,
-                type: "db"
-            }, {
-                headers: {
-                    'Authorization': `Bearer ${config.minimaxApiKey}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response && response.data && response.data.vectors) {
-                return response.data.vectors;
-            } else {
-                throw new Error("Minimax embedding response structure unexpected: " + (response ? JSON.stringify(response.data) : "Empty response"));
-            }
+            if (i > 0) console.error(`Using ${provider.name} for embeddings...`);
+            const embeddingModel = provider.defaultEmbeddingModel!;
+            const embeddings = await provider.embed(texts, embeddingModel);
+            return { provider: provider.name, model: embeddingModel, dimension: embeddings[0]?.length ?? 0, embeddings };
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                console.error("Minimax Embedding Axios Error:", error.response?.status, JSON.stringify(error.response?.data));
-            } else {
-                console.error("Minimax embeddings failed:", (error as Error).message);
-            }
+            console.warn(`${provider.name} embeddings failed, trying fallback...`, describeError(error));
         }
     }
 
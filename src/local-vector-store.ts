@@ -0,0 +1,202 @@
+import { Database } from 'sqlite';
+import { getDbConnection, withTransaction } from './database';
+import { VectorStore, VectorChunk, VectorMatch, VectorMetadata, WhereFilter, getChunkVectorId, toVectorMetadata } from './vector-store';
+
+// Schema is created once per vectors.db file per process
+const initializedFiles = new Set<string>();
+
+async function openVectorDb(filePath: string): Promise<Database> {
+    const db = await getDbConnection(filePath);
+    if (!initializedFiles.has(filePath)) {
+        await db.exec(`
+            CREATE TABLE IF NOT EXISTS vectors (
+              collection TEXT NOT NULL,
+              id TEXT NOT NULL,
+              source_id INTEGER NOT NULL,
+              embedding BLOB NOT NULL,
+              metadata TEXT NOT NULL,
+              PRIMARY KEY (collection, id)
+            );
+            CREATE INDEX IF NOT EXISTS idx_vectors_source ON vectors(collection, source_id);
+        `);
+        initializedFiles.add(filePath);
+    }
+    return db;
+}
+
+function toBlob(embedding: number[]): Buffer {
+    return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+    // Copy into a fresh buffer: SQLite blobs are not guaranteed to be 4-byte aligned
+    return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+function cosineDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 1;
+    return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+    if (condition === null || typeof condition !== 'object') {
+        return value === condition;
+    }
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+        switch (operator) {
+            case '$eq': return value === operand;
+            case '$ne': return value !== operand;
+            case '$gt': return value > operand;
+            case '$gte': return value >= operand;
+            case '$lt': return value < operand;
+            case '$lte': return value <= operand;
+            case '$in': return Array.isArray(operand) && operand.includes(value);
+            case '$nin': return Array.isArray(operand) && !operand.includes(value);
+            case '$contains': return typeof value === 'string' && value.includes(String(operand));
+            case '$not_contains': return typeof value !== 'string' || !value.includes(String(operand));
+            default: throw new Error(`Unsupported metadata filter operator: ${operator}`);
+        }
+    });
+}
+
+/**
+ * Evaluates a ChromaDB-style where filter against a vector's metadata.
+ */
+export function matchesWhere(metadata: VectorMetadata, where: WhereFilter): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+        if (key === '$and') return (condition as WhereFilter[]).every(clause => matchesWhere(metadata, clause));
+        if (key === '$or') return (condition as WhereFilter[]).some(clause => matchesWhere(metadata, clause));
+        return matchesCondition(metadata[key], condition);
+    });
+}
+
+/**
+ * Vector collection stored in a SQLite file (vectors.db next to the target's
+ * knowledge_base.db). Search is an exact scan with cosine distance, which is
+ * plenty for a personal knowledge base and needs no server.
+ */
+export function createLocalVectorStore(filePath: string, collectionName: string): VectorStore {
+    return {
+        backend: 'local',
+        collectionName,
+
+        async addChunks(chunks: VectorChunk[], embeddings: number[][]) {
+            if (chunks.length !== embeddings.length) {
+                throw new Error("Number of chunks and embeddings must match.");
+            }
+            if (chunks.length === 0) return;
+
+            const db = await openVectorDb(filePath);
+            const existing = await db.get('SELECT embedding FROM vectors WHERE collection = ? LIMIT 1', collectionName);
+            const dimension = existing ? fromBlob(existing.embedding).length : embeddings[0].length;
+            const mismatch = embeddings.find(embedding => embedding.length !== dimension);
+            if (mismatch) {
+                throw new Error(`Embedding dimension ${mismatch.length} does not match collection '${collectionName}' (${dimension}).`);
+            }
+
+            await withTransaction(db, async () => {
+                const stmt = await db.prepare('INSERT OR REPLACE INTO vectors (collection, id, source_id, embedding, metadata) VALUES (?, ?, ?, ?, ?)');
+                for (let i = 0; i < chunks.length; i++) {
+                    await stmt.run(
+                        collectionName, getChunkVectorId(chunks[i].source_id, chunks[i].id), chunks[i].source_id,
+                        toBlob(embeddings[i]), JSON.stringify(toVectorMetadata(chunks[i]))
+                    );
+                }
+                await stmt.finalize();
+            });
+            console.error(`Added ${chunks.length} embeddings to local collection '${collectionName}'.`);
+        },
+
+        async query(queryEmbedding: number[], topN = 10, where?: WhereFilter): Promise<VectorMatch[]> {
+            const db = await openVectorDb(filePath);
+            const rows = await db.all('SELECT id, embedding, metadata FROM vectors WHERE collection = ?', collectionName);
+            const filter = where && Object.keys(where).length > 0 ? where : undefined;
+
+            const matches: VectorMatch[] = [];
+            for (const row of rows) {
+                const metadata: VectorMetadata = JSON.parse(row.metadata);
+                if (filter && !matchesWhere(metadata, filter)) continue;
+                const embedding = fromBlob(row.embedding);
+                if (embedding.length !== queryEmbedding.length) {
+                    throw new Error(`Query embedding dimension ${queryEmbedding.length} does not match collection '${collectionName}' (${embedding.length}).`);
+                }
+                matches.push({ id: row.id, metadata, distance: cosineDistance(queryEmbedding, embedding) });
+            }
+            return matches.sort((a, b) => a.distance - b.distance).slice(0, topN);
+        },
+
+        async deleteSourceVectors(sourceId: number) {
+            const db = await openVectorDb(filePath);
+            await db.run('DELETE FROM vectors WHERE collection = ? AND source_id = ?', collectionName, sourceId);
+            console.error(`Deleted vectors for source ${sourceId} from local collection '${collectionName}'.`);
+        },
+
+        async updateSourceTags(sourceId: number, tags: string[]) {
+            const db = await openVectorDb(filePath);
+            const updated = await withTransaction(db, async () => {
+                const rows = await db.all('SELECT id, metadata FROM vectors WHERE collection = ? AND source_id = ?', collectionName, sourceId);
+                for (const row of rows) {
+                    const metadata = { ...JSON.parse(row.metadata), tags: tags.join(',') };
+                    await db.run('UPDATE vectors SET metadata = ? WHERE collection = ? AND id = ?', JSON.stringify(metadata), collectionName, row.id);
+                }
+                return rows.length;
+            });
+            if (updated > 0) {
+                console.error(`Updated tags on ${updated} vectors in local collection '${collectionName}'.`);
+            }
+        },
+
+        async updateSourceMetadata(sourceId: number, metadata: Partial<VectorMetadata>) {
+            const db = await openVectorDb(filePath);
+            return withTransaction(db, async () => {
+                const rows = await db.all('SELECT id, metadata FROM vectors WHERE collection = ? AND source_id = ?', collectionName, sourceId);
+                for (const row of rows) {
+                    const merged = { ...JSON.parse(row.metadata), ...metadata };
+                    await db.run('UPDATE vectors SET metadata = ? WHERE collection = ? AND id = ?', JSON.stringify(merged), collectionName, row.id);
+                }
+                return rows.length;
+            });
+        },
+
+        async getSourceEmbeddings(sourceId: number) {
+            const db = await openVectorDb(filePath);
+            const rows = await db.all('SELECT id, embedding FROM vectors WHERE collection = ? AND source_id = ?', collectionName, sourceId);
+            return new Map(rows.map(row => [row.id as string, Array.from(fromBlob(row.embedding))]));
+        },
+
+        async listIds() {
+            const db = await openVectorDb(filePath);
+            const rows = await db.all('SELECT id FROM vectors WHERE collection = ?', collectionName);
+            return rows.map(row => row.id as string);
+        },
+
+        async deleteVectors(ids: string[]) {
+            const db = await openVectorDb(filePath);
+            const batchSize = 100;
+            await withTransaction(db, async () => {
+                for (let i = 0; i < ids.length; i += batchSize) {
+                    const batch = ids.slice(i, i + batchSize);
+                    await db.run(
+                        `DELETE FROM vectors WHERE collection = ? AND id IN (${batch.map(() => '?').join(',')})`,
+                        collectionName, ...batch
+                    );
+                }
+            });
+            console.error(`Deleted ${ids.length} vectors from local collection '${collectionName}'.`);
+        },
+
+        async deleteCollection() {
+            const db = await openVectorDb(filePath);
+            const result = await db.run('DELETE FROM vectors WHERE collection = ?', collectionName);
+            if (result.changes) {
+                console.error(`Deleted local collection '${collectionName}'.`);
+            }
+        },
+    };
+}
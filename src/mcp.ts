@@ -0,0 +1,279 @@
+import * as readline from 'readline';
+import { answerQuery, retrieveSources, QueryOptions } from './query';
+import { ingestSource, createWriteQueue } from './ingest';
+import { listSources, getSource, parseSourceFilter } from './sources';
+import { listTags } from './tags';
+import { getTarget, listTargets } from './targets';
+import { RETRIEVAL_MODES, RetrievalMode } from './retrieval';
+
+// Protocol revisions this server speaks, newest first
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'personal-rag-kb', version: '1.0.0' };
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const PARSE_ERROR = -32700;
+
+// Tool calls run concurrently, but ingestions (the only writes) one at a time
+const enqueueWrite = createWriteQueue();
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method?: string;
+    params?: any;
+}
+
+interface Tool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, any>;
+    // Resolves to the tool's result, or throws when its arguments are invalid
+    call: (args: any) => Promise<{ success: boolean, error?: string }>;
+}
+
+const stringArray = (description: string) => ({ type: 'array', items: { type: 'string' }, description });
+
+// Retrieval arguments shared by `search` and `ask`
+const RETRIEVAL_PROPERTIES = {
+    tags: stringArray('Only sources with all of these tags'),
+    anyTags: stringArray('Only sources with at least one of these tags'),
+    notTags: stringArray('Only sources with none of these tags'),
+    target: { type: 'string', description: "Knowledge base to search; defaults to the registry's default target" },
+    targets: stringArray('Several knowledge bases to search together, or ["*"] for all of them'),
+    mode: { type: 'string', enum: RETRIEVAL_MODES, description: 'Retrieval mode (default: hybrid)' },
+    topK: { type: 'integer', minimum: 1, description: 'Best-ranked chunks to use (default 10)' },
+    filter: {
+        type: 'object',
+        description: 'Only sources of these types, dates, domains or IDs',
+        properties: {
+            types: stringArray('Source types: article, video, pdf, text, tweet, reel'),
+            since: { type: 'string', description: 'Ingested on or after this date (YYYY-MM-DD) or within this age (e.g. 30d)' },
+            until: { type: 'string', description: 'Ingested before this date or age' },
+            domains: stringArray('Website domains, e.g. arxiv.org'),
+            ids: { type: 'array', items: { type: 'integer' }, description: 'Source IDs' },
+        },
+    },
+};
+
+// Arguments are checked against the input schema here, so a model gets an error it
+// can act on rather than one from deep inside the call
+function optionalString(value: unknown, name: string): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') throw new Error(`${name} must be a string.`);
+    return value;
+}
+
+function stringList(value: unknown, name: string): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) throw new Error(`${name} must be an array of strings.`);
+    return value;
+}
+
+function positiveInteger(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Number.isInteger(value) || (value as number) < 1) throw new Error(`${name} must be a positive integer.`);
+    return value as number;
+}
+
+function requireString(args: any, name: string): string {
+    if (typeof args[name] !== 'string' || !args[name].trim()) throw new Error(`${name} is required.`);
+    return args[name];
+}
+
+// Target names a search or ask covers: `targets` ("*" for all), else `target`
+function targetNames(args: any): string | string[] | undefined {
+    const targets = stringList(args.targets, 'targets');
+    if (targets && targets.length > 0) {
+        return targets.includes('*') ? listTargets().map(target => target.name) : targets;
+    }
+    return optionalString(args.target, 'target');
+}
+
+function queryOptions(args: any): QueryOptions {
+    if (args.mode !== undefined && !RETRIEVAL_MODES.includes(args.mode)) {
+        throw new Error(`mode must be one of ${RETRIEVAL_MODES.join(', ')}.`);
+    }
+    return {
+        mode: args.mode as RetrievalMode | undefined,
+        anyTags: stringList(args.anyTags, 'anyTags'),
+        notTags: stringList(args.notTags, 'notTags'),
+        topK: positiveInteger(args.topK, 'topK'),
+        filter: parseSourceFilter(args.filter),
+    };
+}
+
+const TOOLS: Tool[] = [
+    {
+        name: 'search',
+        description: 'Search the knowledge base and return the matching passages with their sources, without generating an answer. Use it to gather context to reason over yourself.',
+        inputSchema: { type: 'object', required: ['query'], properties: { query: { type: 'string' }, ...RETRIEVAL_PROPERTIES } },
+        call: async args => {
+            const query = requireString(args, 'query');
+            const names = targetNames(args);
+            const targets = Array.isArray(names) ? names.map(name => getTarget(name)) : getTarget(names);
+            const options = queryOptions(args);
+            const sources = await retrieveSources(targets, query, { all: stringList(args.tags, 'tags'), any: options.anyTags, not: options.notTags }, options.mode, options);
+            return { success: true, sources };
+        },
+    },
+    {
+        name: 'ask',
+        description: 'Answer a question from the knowledge base with the generation model. The answer cites its sources as [Source N]; each citation is checked against the cited text.',
+        inputSchema: { type: 'object', required: ['question'], properties: { question: { type: 'string' }, ...RETRIEVAL_PROPERTIES } },
+        call: async args => answerQuery(requireString(args, 'question'), stringList(args.tags, 'tags'), targetNames(args), queryOptions(args)),
+    },
+    {
+        name: 'ingest',
+        description: 'Add a web page, YouTube video, tweet or local file to the knowledge base. Extraction, classification and embedding can take a minute or more.',
+        inputSchema: {
+            type: 'object',
+            required: ['source'],
+            properties: {
+                source: { type: 'string', description: 'URL or local file path' },
+                tags: stringArray('Tags for the source'),
+                targets: stringArray("Knowledge bases to ingest into; defaults to the registry's default target"),
+            },
+        },
+        call: async args => {
+            const source = requireString(args, 'source');
+            const tags = stringList(args.tags, 'tags') || [];
+            const targets = stringList(args.targets, 'targets') || [];
+            return enqueueWrite(() => ingestSource(source, tags, targets));
+        },
+    },
+    {
+        name: 'list_sources',
+        description: 'List the sources of a knowledge base, newest first.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                target: { type: 'string' },
+                type: { type: 'string', description: 'Only sources of this type' },
+                tags: stringArray('Only sources with all of these tags'),
+                since: { type: 'string', description: 'Ingested on or after this date (YYYY-MM-DD) or within this age (e.g. 7d)' },
+                until: { type: 'string' },
+                limit: { type: 'integer', minimum: 1, description: 'Sources per page (default 20)' },
+                page: { type: 'integer', minimum: 1 },
+            },
+        },
+        call: async args => listSources(getTarget(optionalString(args.target, 'target')), {
+            type: optionalString(args.type, 'type'),
+            tags: { all: stringList(args.tags, 'tags') },
+            since: optionalString(args.since, 'since'),
+            until: optionalString(args.until, 'until'),
+            limit: positiveInteger(args.limit, 'limit'),
+            page: positiveInteger(args.page, 'page'),
+        }),
+    },
+    {
+        name: 'get_source',
+        description: 'Get one source by ID, URL or path, with its summary and tags, and optionally its full text.',
+        inputSchema: {
+            type: 'object',
+            required: ['ref'],
+            properties: {
+                ref: { type: 'string', description: 'Source ID, URL or path' },
+                target: { type: 'string' },
+                content: { type: 'boolean', description: 'Include the raw content (can be long)' },
+            },
+        },
+        call: async args => {
+            const ref = typeof args.ref === 'number' ? String(args.ref) : requireString(args, 'ref');
+            return getSource(getTarget(optionalString(args.target, 'target')), ref, args.content === true);
+        },
+    },
+    {
+        name: 'list_tags',
+        description: 'List the tags of a knowledge base with the number of sources carrying each.',
+        inputSchema: { type: 'object', properties: { target: { type: 'string' } } },
+        call: async args => listTags(getTarget(optionalString(args.target, 'target'))),
+    },
+];
+
+function send(message: Record<string, any>): void {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+/**
+ * Runs a tool. Failures are reported in the result (isError) rather than as protocol
+ * errors, so the calling model sees them and can correct its arguments.
+ */
+async function callTool(params: any): Promise<Record<string, any>> {
+    const tool = TOOLS.find(candidate => candidate.name === params?.name);
+    if (!tool) throw Object.assign(new Error(`Unknown tool: ${params?.name}`), { code: INVALID_PARAMS });
+
+    let result: { success: boolean, error?: string };
+    try {
+        result = await tool.call(params.arguments || {});
+    } catch (error: any) {
+        result = { success: false, error: error.message };
+    }
+    return {
+        content: [{ type: 'text', text: result.success ? JSON.stringify(result, null, 2) : `Error: ${result.error}` }],
+        isError: !result.success,
+    };
+}
+
+async function handleRequest(method: string, params: any): Promise<Record<string, any>> {
+    switch (method) {
+        case 'initialize': {
+            const requested = params?.protocolVersion;
+            return {
+                protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+                capabilities: { tools: {} },
+                serverInfo: SERVER_INFO,
+                instructions: `Personal knowledge base. Targets: ${listTargets().map(target => target.name).join(', ') || 'none'}. Use search for raw passages, ask for a cited answer.`,
+            };
+        }
+        case 'ping':
+            return {};
+        case 'tools/list':
+            return { tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+        case 'tools/call':
+            return callTool(params);
+        default:
+            throw Object.assign(new Error(`Method not found: ${method}`), { code: METHOD_NOT_FOUND });
+    }
+}
+
+async function handleLine(line: string): Promise<void> {
+    let message: JsonRpcMessage;
+    try {
+        message = JSON.parse(line);
+    } catch (error: any) {
+        send({ id: null, error: { code: PARSE_ERROR, message: `Parse error: ${error.message}` } });
+        return;
+    }
+    // Notifications (no id) and responses need no answer
+    if (message.id === undefined || message.id === null || !message.method) return;
+
+    try {
+        send({ id: message.id, result: await handleRequest(message.method, message.params) });
+    } catch (error: any) {
+        send({ id: message.id, error: { code: error.code ?? INVALID_PARAMS, message: error.message } });
+    }
+}
+
+/**
+ * Serves the knowledge base as Model Context Protocol tools over stdio (one JSON-RPC
+ * message per line) until stdin closes. Requests are handled concurrently, so a long
+ * ingestion doesn't hold up searches; ingestions queue behind each other. Progress
+ * messages go to stderr as usual.
+ */
+export async function startMcpServer(): Promise<void> {
+    // stdout carries the protocol: anything a library prints there would corrupt it
+    console.log = console.error;
+    console.error(`MCP server ready on stdio (tools: ${TOOLS.map(tool => tool.name).join(', ')}).`);
+
+    const pending = new Set<Promise<void>>();
+    const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        const handling = handleLine(line).finally(() => pending.delete(handling));
+        pending.add(handling);
+    }
+    await Promise.all(pending);
+}
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { config } from './config';
+import { LLMProvider } from './llm-provider';
+
+const CHAT_MODEL = "abab6.5s-chat"; // Efficient Minimax model
+
+function chatUrl(): string {
+    return `https://api.minimax.io/v1/text/chatcompletion_v2?GroupId=${config.minimaxGroupId || ''}`;
+}
+
+function headers() {
+    return {
+        'Authorization': `Bearer ${config.minimaxApiKey}`,
+        'Content-Type': 'application/json'
+    };
+}
+
+function chatMessages(prompt: string, systemInstruction?: string) {
+    const messages = [];
+    if (systemInstruction) {
+        messages.push({ role: "system", content: systemInstruction });
+    }
+    messages.push({ role: "user", content: prompt });
+    return messages;
+}
+
+/**
+ * Minimax REST API (chatcompletion_v2 and embeddings). Requires MINIMAX_API_KEY and
+ * MINIMAX_GROUP_ID.
+ */
+export function createMinimaxProvider(): LLMProvider {
+    return {
+        name: 'minimax',
+        defaultEmbeddingModel: 'embo-01',
+        contextTokens: 16000,
+
+        canGenerate: () => !!config.minimaxApiKey,
+        canEmbed: () => !!config.minimaxApiKey,
+
+        async generate(prompt: string, systemInstruction?: string) {
+            if (!config.minimaxApiKey) throw new Error("MINIMAX_API_KEY is not set.");
+            const response = await axios.post(chatUrl(), {
+                model: CHAT_MODEL,
+                messages: chatMessages(prompt, systemInstruction),
+                stream: false
+            }, { headers: headers() });
+
+            if (response && response.data && response.data.choices) {
+                return response.data.choices[0].message.content;
+            } else {
+                throw new Error("Minimax response structure unexpected: " + (response ? JSON.stringify(response.data) : "Empty response"));
+            }
+        },
+
+        /**
+         * Minimax streams server-sent events: "data: {json}" lines with the text in
+         * choices[0].delta.content, terminated by "data: [DONE]".
+         */
+        async *stream(prompt: string, systemInstruction?: string) {
+            if (!config.minimaxApiKey) throw new Error("MINIMAX_API_KEY is not set.");
+            const response = await axios.post(chatUrl(), {
+                model: CHAT_MODEL,
+                messages: chatMessages(prompt, systemInstruction),
+                stream: true
+            }, { headers: headers(), responseType: 'stream' });
+
+            let buffer = '';
+            let emitted = '';
+            for await (const data of response.data) {
+                buffer += data.toString('utf8');
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) >= 0) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (!line.startsWith('data:')) continue;
+
+                    const payload = line.slice('data:'.length).trim();
+                    if (payload === '[DONE]') return;
+                    const event = JSON.parse(payload);
+                    if (event.base_resp && event.base_resp.status_code) {
+                        throw new Error(`Minimax error ${event.base_resp.status_code}: ${event.base_resp.status_msg}`);
+                    }
+                    const choice = event.choices?.[0];
+                    const delta = choice?.delta?.content;
+                    // The closing chunk may repeat the whole answer; only pass on new text
+                    if (!delta || (choice.finish_reason && delta === emitted)) continue;
+                    emitted += delta;
+                    yield delta;
+                }
+            }
+        },
+
+        async embed(texts: string[], model: string) {
+            if (!config.minimaxApiKey) throw new Error("MINIMAX_API_KEY is not set.");
+            const response = await axios.post(`https://api.minimax.io/v1/embeddings?GroupId=${config.minimaxGroupId || ''}`, {
+                model: model,
+                texts: texts,
+                type: "db"
+            }, { headers: headers() });
+
+            if (response && response.data && response.data.vectors) {
+                return response.data.vectors;
+            } else {
+                throw new Error("Minimax embedding response structure unexpected: " + (response ? JSON.stringify(response.data) : "Empty response"));
+            }
+        },
+    };
+}
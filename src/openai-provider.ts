@@ -0,0 +1,101 @@
+import OpenAI from 'openai';
+import { LLMProvider } from './llm-provider';
+
+export interface OpenAISettings {
+    apiKey?: string;
+    baseURL?: string;        // Unset: api.openai.com
+    model?: string;          // Chat model used for generation
+    embeddingModel?: string; // Default embedding model
+    contextTokens: number;   // Context budget for the chat model (see LLMProvider)
+}
+
+/**
+ * Adapter for the OpenAI API and for any server implementing its chat completions
+ * and embeddings endpoints (llama.cpp server, Ollama, vLLM, LM Studio...), selected
+ * by baseURL. Settings are read on every call so the registry can be built before
+ * the configuration is loaded.
+ */
+export function createOpenAIProvider(name: string, getSettings: () => OpenAISettings): LLMProvider {
+    let client: OpenAI | null = null;
+    let clientKey = '';
+
+    function getClient(): OpenAI {
+        const settings = getSettings();
+        if (!settings.apiKey && !settings.baseURL) {
+            throw new Error(`${name} is not configured.`);
+        }
+        const key = `${settings.baseURL || ''}|${settings.apiKey || ''}`;
+        if (!client || clientKey !== key) {
+            // Local servers usually ignore the key, but the SDK requires one
+            client = new OpenAI({ apiKey: settings.apiKey || 'not-needed', baseURL: settings.baseURL || undefined });
+            clientKey = key;
+        }
+        return client;
+    }
+
+    function chatModel(): string {
+        const model = getSettings().model;
+        if (!model) throw new Error(`No generation model configured for ${name}.`);
+        return model;
+    }
+
+    function chatMessages(prompt: string, systemInstruction?: string): OpenAI.Chat.ChatCompletionMessageParam[] {
+        const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+        if (systemInstruction) {
+            messages.push({ role: "system", content: systemInstruction });
+        }
+        messages.push({ role: "user", content: prompt });
+        return messages;
+    }
+
+    const isConfigured = () => {
+        const settings = getSettings();
+        return !!(settings.apiKey || settings.baseURL);
+    };
+
+    return {
+        name,
+        get defaultEmbeddingModel() {
+            return getSettings().embeddingModel;
+        },
+        get contextTokens() {
+            return getSettings().contextTokens;
+        },
+
+        canGenerate: () => isConfigured() && !!getSettings().model,
+        canEmbed: () => isConfigured() && !!getSettings().embeddingModel,
+
+        async generate(prompt: string, systemInstruction?: string) {
+            const response = await getClient().chat.completions.create({
+                model: chatModel(),
+                messages: chatMessages(prompt, systemInstruction),
+            });
+            const content = response.choices[0]?.message?.content;
+            if (content === undefined || content === null) {
+                throw new Error(`${name} response structure unexpected: ${JSON.stringify(response)}`);
+            }
+            return content;
+        },
+
+        async *stream(prompt: string, systemInstruction?: string) {
+            const stream = await getClient().chat.completions.create({
+                model: chatModel(),
+                messages: chatMessages(prompt, systemInstruction),
+                stream: true,
+            });
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        },
+
+        async embed(texts: string[], model: string) {
+            // Ask for floats: the SDK otherwise requests base64, which local servers often ignore
+            const response = await getClient().embeddings.create({ model, input: texts, encoding_format: 'float' });
+            // Results carry their input index; don't rely on the server keeping the order
+            return response.data
+                .sort((a, b) => a.index - b.index)
+                .map(item => item.embedding);
+        },
+    };
+}
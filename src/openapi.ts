@@ -0,0 +1,273 @@
+// OpenAPI description of the `serve` HTTP API (see server.ts), served at /openapi.json
+
+const result = (properties: Record<string, any> = {}) => ({
+    type: 'object',
+    required: ['success'],
+    properties: { success: { type: 'boolean' }, error: { type: 'string' }, ...properties },
+});
+
+const json = (schema: any) => ({ content: { 'application/json': { schema } } });
+
+const targetParameter = {
+    name: 'target', in: 'query', schema: { type: 'string' },
+    description: "Target knowledge base; defaults to the registry's default target",
+};
+
+const failures = {
+    400: { description: 'The request was invalid or the operation failed', ...json({ $ref: '#/components/schemas/Result' }) },
+    401: { description: 'Missing or wrong bearer token', ...json({ $ref: '#/components/schemas/Result' }) },
+};
+
+const listOrString = (description: string) => ({
+    oneOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string', description: 'Comma-separated' }],
+    description,
+});
+
+export const OPENAPI_DOCUMENT = {
+    openapi: '3.0.3',
+    info: {
+        title: 'Personal RAG KB API',
+        version: '1.0.0',
+        description: 'Local HTTP API of the knowledge base. Results have the same shape as the CLI\'s --json output.',
+    },
+    servers: [{ url: 'http://127.0.0.1:8787' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+        '/health': {
+            get: {
+                summary: 'Check that the server is up',
+                security: [],
+                responses: { 200: { description: 'The server is up', ...json(result({ targets: { type: 'array', items: { type: 'string' } } })) } },
+            },
+        },
+        '/openapi.json': {
+            get: {
+                summary: 'This document',
+                security: [],
+                responses: { 200: { description: 'OpenAPI description', ...json({ type: 'object' }) } },
+            },
+        },
+        '/ingest': {
+            post: {
+                summary: 'Queue sources for ingestion',
+                description: 'Adds the sources to the job queue and returns their job IDs at once; poll /jobs/{id} for progress. The server ingests them itself unless started with --no-worker.',
+                requestBody: {
+                    required: true,
+                    ...json({
+                        type: 'object',
+                        properties: {
+                            source: { type: 'string', description: 'URL or local path' },
+                            sources: { type: 'array', items: { type: 'string' } },
+                            tags: listOrString('Tags for the sources'),
+                            targets: listOrString("Targets to ingest into; defaults to the registry's default target"),
+                        },
+                    }),
+                },
+                responses: {
+                    202: {
+                        description: 'Queued',
+                        ...json(result({
+                            jobs: { type: 'array', items: { type: 'object', properties: { id: { type: 'integer' }, source: { type: 'string' }, existing: { type: 'boolean' } } } },
+                            rejected: { type: 'array', items: { type: 'object', properties: { source: { type: 'string' }, error: { type: 'string' } } } },
+                        })),
+                    },
+                    ...failures,
+                },
+            },
+        },
+        '/jobs': {
+            get: {
+                summary: 'List ingestion jobs, newest first',
+                parameters: [
+                    { name: 'status', in: 'query', schema: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'] } },
+                    { name: 'limit', in: 'query', schema: { type: 'integer', default: 50 } },
+                ],
+                responses: { 200: { description: 'Jobs', ...json(result({ jobs: { type: 'array', items: { $ref: '#/components/schemas/Job' } } })) }, ...failures },
+            },
+        },
+        '/jobs/{id}': {
+            get: {
+                summary: 'Get an ingestion job',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+                responses: {
+                    200: { description: 'The job', ...json(result({ job: { $ref: '#/components/schemas/Job' } })) },
+                    404: { description: 'No such job', ...json({ $ref: '#/components/schemas/Result' }) },
+                    ...failures,
+                },
+            },
+        },
+        '/query': {
+            post: {
+                summary: 'Ask a question',
+                description: 'Answers from the knowledge base. With "stream": true (or Accept: text/event-stream) the answer is sent as server-sent events: `sources`, one `delta` per piece of text, then `done` carrying the result.',
+                requestBody: { required: true, ...json({ $ref: '#/components/schemas/QueryRequest' }) },
+                responses: {
+                    200: {
+                        description: 'The answer, or its event stream',
+                        content: {
+                            'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } },
+                            'text/event-stream': { schema: { type: 'string', description: 'event: sources|delta|done, data: the event as JSON' } },
+                        },
+                    },
+                    ...failures,
+                },
+            },
+        },
+        '/sources': {
+            get: {
+                summary: 'List sources, newest first',
+                parameters: [
+                    targetParameter,
+                    { name: 'type', in: 'query', schema: { type: 'string' } },
+                    { name: 'tags', in: 'query', schema: { type: 'string' }, description: 'Comma-separated; sources must have all of them' },
+                    { name: 'anyTags', in: 'query', schema: { type: 'string' }, description: 'Comma-separated; sources must have at least one' },
+                    { name: 'notTags', in: 'query', schema: { type: 'string' }, description: 'Comma-separated; sources must have none' },
+                    { name: 'since', in: 'query', schema: { type: 'string' }, description: 'YYYY-MM-DD or a relative age such as 7d' },
+                    { name: 'until', in: 'query', schema: { type: 'string' } },
+                    { name: 'nearDuplicates', in: 'query', schema: { type: 'boolean' } },
+                    { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+                    { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+                ],
+                responses: {
+                    200: {
+                        description: 'A page of sources',
+                        ...json(result({ target: { type: 'string' }, total: { type: 'integer' }, page: { type: 'integer' }, limit: { type: 'integer' }, sources: { type: 'array', items: { $ref: '#/components/schemas/SourceSummary' } } })),
+                    },
+                    ...failures,
+                },
+            },
+        },
+        '/sources/{ref}': {
+            parameters: [{ name: 'ref', in: 'path', required: true, schema: { type: 'string' }, description: 'Source ID, or its URL-encoded URL or path' }, targetParameter],
+            get: {
+                summary: 'Get a source',
+                parameters: [{ name: 'content', in: 'query', schema: { type: 'boolean' }, description: 'Include the raw content' }],
+                responses: {
+                    200: { description: 'The source', ...json(result({ target: { type: 'string' }, source: { $ref: '#/components/schemas/SourceSummary' } })) },
+                    404: { description: 'No such source', ...json({ $ref: '#/components/schemas/Result' }) },
+                    ...failures,
+                },
+            },
+            delete: {
+                summary: 'Delete a source with its chunks, vectors and archive files',
+                responses: {
+                    200: { description: 'Deleted', ...json(result({ target: { type: 'string' }, source: { type: 'object' }, chunks: { type: 'integer' }, archivedFiles: { type: 'array', items: { type: 'string' } } })) },
+                    404: { description: 'No such source', ...json({ $ref: '#/components/schemas/Result' }) },
+                    ...failures,
+                },
+            },
+        },
+        '/tags': {
+            get: {
+                summary: 'List tags with their source counts',
+                parameters: [targetParameter],
+                responses: {
+                    200: { description: 'Tags', ...json(result({ target: { type: 'string' }, tags: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, sources: { type: 'integer' } } } } })) },
+                    ...failures,
+                },
+            },
+        },
+        '/tags/rename': {
+            post: {
+                summary: 'Rename a tag',
+                parameters: [targetParameter],
+                requestBody: { required: true, ...json({ type: 'object', required: ['from', 'to'], properties: { from: { type: 'string' }, to: { type: 'string' } } }) },
+                responses: { 200: { description: 'Renamed', ...json({ $ref: '#/components/schemas/TagUpdateResult' }) }, ...failures },
+            },
+        },
+        '/tags/merge': {
+            post: {
+                summary: 'Merge tags into one',
+                parameters: [targetParameter],
+                requestBody: { required: true, ...json({ type: 'object', required: ['from', 'into'], properties: { from: listOrString('Tags to merge'), into: { type: 'string' } } }) },
+                responses: { 200: { description: 'Merged', ...json({ $ref: '#/components/schemas/TagUpdateResult' }) }, ...failures },
+            },
+        },
+        '/tags/{tag}': {
+            delete: {
+                summary: 'Remove a tag from every source',
+                parameters: [{ name: 'tag', in: 'path', required: true, schema: { type: 'string' } }, targetParameter],
+                responses: { 200: { description: 'Deleted', ...json({ $ref: '#/components/schemas/TagUpdateResult' }) }, ...failures },
+            },
+        },
+    },
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer', description: 'Required when the server was started with a token (--token or SERVER_TOKEN)' },
+        },
+        schemas: {
+            Result: result(),
+            TagUpdateResult: result({ target: { type: 'string' }, tag: { type: 'string' }, sources: { type: 'integer' } }),
+            Job: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer' },
+                    source: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } },
+                    status: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'] },
+                    stage: { type: 'string' },
+                    attempts: { type: 'integer' },
+                    max_attempts: { type: 'integer' },
+                    last_error: { type: 'string', nullable: true },
+                    next_attempt_at: { type: 'string' },
+                    created_at: { type: 'string' },
+                    updated_at: { type: 'string' },
+                    targets: { type: 'array', items: { type: 'object', properties: { target: { type: 'string' }, stage: { type: 'string' }, error: { type: 'string', nullable: true } } } },
+                },
+            },
+            SourceSummary: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer' },
+                    url: { type: 'string' },
+                    title: { type: 'string' },
+                    source_type: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } },
+                    chunks: { type: 'integer' },
+                    created_at: { type: 'string' },
+                    updated_at: { type: 'string' },
+                },
+            },
+            QueryRequest: {
+                type: 'object',
+                required: ['question'],
+                properties: {
+                    question: { type: 'string' },
+                    stream: { type: 'boolean', default: false },
+                    tags: listOrString('Sources must have all of these tags'),
+                    anyTags: listOrString('Sources must have at least one of these tags'),
+                    notTags: listOrString('Sources must have none of these tags'),
+                    target: { type: 'string' },
+                    targets: listOrString('Targets to query together'),
+                    allTargets: { type: 'boolean' },
+                    mode: { type: 'string', enum: ['vector', 'keyword', 'hybrid'], default: 'hybrid' },
+                    topK: { type: 'integer' },
+                    depth: { type: 'integer' },
+                    perSource: { type: 'integer' },
+                    neighbors: { type: 'integer' },
+                    contextTokens: { type: 'integer' },
+                    rerank: {
+                        type: 'object',
+                        properties: { mmr: { type: 'boolean' }, lambda: { type: 'number' }, llm: { type: 'boolean' }, minRelevance: { type: 'number' } },
+                    },
+                    filter: {
+                        type: 'object',
+                        properties: {
+                            types: { type: 'array', items: { type: 'string' } },
+                            since: { type: 'string' },
+                            until: { type: 'string' },
+                            domains: { type: 'array', items: { type: 'string' } },
+                            ids: { type: 'array', items: { type: 'integer' } },
+                        },
+                    },
+                },
+            },
+            QueryResult: result({
+                answer: { type: 'string' },
+                sources: { type: 'array', items: { type: 'object', description: 'Retrieved sources with their passages, scores and target' } },
+                claims: { type: 'array', items: { type: 'object' } },
+                citations: { type: 'array', items: { type: 'object' } },
+            }),
+        },
+    },
+};
@@ -1,102 +1,548 @@
 
-import { getEmbeddings, generateText } from './llm-provider';
-import { queryVectorStore } from './vector-store';
+import { Database } from 'sqlite';
+import { getEmbeddings, generateTextStream, contextTokenBudget } from './llm-provider';
+import { getVectorStore, toUnixTime, WhereFilter } from './vector-store';
+import { keywordSearch, fuseRankings, fromVectorMatches, RetrievalMode, RetrievedChunk, RRF_K } from './retrieval';
+import { getTarget, TargetConfig } from './targets';
+import { getActiveCollection, getCollectionModel, assertSameModel, getMetadataVersion, VECTOR_METADATA_VERSION, CollectionRecord } from './collections';
+import { initializeSchema, getDbConnection } from './database';
+import { TagFilter, hasTagFilter, findTaggedSourceIds, describeTagFilter } from './tags';
+import { SourceFilter, hasSourceFilter, describeSourceFilter, validateSourceFilter, normalizeDomain, parseDateOption } from './sources';
+import { ChunkLocation } from './embedder';
+import { countTokens } from './chunker';
+import { RerankSettings, rerankCandidates, validateRerankSettings, normalizedScores, selectMmr } from './rerank';
+import { analyzeCitations, Claim, Citation } from './citations';
 
-export interface QuerySource {
+// A run of consecutive chunks of a source, or its summary
+export interface Passage extends ChunkLocation {
+    content: string;
+    chunk_indexes: number[];  // Chunks joined into the passage; [-1] for the summary
+    chunk_ids: number[];      // Their IDs in the chunks table
+    kind?: 'summary';
+}
+
+export interface QuerySource extends ChunkLocation {
+    target?: string;       // Target the source was retrieved from
+    alsoIn?: string[];     // Other queried targets holding the same source (same URL or content)
+    source_id: number;     // ID in the source's target
     url: string;
     title: string;
-    content: string;
-    distance: number;
+    content: string;       // The passages, joined
+    passages?: Passage[];  // In document order, the summary first
+    kind?: 'summary';      // Set when the only match is the source's summary
+    distance?: number;     // Vector distance (vector and hybrid modes)
+    keywordScore?: number; // BM25 score (keyword and hybrid modes)
+    score?: number;        // Reciprocal rank fusion score (hybrid mode)
+    normalizedScore?: number; // Retrieval score from 0 to 1 within its target
+    relevance?: number;    // LLM relevance from 0 to 1 (LLM reranking)
+    mmrScore?: number;     // Score MMR picked the match with (MMR reranking)
+}
+
+export interface RetrievalOptions {
+    topK?: number;          // Best-ranked chunks the context is built from (default 10), across all targets
+    depth?: number;         // Candidates each retriever returns and the reranker chooses from, per target (default 3 × topK)
+    perSource?: number;     // Matching chunks used per source (default 3)
+    neighbors?: number;     // Adjacent chunks added on each side of a match (default 1)
+    contextTokens?: number; // Token budget of the context (default: the chat model's, see contextTokenBudget)
+    rerank?: Partial<RerankSettings>; // Overrides the target's rerank settings
+    filter?: SourceFilter;  // Only sources of these types, dates, domains or IDs
+}
+
+export interface QueryOptions extends RetrievalOptions {
+    mode?: RetrievalMode; // Default: hybrid
+    anyTags?: string[];   // Sources must have at least one of these
+    notTags?: string[];   // Sources must have none of these
 }
 
 export interface QueryResult {
     success: boolean;
     answer?: string;
     sources?: QuerySource[];
+    claims?: Claim[];        // The answer's sentences, with the citations each carries
+    citations?: Citation[];  // Every [Source N] citation, checked against the sources
     error?: string;
 }
 
-export async function answerQuery(query: string, tags: string[] = [], target: string = 'pablo'): Promise<QueryResult> {
-    if (!query) {
-        console.error("A query is required.");
-        return { success: false, error: "A query is required." };
-    }
+// Events of a streamed answer: the retrieved sources, then text deltas, then the result
+export type QueryEvent =
+    | { type: 'sources', sources: QuerySource[] }
+    | { type: 'delta', text: string }
+    | ({ type: 'done' } & QueryResult);
 
-    console.error(`Querying target \'${target}\' with: "${query}"`);
+// Where clauses selecting the vectors of the sources a source filter matches
+function sourceFilterClauses(filter: SourceFilter): WhereFilter[] {
+    const clauses: WhereFilter[] = [];
+    if (filter.types && filter.types.length > 0) clauses.push({ source_type: { "$in": filter.types } });
+    if (filter.since) clauses.push({ created_at: { "$gte": toUnixTime(parseDateOption(filter.since)) } });
+    if (filter.until) clauses.push({ created_at: { "$lt": toUnixTime(parseDateOption(filter.until, true)) } });
+    if (filter.domains && filter.domains.length > 0) clauses.push({ domain: { "$in": filter.domains.map(normalizeDomain) } });
+    if (filter.ids && filter.ids.length > 0) clauses.push({ source_id: { "$in": filter.ids } });
+    return clauses;
+}
+
+/**
+ * Embeds the question with the model the collection was built with and searches
+ * the target's active collection. Tag filters are resolved to source IDs in SQLite
+ * so they match exactly whatever the vector store backend; source filters match the
+ * vectors' metadata, which vectors of collections that predate it lack until
+ * `doctor --backfill-metadata` adds it.
+ */
+async function vectorSearch(target: TargetConfig, query: string, tags: TagFilter, filter: SourceFilter, topN: number): Promise<RetrievedChunk[]> {
+    const clauses: WhereFilter[] = [];
+    if (hasTagFilter(tags)) {
+        const sourceIds = await findTaggedSourceIds(await getDbConnection(target.dbPath), tags);
+        if (sourceIds.length === 0) return [];
+        clauses.push({ source_id: { "$in": sourceIds } });
+    }
+    if (hasSourceFilter(filter)) {
+        if (await getMetadataVersion(target) < VECTOR_METADATA_VERSION) {
+            console.error(`Warning: the vectors of target ${target.name} predate source filters, so older ones never match them; run \`doctor --target ${target.name} --backfill-metadata\`.`);
+        }
+        clauses.push(...sourceFilterClauses(filter));
+    }
+    const whereFilter = clauses.length > 1 ? { "$and": clauses } : clauses[0] || {};
 
-    // 1. Embed query (Agnostic)
     console.error("Embedding query...");
+    let collection: CollectionRecord | undefined;
     let queryVector: number[];
     try {
-        const embeddings = await getEmbeddings([query]);
-        queryVector = embeddings[0];
+        collection = await getActiveCollection(target);
+        const result = await getEmbeddings([query], collection ? getCollectionModel(collection) : undefined);
+        assertSameModel(collection, result);
+        queryVector = result.embeddings[0];
     } catch (error: any) {
-        console.error("Failed to embed query:", error.message);
-        return { success: false, error: `Failed to embed query: ${error.message}` };
+        throw new Error(`Failed to embed query: ${error.message}`);
     }
 
-    // 2. Query Vector Store (ChromaDB)
-    console.error(`Querying vector store... (tags: ${tags.join(', ') || 'none'})`);
-    const collectionName = `${target}_kb`; 
-    
-    const whereFilter = tags.length > 0 
-        ? { "$and": tags.map(tag => ({ "tags": { "$contains": tag } })) }
-        : {};
+    console.error("Querying vector store...");
+    const collectionName = collection ? collection.name : target.collectionName;
 
-    const searchResults = await queryVectorStore(collectionName, queryVector, 10, whereFilter);
-    
-    const metadatas = searchResults.metadatas?.[0] || [];
-    const distances = (searchResults.distances?.[0] || []) as number[];
+    try {
+        return fromVectorMatches(await getVectorStore(target, collectionName).query(queryVector, topN, whereFilter));
+    } catch (error: any) {
+        throw new Error(`Failed to query vector store: ${error.message}`);
+    }
+}
 
-    if (metadatas.length === 0) {
-        console.error("Could not find any relevant context.");
-        return { success: true, answer: "No relevant context found in the knowledge base.", sources: [] };
-    }
-    
-    // 3. Deduplicate
-    const bestChunksPerSource = new Map<string, {metadata: any, distance: number}>();
-    for(let i = 0; i < metadatas.length; i++) {
-        const metadata = metadatas[i];
-        const distance = distances[i];
-        if (!metadata || !metadata.url) continue;
-        // @ts-ignore
-        if (!bestChunksPerSource.has(metadata.url) || bestChunksPerSource.get(metadata.url)!.distance > distance) {
-            bestChunksPerSource.set(metadata.url as string, { metadata, distance });
+const DEFAULT_TOP_K = 10;
+const DEFAULT_PER_SOURCE = 3;
+const DEFAULT_NEIGHBORS = 1;
+
+interface ChunkRow extends ChunkLocation {
+    id: number;
+    chunk_index: number;
+    content: string;
+    kind: string;
+}
+
+const CHUNK_COLUMNS = 'id, chunk_index, content, kind, page, section, start_time';
+
+function rowLocation(row: ChunkRow): ChunkLocation {
+    return {
+        ...(row.page != null ? { page: row.page } : {}),
+        ...(row.section != null ? { section: row.section } : {}),
+        ...(row.start_time != null ? { start_time: row.start_time } : {}),
+    };
+}
+
+// The chunks row of a match. Vectors without one are stale (see doctor) and are skipped.
+async function matchRow(db: Database, match: RetrievedChunk): Promise<ChunkRow | undefined> {
+    const id = match.id.match(/^chunk_\d+_(\d+)$/);
+    return id ? db.get(`SELECT ${CHUNK_COLUMNS} FROM chunks WHERE id = ?`, Number(id[1])) : undefined;
+}
+
+// A content chunk and up to `count` chunks on each side of it
+async function withNeighbors(db: Database, sourceId: number, row: ChunkRow, count: number): Promise<ChunkRow[]> {
+    if (row.kind === 'summary' || count === 0) return [row];
+    return db.all(
+        `SELECT ${CHUNK_COLUMNS} FROM chunks WHERE source_id = ? AND kind = 'content' AND chunk_index BETWEEN ? AND ? ORDER BY chunk_index`,
+        sourceId, row.chunk_index - count, row.chunk_index + count
+    );
+}
+
+// Consecutive chunks repeat the end of the previous chunk (the overlap, re-joined with
+// single spaces); keep it once. A word is at least one token, so the overlap has at
+// most `maxWords` words: repetitive text isn't collapsed beyond that.
+function joinChunks(previous: string, next: string, maxWords: number): string {
+    const previousWords = previous.split(/\s+/).filter(word => word.length > 0);
+    const nextWords = next.split(/\s+/).filter(word => word.length > 0);
+    for (let count = Math.min(maxWords, previousWords.length, nextWords.length - 1); count > 0; count--) {
+        if (nextWords.slice(0, count).every((word, i) => word === previousWords[previousWords.length - count + i])) {
+            return `${previous} ${next.replace(new RegExp(`^\\s*(?:\\S+\\s+){${count}}`), '')}`;
+        }
+    }
+    return `${previous} ${next}`;
+}
+
+// Joins a source's chunks into passages: the summary, then runs of consecutive chunks
+function toPassages(rows: ChunkRow[], maxOverlap: number): Passage[] {
+    const passages: Passage[] = [];
+    let previous: ChunkRow | undefined;
+    for (const row of [...rows].sort((a, b) => a.chunk_index - b.chunk_index)) {
+        const last = passages[passages.length - 1];
+        if (row.kind === 'summary') {
+            passages.push({ content: row.content, chunk_indexes: [row.chunk_index], chunk_ids: [row.id], kind: 'summary' });
+        } else if (last && last.kind !== 'summary' && previous?.chunk_index === row.chunk_index - 1) {
+            // Chunks of different sections are chunked separately and don't overlap
+            last.content = previous.section === row.section ? joinChunks(last.content, row.content, maxOverlap) : `${last.content}\n\n${row.content}`;
+            last.chunk_indexes.push(row.chunk_index);
+            last.chunk_ids.push(row.id);
+        } else {
+            passages.push({ content: row.content, chunk_indexes: [row.chunk_index], chunk_ids: [row.id], ...rowLocation(row) });
+        }
+        previous = row;
+    }
+    return passages;
+}
+
+// A ranked chunk and the target it was retrieved from
+interface TargetMatch {
+    target: TargetConfig;
+    db: Database;
+    chunk: RetrievedChunk;
+}
+
+interface SourceContext {
+    target: TargetConfig;
+    best: RetrievedChunk;           // Best-ranked match of the source
+    bestIndex: number;
+    matches: number;
+    chunks: Map<number, ChunkRow>;  // By chunk_index
+}
+
+// Largest overlap a target's chunks may have, which bounds the overlap removed when joining them
+function maxOverlapTokens(target: TargetConfig): number {
+    const { bySourceType, ...chunking } = target.chunking;
+    return Math.max(chunking.overlapTokens, ...Object.values(bySourceType).map(options => options.overlapTokens ?? 0));
+}
+
+/**
+ * Builds the context from ranked matches, best first: each match brings its
+ * neighboring chunks, up to `perSource` matches per source, while the total stays
+ * within the token budget. A match whose neighbors don't fit is added alone; one that
+ * doesn't fit at all is skipped. Each source's chunks are then joined into passages.
+ */
+async function assembleContext(ranked: TargetMatch[], perSource: number, neighbors: number, budget: number): Promise<QuerySource[]> {
+    const contexts = new Map<string, SourceContext>();
+    let used = 0;
+    for (const { target, db, chunk: match } of ranked) {
+        const url = match.metadata.url;
+        const key = `${target.name}\n${url}`;
+        const context = contexts.get(key);
+        if (!url || (context && context.matches >= perSource)) continue;
+        const row = await matchRow(db, match);
+        if (!row || context?.chunks.has(row.chunk_index)) continue;
+
+        let added = (await withNeighbors(db, match.metadata.source_id, row, neighbors)).filter(chunk => !context?.chunks.has(chunk.chunk_index));
+        let tokens = added.reduce((sum, chunk) => sum + countTokens(chunk.content), 0);
+        if (used + tokens > budget) {
+            added = [row];
+            tokens = countTokens(row.content);
+            if (used + tokens > budget) continue;
+        }
+
+        const source = context || { target, best: match, bestIndex: row.chunk_index, matches: 0, chunks: new Map() };
+        contexts.set(key, source);
+        source.matches++;
+        added.forEach(chunk => source.chunks.set(chunk.chunk_index, chunk));
+        used += tokens;
+    }
+    console.error(`Context: ${contexts.size} source(s), ~${used} of ${budget} tokens.`);
+
+    return Array.from(contexts.values()).map(({ target, best, bestIndex, chunks }) => {
+        const passages = toPassages(Array.from(chunks.values()), maxOverlapTokens(target));
+        const bestPassage = passages.find(passage => passage.chunk_indexes.includes(bestIndex))!;
+        const { content, chunk_indexes, chunk_ids, kind, ...location } = bestPassage;
+        return {
+            target: target.name,
+            source_id: best.metadata.source_id,
+            url: best.metadata.url,
+            title: best.metadata.title,
+            content: passages.map(passage => passage.content).join('\n\n'),
+            passages,
+            ...location,
+            ...(passages.every(passage => passage.kind === 'summary') ? { kind: 'summary' as const } : {}),
+            distance: best.distance,
+            keywordScore: best.keywordScore,
+            score: best.score,
+            normalizedScore: best.normalizedScore,
+            relevance: best.relevance,
+            mmrScore: best.mmrScore,
+        };
+    });
+}
+
+/**
+ * Retrieves and reranks one target's candidates: vector search, BM25 keyword search
+ * over chunks_fts, or both fused; each candidate's retrieval score is normalized
+ * within the target before the reranker keeps `topK` of them.
+ */
+async function rankTarget(target: TargetConfig, query: string, tagFilter: TagFilter, filter: SourceFilter, mode: RetrievalMode, topK: number, depth: number, rerankOverrides: Partial<RerankSettings> = {}): Promise<TargetMatch[]> {
+    const rerank = { ...target.rerank, ...rerankOverrides };
+    validateRerankSettings(rerank, 'rerank');
+
+    console.error(`Retrieving context from ${target.name} (mode: ${mode}, tags: ${describeTagFilter(tagFilter)}, sources: ${describeSourceFilter(filter)})...`);
+    await initializeSchema(target.dbPath);
+    const db = await getDbConnection(target.dbPath);
+    const vectorResults = mode !== 'keyword' ? await vectorSearch(target, query, tagFilter, filter, depth) : [];
+    const keywordResults = mode !== 'vector' ? await keywordSearch(db, query, depth, tagFilter, filter) : [];
+    let ranked: RetrievedChunk[];
+    if (mode === 'hybrid') {
+        console.error(`Fusing ${vectorResults.length} vector and ${keywordResults.length} keyword results...`);
+        ranked = fuseRankings([vectorResults, keywordResults], depth);
+    } else {
+        ranked = mode === 'vector' ? vectorResults : keywordResults;
+    }
+    const scores = normalizedScores(ranked);
+    ranked = await rerankCandidates(query, ranked.map((chunk, i) => ({ ...chunk, normalizedScore: scores[i] })), topK, rerank);
+    return ranked.map(chunk => ({ target, db, chunk }));
+}
+
+// What identifies a source across targets: its normalized URL and its content hash
+async function sourceKeys(match: TargetMatch): Promise<string[]> {
+    const row = await match.db.get('SELECT normalized_url, content_hash FROM sources WHERE id = ?', match.chunk.metadata.source_id);
+    return row ? [`url:${row.normalized_url}`, `hash:${row.content_hash}`] : [];
+}
+
+/**
+ * Ranks several targets' matches together and keeps the best `topK`. Raw scores of
+ * different collections and embedding models are not comparable, so the targets'
+ * rankings are fused by rank (Reciprocal Rank Fusion), unless the LLM reranker scored
+ * every match on its shared 0-1 scale. MMR then picks among the merged matches, when
+ * `rerank.mmr` is on. A source ingested into several targets is kept from the target
+ * where it ranks best; `alsoIn` lists the others, by `${target}:${source_id}` of the
+ * kept source.
+ */
+async function mergeTargets(lists: TargetMatch[][], topK: number, rerank: RerankSettings): Promise<{ matches: TargetMatch[], alsoIn: Map<string, Set<string>> }> {
+    const llmScored = lists.every(list => list.every(({ chunk }) => chunk.relevance !== undefined));
+    // Array.sort is stable: ties keep the order of the targets
+    const merged = lists
+        .flatMap(list => list.map((match, rank) => ({ match, score: llmScored ? match.chunk.relevance! : 1 / (RRF_K + rank + 1) })))
+        .sort((a, b) => b.score - a.score);
+
+    const owners = new Map<string, { target: string, sourceId: number }>();
+    const alsoIn = new Map<string, Set<string>>();
+    const keysBySource = new Map<string, string[]>();
+    const matches: TargetMatch[] = [];
+    const scores: number[] = [];
+    for (const { match, score } of merged) {
+        const sourceKey = `${match.target.name}:${match.chunk.metadata.source_id}`;
+        if (!keysBySource.has(sourceKey)) keysBySource.set(sourceKey, await sourceKeys(match));
+        const keys = keysBySource.get(sourceKey)!;
+        const owner = keys.map(key => owners.get(key)).find(found => !!found) || { target: match.target.name, sourceId: match.chunk.metadata.source_id };
+        keys.forEach(key => { if (!owners.has(key)) owners.set(key, owner); });
+        if (owner.target !== match.target.name) {
+            const ownerKey = `${owner.target}:${owner.sourceId}`;
+            alsoIn.set(ownerKey, (alsoIn.get(ownerKey) || new Set()).add(match.target.name));
+            continue;
         }
+        matches.push(match);
+        scores.push(score);
     }
+    console.error(`Merged ${merged.length} candidates from ${lists.length} targets; ${merged.length - matches.length} duplicated another target's source.`);
+    if (!rerank.mmr) return { matches: matches.slice(0, topK), alsoIn };
 
-    const finalContextChunks = Array.from(bestChunksPerSource.values())
-        .sort((a, b) => a.distance - b.distance);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const relevance = scores.map(score => max > min ? (score - min) / (max - min) : 1);
+    const selected = selectMmr(matches.map(match => ({ ...match.chunk, match })), topK, rerank.lambda, relevance);
+    return { matches: selected.map(({ match, ...chunk }) => ({ ...match, chunk })), alsoIn };
+}
+
+/**
+ * Retrieves context for a query from one target or several: ranks each target's
+ * candidates (see rankTarget), merges the targets' rankings (see mergeTargets) and
+ * assembles the best `topK` chunks with their neighbors into passages per source
+ * within the token budget. Throws on failure, or with several targets when every
+ * one of them fails.
+ */
+export async function retrieveSources(targets: TargetConfig | TargetConfig[], query: string, tagFilter: TagFilter = {}, mode: RetrievalMode = 'hybrid', options: RetrievalOptions = {}): Promise<QuerySource[]> {
+    const targetList = Array.isArray(targets) ? targets : [targets];
+    if (targetList.length === 0) throw new Error("No targets to retrieve from.");
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const depth = options.depth ?? topK * 3;
+    const perSource = options.perSource ?? DEFAULT_PER_SOURCE;
+    const neighbors = options.neighbors ?? DEFAULT_NEIGHBORS;
+    const budget = options.contextTokens ?? contextTokenBudget();
+    for (const [name, value, min] of [['topK', topK, 1], ['depth', depth, topK], ['perSource', perSource, 1], ['neighbors', neighbors, 0], ['contextTokens', budget, 1]] as const) {
+        if (!Number.isInteger(value) || value < min) throw new Error(`${name} must be an integer of at least ${min}.`);
+    }
+    const filter = options.filter || {};
+    validateSourceFilter(filter);
 
-    const sources: QuerySource[] = finalContextChunks.map(chunk => ({
-        url: chunk.metadata.url,
-        title: chunk.metadata.title,
-        content: chunk.metadata.content,
-        distance: chunk.distance,
-    }));
+    if (targetList.length === 1) {
+        return assembleContext(await rankTarget(targetList[0], query, tagFilter, filter, mode, topK, depth, options.rerank), perSource, neighbors, budget);
+    }
+
+    // With several targets, one that fails (e.g. its vector store is down) is left out
+    const lists: TargetMatch[][] = [];
+    const failures: string[] = [];
+    for (const target of targetList) {
+        try {
+            // MMR runs once the targets are merged, so it sees every target's matches
+            lists.push(await rankTarget(target, query, tagFilter, filter, mode, topK, depth, { ...options.rerank, mmr: false }));
+        } catch (error: any) {
+            console.error(`Skipping target ${target.name}:`, error.message);
+            failures.push(`${target.name}: ${error.message}`);
+        }
+    }
+    if (lists.length === 0) throw new Error(`Retrieval failed in every target (${failures.join('; ')})`);
 
-    // 4. Generate Answer (Agnostic)
-    const context = sources.map((s, i) => 
-        `Source ${i+1} (URL: ${s.url}, Title: ${s.title}):\n${s.content}`
-    ).join('\n\n---\n\n');
+    const { matches, alsoIn } = await mergeTargets(lists, topK, { ...targetList[0].rerank, ...options.rerank });
+    const sources = await assembleContext(matches, perSource, neighbors, budget);
+    return sources.map(source => {
+        const others = alsoIn.get(`${source.target}:${source.source_id}`);
+        return others ? { ...source, alsoIn: Array.from(others) } : source;
+    });
+}
+
+function formatTimestamp(seconds: number): string {
+    const total = Math.floor(seconds);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor(total / 60) % 60;
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(total % 60)}` : `${minutes}:${pad(total % 60)}`;
+}
+
+/**
+ * Where in its source a retrieved excerpt or passage starts: "p. 12", "§ Setup >
+ * Installation" or "12:34". Undefined for sources chunked without location metadata.
+ */
+export function formatLocation(source: ChunkLocation & { kind?: 'summary' }): string | undefined {
+    if (source.kind === 'summary') return undefined;
+    if (source.page != null) return `p. ${source.page}`;
+    if (source.section) return `§ ${source.section}`;
+    if (source.start_time != null) return formatTimestamp(source.start_time);
+    return undefined;
+}
+
+/**
+ * The source URL, deep-linked to the excerpt's timestamp for YouTube videos (&t=754s).
+ */
+export function citationUrl(source: QuerySource): string {
+    if (source.start_time == null || source.kind === 'summary') return source.url;
+    try {
+        const url = new URL(source.url);
+        if (!url.hostname.includes('youtube.com') && !url.hostname.includes('youtu.be')) return source.url;
+        url.searchParams.set('t', `${Math.floor(source.start_time)}s`);
+        return url.toString();
+    } catch {
+        return source.url;
+    }
+}
+
+// One line per source for human-readable output: "Title, p. 12, p. 15 (url)"
+export function formatCitation(source: QuerySource): string {
+    const locations = new Set((source.passages || [source]).map(formatLocation).filter(location => location));
+    return `${source.title}${Array.from(locations).map(location => `, ${location}`).join('')} (${citationUrl(source)})`;
+}
+
+// A source's context in the prompt: its passages, each labelled when there are several
+function formatSourceContext(source: QuerySource): string {
+    if (!source.passages || source.passages.length <= 1) return source.content;
+    return source.passages.map(passage => {
+        const location = formatLocation(passage);
+        const label = passage.kind === 'summary' ? 'Summary of the whole source' : location ? `Excerpt, Location: ${location}` : 'Excerpt';
+        return `[${label}]\n${passage.content}`;
+    }).join('\n\n');
+}
 
-    const prompt = `
+/**
+ * Prompt asking the LLM to answer from the numbered sources only. `history` is an
+ * optional transcript of earlier turns (used by chat) to resolve references.
+ */
+export function buildAnswerPrompt(question: string, sources: QuerySource[], history?: string): string {
+    const context = sources.map((s, i) => {
+        const location = formatLocation(s);
+        const excerpts = s.passages && s.passages.length > 1;
+        const details = excerpts ? '' : s.kind === 'summary' ? ', summary of the whole source' : location ? `, Location: ${location}` : '';
+        const origin = s.target ? `Target: ${s.target}, ` : '';
+        return `Source ${i+1} (${origin}URL: ${citationUrl(s)}, Title: ${s.title}${details}):\n${formatSourceContext(s)}`;
+    }).join('\n\n---\n\n');
+
+    const conversation = history
+        ? `\n        Conversation so far (use it only to understand what the question refers to, not as a source of facts):\n${history}\n`
+        : '';
+
+    return `
         Answer the following question using ONLY the provided context. 
         If the context does not contain enough information, state that you cannot answer the question.
-        Cite which sources you drew from by referencing the Source numbers (e.g., [Source 1]).
-        
-        Question: ${query}
+        Cite which sources you drew from by referencing the Source numbers (e.g., [Source 1]), adding the Location when a source has one (e.g., [Source 2, p. 12]).
+        ${conversation}
+        Question: ${question}
         
         Context:
         ${context}
     `;
+}
+
+/**
+ * Answers a query as a stream of events: `sources` once retrieval is done, a `delta`
+ * per chunk of generated text, and always a final `done` carrying the QueryResult.
+ * `target` is a target name, or several names to search together (see retrieveSources).
+ */
+export async function* streamQuery(query: string, tags: string[] = [], target?: string | string[], options: QueryOptions = {}): AsyncGenerator<QueryEvent> {
+    if (!query) {
+        console.error("A query is required.");
+        yield { type: 'done', success: false, error: "A query is required." };
+        return;
+    }
+
+    let targetConfigs: TargetConfig[];
+    try {
+        const names = Array.isArray(target) ? Array.from(new Set(target)) : [target];
+        if (names.length === 0) throw new Error("No targets to query.");
+        targetConfigs = names.map(name => getTarget(name));
+    } catch (error: any) {
+        console.error(error.message);
+        yield { type: 'done', success: false, error: error.message };
+        return;
+    }
+
+    const names = targetConfigs.map(targetConfig => `'${targetConfig.name}'`).join(', ');
+    console.error(`Querying ${targetConfigs.length > 1 ? 'targets' : 'target'} ${names} with: "${query}"`);
+
+    // 1. Retrieve
+    let sources: QuerySource[];
+    try {
+        sources = await retrieveSources(targetConfigs, query, { all: tags, any: options.anyTags, not: options.notTags }, options.mode, options);
+    } catch (error: any) {
+        console.error(error.message);
+        yield { type: 'done', success: false, error: error.message };
+        return;
+    }
+    yield { type: 'sources', sources };
+
+    if (sources.length === 0) {
+        console.error("Could not find any relevant context.");
+        yield { type: 'done', success: true, answer: "No relevant context found in the knowledge base.", sources: [] };
+        return;
+    }
+
+    // 2. Generate Answer (Agnostic)
+    const prompt = buildAnswerPrompt(query, sources);
 
     console.error("Generating final answer...");
+    let answer = '';
     try {
-        const answer = await generateText(prompt);
-        return { success: true, answer, sources };
+        for await (const text of generateTextStream(prompt)) {
+            answer += text;
+            yield { type: 'delta', text };
+        }
     } catch (error: any) {
         console.error("Failed to generate answer:", error.message);
-        return { success: false, error: `Failed to generate answer: ${error.message}` };
+        yield { type: 'done', success: false, error: `Failed to generate answer: ${error.message}` };
+        return;
+    }
+    yield { type: 'done', success: true, answer, sources, ...analyzeCitations(answer, sources) };
+}
+
+export async function answerQuery(query: string, tags: string[] = [], target?: string | string[], options: QueryOptions = {}): Promise<QueryResult> {
+    for await (const event of streamQuery(query, tags, target, options)) {
+        if (event.type === 'done') {
+            const { type, ...result } = event;
+            return result;
+        }
     }
+    return { success: false, error: "The answer stream ended without a result." };
 }
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import { Database } from 'sqlite';
+import { withTransaction } from './database';
+import { openTargetDb, findSource, parseDateOption } from './sources';
+import { ingestFromSource, ExtractedContent } from './extractor';
+import { embedChunks, Chunk } from './embedder';
+import { chunkExtracted, chunkingOptionsFor } from './chunker';
+import { getVectorStore } from './vector-store';
+import { getActiveCollection, getCollectionModel, recordCollection } from './collections';
+import { embeddingModelKey } from './llm-provider';
+import { archiveSource, findArchivedFiles } from './archive';
+import { computeSimhash } from './duplicates';
+import { summarizeContent } from './summarizer';
+import { withIngestLock } from './ingest';
+import { TargetConfig } from './targets';
+
+export interface RefreshOptions {
+    all?: boolean;          // Every source of the target
+    olderThan?: string;     // Only sources not refreshed (or added) within this age, e.g. 30d, or before a date
+}
+
+export type RefreshStatus = 'changed' | 'unchanged' | 'failed';
+
+export interface RefreshItemResult {
+    id: number;
+    url: string;
+    status: RefreshStatus;
+    version?: number;       // History version number the replaced content was saved as
+    chunks?: number;        // Chunks of the new content
+    error?: string;
+}
+
+export interface RefreshResult {
+    success: boolean;       // True when no source failed
+    target?: string;
+    total?: number;
+    changed?: number;
+    unchanged?: number;
+    failed?: number;
+    results?: RefreshItemResult[];
+    error?: string;
+}
+
+/**
+ * Re-extracts one source and, if its content hash changed, saves the old content as a
+ * version and replaces the content, chunks, vectors and archive file. SQLite is
+ * updated in one transaction before the vectors are swapped; if the vector store
+ * then fails, `doctor --reembed` restores the missing vectors.
+ */
+async function refreshOne(target: TargetConfig, db: Database, row: any): Promise<RefreshItemResult> {
+    const item = { id: row.id as number, url: row.url as string };
+    console.error(`\nRefreshing source #${row.id}: ${row.url}`);
+
+    let extracted: ExtractedContent;
+    try {
+        extracted = await ingestFromSource(row.url);
+    } catch (error: any) {
+        console.error('Extraction failed:', error.message);
+        return { ...item, status: 'failed', error: `Extraction failed: ${error.message}` };
+    }
+
+    if (extracted.contentHash === row.content_hash) {
+        await db.run('UPDATE sources SET refreshed_at = CURRENT_TIMESTAMP WHERE id = ?', row.id);
+        console.error('Content unchanged.');
+        return { ...item, status: 'unchanged' };
+    }
+
+    // content_hash is unique: the new content may already be stored as another source
+    const duplicate = await db.get('SELECT id FROM sources WHERE content_hash = ? AND id != ?', extracted.contentHash, row.id);
+    if (duplicate) {
+        return { ...item, status: 'failed', error: `New content is identical to source #${duplicate.id}` };
+    }
+
+    let summary: string | null = null;
+    if (target.summarizer.enabled) {
+        try {
+            summary = await summarizeContent(extracted.title, extracted.content);
+        } catch (error: any) {
+            console.error("Summarization failed, proceeding without a summary:", error.message);
+        }
+    }
+
+    const collection = await getActiveCollection(target);
+    const collectionName = collection ? collection.name : target.collectionName;
+    const chunks: Chunk[] = chunkExtracted(extracted, chunkingOptionsFor(target, extracted.sourceType));
+    if (summary) chunks.push({ content: summary, chunk_index: -1, kind: 'summary' });
+    let embedded;
+    try {
+        console.error('Content changed. Chunking and embedding...');
+        embedded = await embedChunks(chunks, collection ? getCollectionModel(collection) : undefined);
+        if (embedded.chunks.length === 0 || !embedded.model) throw new Error("No chunks were embedded.");
+    } catch (error: any) {
+        console.error('Embedding failed:', error.message);
+        return { ...item, status: 'failed', error: `Embedding failed: ${error.message}` };
+    }
+
+    const chunkIds: number[] = [];
+    let versionCount: number;
+    try {
+        versionCount = await withTransaction(db, async () => {
+            await db.run(
+                'INSERT INTO source_versions (source_id, title, raw_content, content_hash) SELECT id, title, raw_content, content_hash FROM sources WHERE id = ?',
+                row.id
+            );
+            await db.run(
+                'UPDATE sources SET title = ?, summary = ?, raw_content = ?, content_hash = ?, simhash = ?, updated_at = CURRENT_TIMESTAMP, refreshed_at = CURRENT_TIMESTAMP WHERE id = ?',
+                extracted.title, summary, extracted.content, extracted.contentHash, computeSimhash(extracted.content), row.id
+            );
+            await db.run('DELETE FROM chunks WHERE source_id = ?', row.id);
+            const stmt = await db.prepare('INSERT INTO chunks (source_id, chunk_index, content, kind, page, section, start_time) VALUES (?, ?, ?, ?, ?, ?, ?)');
+            for (const chunk of embedded.chunks) {
+                const chunkInsert = await stmt.run(row.id, chunk.chunk_index, chunk.content, chunk.kind || 'content', chunk.page, chunk.section, chunk.start_time);
+                chunkIds.push(chunkInsert.lastID!);
+            }
+            await stmt.finalize();
+            return (await db.get('SELECT COUNT(*) AS count FROM source_versions WHERE source_id = ?', row.id)).count;
+        });
+    } catch (error: any) {
+        console.error(`Database transaction failed for ${target.name}:`, error.message);
+        return { ...item, status: 'failed', error: `Database transaction failed: ${error.message}` };
+    }
+    console.error(`Saved previous content as version ${versionCount} and replaced ${row.chunks} chunks with ${chunkIds.length}.`);
+
+    try {
+        const store = getVectorStore(target, collectionName);
+        await store.deleteSourceVectors(row.id);
+        const tags: string[] = JSON.parse(row.tags || '[]');
+        await store.addChunks(
+            embedded.chunks.map((chunk, index) => ({ id: chunkIds[index], source_id: row.id, content: chunk.content, url: row.url, title: extracted.title, tags,
+                source_type: row.source_type, created_at: row.created_at, kind: chunk.kind, page: chunk.page, section: chunk.section, start_time: chunk.start_time })),
+            embedded.chunks.map(chunk => chunk.embedding)
+        );
+        if (!collection) await recordCollection(target, collectionName, embedded.model);
+        console.error(`Replaced vectors in ${target.vectorStore} collection '${collectionName}' (${embeddingModelKey(embedded.model)}).`);
+    } catch (error: any) {
+        console.error(`Failed to update the vector store for ${target.name}:`, error.message);
+        return { ...item, status: 'failed', version: versionCount, chunks: chunkIds.length,
+            error: `Content was updated in SQLite but the vector store update failed (repair with doctor --reembed): ${error.message}` };
+    }
+
+    try {
+        findArchivedFiles(target.repoPath, row.source_type, row.id).forEach(file => fs.unlinkSync(file));
+        const filePath = archiveSource(target.repoPath, row.id, extracted);
+        console.error(`Archived the new content to ${filePath}`);
+    } catch (error: any) {
+        console.error(`Failed to archive the new content for ${target.name}:`, error.message);
+        return { ...item, status: 'failed', version: versionCount, chunks: chunkIds.length,
+            error: `Archiving failed (repair with doctor --regenerate-archives): ${error.message}` };
+    }
+
+    return { ...item, status: 'changed', version: versionCount, chunks: chunkIds.length };
+}
+
+/**
+ * Refreshes one source (by ID, URL or path), every source, or the sources not refreshed
+ * within `olderThan`, under the ingestion lock. A failing source is reported in its
+ * result and does not stop the others.
+ */
+export async function refreshSources(target: TargetConfig, ref?: string, options: RefreshOptions = {}): Promise<RefreshResult> {
+    if (!ref && !options.all && !options.olderThan) {
+        return { success: false, error: "Specify a source, --all or --older-than." };
+    }
+
+    try {
+        return await withIngestLock(async () => {
+            const db = await openTargetDb(target);
+            let ids: number[];
+            if (ref) {
+                const row = await findSource(db, ref);
+                if (!row) {
+                    return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+                }
+                ids = [row.id];
+            } else if (options.olderThan) {
+                const cutoff = parseDateOption(options.olderThan);
+                ids = (await db.all('SELECT id FROM sources WHERE COALESCE(refreshed_at, created_at) < ? ORDER BY id', cutoff)).map(row => row.id);
+            } else {
+                ids = (await db.all('SELECT id FROM sources ORDER BY id')).map(row => row.id);
+            }
+
+            console.error(`Refreshing ${ids.length} source(s) of target ${target.name}...`);
+            const results: RefreshItemResult[] = [];
+            for (const id of ids) {
+                const row = await findSource(db, String(id));
+                results.push(await refreshOne(target, db, row));
+            }
+
+            const count = (status: RefreshStatus) => results.filter(result => result.status === status).length;
+            return {
+                success: count('failed') === 0,
+                target: target.name,
+                total: results.length,
+                changed: count('changed'),
+                unchanged: count('unchanged'),
+                failed: count('failed'),
+                results,
+            };
+        });
+    } catch (error: any) {
+        console.error("Refresh failed:", error.message);
+        return { success: false, error: `Refresh failed: ${error.message}` };
+    }
+}
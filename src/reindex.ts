@@ -0,0 +1,85 @@
+import { openTargetDb } from './sources';
+import { embedChunks } from './embedder';
+import { getVectorStore } from './vector-store';
+import { getActiveCollection, recordCollection, activateCollection, forgetCollection, nextCollectionName, markMetadataCurrent } from './collections';
+import { EmbeddingInfo, EmbeddingModel, embeddingModelKey } from './llm-provider';
+import { withIngestLock } from './ingest';
+import { TargetConfig } from './targets';
+
+export interface ReindexResult {
+    success: boolean;
+    target?: string;
+    previousCollection?: string;
+    collection?: string;
+    model?: EmbeddingInfo;
+    chunks?: number;
+    error?: string;
+}
+
+/**
+ * Re-embeds every chunk of a target from the SQLite chunks table into a fresh
+ * collection, then swaps it in by flipping the active collection in SQLite.
+ * The old collection keeps serving queries until the swap and is dropped afterwards.
+ */
+export async function reindexTarget(target: TargetConfig, model?: EmbeddingModel, keepOld = false): Promise<ReindexResult> {
+    try {
+        return await withIngestLock(async () => {
+            const db = await openTargetDb(target);
+            const previous = await getActiveCollection(target);
+            const previousName = previous ? previous.name : target.collectionName;
+            const newName = await nextCollectionName(target);
+            const store = getVectorStore(target, newName);
+
+            const total = (await db.get('SELECT COUNT(*) AS count FROM chunks')).count;
+            if (total === 0) {
+                return { success: false, error: `Target ${target.name} has no chunks to reindex.` };
+            }
+
+            console.error(`Reindexing ${total} chunks of target ${target.name} into '${newName}'${model ? ` with ${embeddingModelKey(model)}` : ''}...`);
+            await store.deleteCollection(); // Leftover from an interrupted reindex
+
+            let info: EmbeddingInfo | undefined;
+            const pageSize = 200;
+            try {
+                for (let offset = 0; offset < total; offset += pageSize) {
+                    const rows = await db.all(
+                        `SELECT chunks.id, chunks.source_id, chunks.chunk_index, chunks.content, chunks.kind, chunks.page, chunks.section, chunks.start_time, sources.url, sources.title, sources.tags, sources.source_type, sources.created_at
+                         FROM chunks JOIN sources ON sources.id = chunks.source_id
+                         ORDER BY chunks.id LIMIT ? OFFSET ?`,
+                        pageSize, offset
+                    );
+                    // The first page pins the model (if none was requested) for all later pages
+                    const embedded = await embedChunks(rows.map(row => ({ content: row.content, chunk_index: row.chunk_index })), model);
+                    info = info || embedded.model;
+                    model = model || embedded.model;
+
+                    await store.addChunks(
+                        rows.map(row => ({ id: row.id, source_id: row.source_id, content: row.content, url: row.url, title: row.title, tags: JSON.parse(row.tags || '[]'),
+                            source_type: row.source_type, created_at: row.created_at, kind: row.kind, page: row.page, section: row.section, start_time: row.start_time })),
+                        embedded.chunks.map(chunk => chunk.embedding)
+                    );
+                    console.error(`Reindexed ${Math.min(offset + pageSize, total)}/${total} chunks.`);
+                }
+
+                await recordCollection(target, newName, info!, false);
+                await markMetadataCurrent(target, newName);
+                await activateCollection(target, newName);
+            } catch (error) {
+                await forgetCollection(target, newName);
+                await store.deleteCollection().catch(() => undefined);
+                throw error;
+            }
+            console.error(`Collection '${newName}' is now active for target ${target.name}.`);
+
+            if (!keepOld) {
+                await getVectorStore(target, previousName).deleteCollection();
+                await forgetCollection(target, previousName);
+            }
+
+            return { success: true, target: target.name, previousCollection: previousName, collection: newName, model: info, chunks: total };
+        });
+    } catch (error: any) {
+        console.error("Reindex failed:", error.message);
+        return { success: false, error: `Reindex failed: ${error.message}` };
+    }
+}
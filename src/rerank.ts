@@ -0,0 +1,174 @@
+import { generateText } from './llm-provider';
+import { RetrievedChunk } from './retrieval';
+
+export interface RerankSettings {
+    // Maximal Marginal Relevance: pick chunks that are relevant but unlike those already picked
+    mmr: boolean;
+    // MMR weight of relevance against diversity, from 0 (diversity only) to 1 (relevance only)
+    lambda: number;
+    // Score each candidate's relevance to the question with the generation model
+    llm: boolean;
+    // LLM relevance, from 0 to 1, under which a candidate is dropped
+    minRelevance: number;
+}
+
+export const DEFAULT_RERANK: RerankSettings = { mmr: true, lambda: 0.7, llm: false, minRelevance: 0.3 };
+
+// Candidates scored per LLM call, and the part of each one shown to the LLM
+const LLM_BATCH_SIZE = 10;
+const LLM_EXCERPT_CHARS = 1000;
+
+/**
+ * Checks a set of rerank settings, naming them with `label` in errors.
+ */
+export function validateRerankSettings(settings: RerankSettings, label: string): void {
+    if (typeof settings.lambda !== 'number' || settings.lambda < 0 || settings.lambda > 1) {
+        throw new Error(`${label}.lambda must be a number from 0 to 1.`);
+    }
+    if (typeof settings.minRelevance !== 'number' || settings.minRelevance < 0 || settings.minRelevance > 1) {
+        throw new Error(`${label}.minRelevance must be a number from 0 to 1.`);
+    }
+}
+
+export function formatRerankSettings(settings: RerankSettings): string {
+    const stages = [
+        ...(settings.llm ? [`LLM (min relevance ${settings.minRelevance})`] : []),
+        ...(settings.mmr ? [`MMR (lambda ${settings.lambda})`] : []),
+    ];
+    return stages.join(', then ') || 'off';
+}
+
+// Score of the retrieval stage: fused in hybrid mode, otherwise BM25 or vector distance
+function retrievalScore(chunk: RetrievedChunk): number {
+    if (chunk.score !== undefined) return chunk.score;
+    if (chunk.keywordScore !== undefined) return chunk.keywordScore;
+    return -(chunk.distance ?? 0);
+}
+
+/**
+ * The candidates' retrieval scores scaled between the lowest and highest of the list,
+ * from 0 to 1 (1 for all when they are equal).
+ */
+export function normalizedScores(candidates: RetrievedChunk[]): number[] {
+    const scores = candidates.map(retrievalScore);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    return scores.map(score => max > min ? (score - min) / (max - min) : 1);
+}
+
+// Relevance from 0 to 1 of each candidate: its LLM relevance or, without one, its
+// normalized retrieval score
+function relevances(candidates: RetrievedChunk[]): number[] {
+    const scores = normalizedScores(candidates);
+    return candidates.map((chunk, i) => chunk.relevance ?? scores[i]);
+}
+
+function wordSet(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+}
+
+// Jaccard similarity of two word sets: 1 for chunks with the same words
+function similarity(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    a.forEach(word => { if (b.has(word)) shared++; });
+    const union = a.size + b.size - shared;
+    return union > 0 ? shared / union : 0;
+}
+
+/**
+ * Maximal Marginal Relevance: repeatedly picks the candidate with the best
+ * lambda * relevance - (1 - lambda) * (highest similarity to a picked chunk), so
+ * near-identical chunks don't crowd out other relevant material. Similarity is
+ * measured on the chunks' words, which needs no vectors and works in every mode.
+ * `relevance` defaults to each candidate's LLM relevance or normalized retrieval score.
+ */
+export function selectMmr<T extends RetrievedChunk>(candidates: T[], count: number, lambda: number, relevance = relevances(candidates)): T[] {
+    const words = candidates.map(chunk => wordSet(chunk.metadata.content || ''));
+    const remaining = candidates.map((_, i) => i);
+    const picked: number[] = [];
+    const selected: T[] = [];
+
+    while (selected.length < count && remaining.length > 0) {
+        let bestPosition = 0;
+        let bestScore = -Infinity;
+        remaining.forEach((candidate, position) => {
+            const redundancy = picked.reduce((max, other) => Math.max(max, similarity(words[candidate], words[other])), 0);
+            const score = lambda * relevance[candidate] - (1 - lambda) * redundancy;
+            if (score > bestScore) {
+                bestScore = score;
+                bestPosition = position;
+            }
+        });
+        const [index] = remaining.splice(bestPosition, 1);
+        picked.push(index);
+        selected.push({ ...candidates[index], mmrScore: bestScore });
+    }
+    return selected;
+}
+
+async function scoreBatch(question: string, batch: RetrievedChunk[]): Promise<number[]> {
+    const excerpts = batch.map((chunk, i) =>
+        `Excerpt ${i + 1} (from "${chunk.metadata.title}"):\n${(chunk.metadata.content || '').substring(0, LLM_EXCERPT_CHARS)}`
+    ).join('\n\n');
+
+    const prompt = `
+    Rate how relevant each excerpt is to the question, from 0 (unrelated) to 10 (answers it directly).
+    1. Judge each excerpt on its own; an excerpt that only shares words with the question is not relevant.
+    2. Return valid JSON only: an array with one score per excerpt, in order.
+
+    Question: ${question}
+
+    ${excerpts}
+
+    Output Format:
+    [7, 0, 3]
+    `;
+
+    const text = await generateText(prompt);
+    const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const scores = JSON.parse(jsonStr);
+    if (!Array.isArray(scores) || scores.length !== batch.length || !scores.every(score => typeof score === 'number')) {
+        throw new Error(`Expected ${batch.length} scores, got: ${jsonStr.substring(0, 200)}`);
+    }
+    return scores.map(score => Math.min(Math.max(score, 0), 10) / 10);
+}
+
+/**
+ * Scores every candidate's relevance to the question (0 to 1) with the generation
+ * model, a batch of excerpts per call.
+ */
+export async function scoreRelevance(question: string, candidates: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+    const scored: RetrievedChunk[] = [];
+    for (let start = 0; start < candidates.length; start += LLM_BATCH_SIZE) {
+        const batch = candidates.slice(start, start + LLM_BATCH_SIZE);
+        const scores = await scoreBatch(question, batch);
+        batch.forEach((chunk, i) => scored.push({ ...chunk, relevance: scores[i] }));
+    }
+    return scored;
+}
+
+/**
+ * Reorders retrieval candidates and keeps `count` of them: the LLM reranker scores
+ * them, drops those under minRelevance and sorts the rest by relevance, then MMR picks
+ * a diverse set. Without either stage the retrieval order is kept. A failing LLM
+ * reranker is skipped.
+ */
+export async function rerankCandidates(question: string, candidates: RetrievedChunk[], count: number, settings: RerankSettings): Promise<RetrievedChunk[]> {
+    if (!settings.llm && !settings.mmr) return candidates.slice(0, count);
+    if (candidates.length === 0) return candidates;
+    console.error(`Reranking ${candidates.length} candidates (${formatRerankSettings(settings)})...`);
+
+    let ranked = candidates;
+    if (settings.llm) {
+        try {
+            const scored = await scoreRelevance(question, candidates);
+            // Array.sort is stable: equally relevant candidates keep their retrieval order
+            ranked = scored.filter(chunk => chunk.relevance! >= settings.minRelevance).sort((a, b) => b.relevance! - a.relevance!);
+            console.error(`LLM reranker kept ${ranked.length} of ${candidates.length} candidates.`);
+        } catch (error: any) {
+            console.error("LLM reranking failed, keeping the retrieval order:", error.message);
+        }
+    }
+
+    return settings.mmr ? selectMmr(ranked, count, settings.lambda) : ranked.slice(0, count);
+}
@@ -0,0 +1,107 @@
+import { Database } from 'sqlite';
+import { VectorMatch, VectorMetadata, getChunkVectorId, toVectorMetadata } from './vector-store';
+import { TagFilter, tagFilterCondition } from './tags';
+import { SourceFilter, sourceFilterCondition } from './sources';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+
+// Constant of Reciprocal Rank Fusion; 60 is the value from the original RRF paper
+export const RRF_K = 60;
+
+export interface RetrievedChunk {
+    id: string;                // Vector ID, chunk_{source_id}_{chunk_id}
+    metadata: VectorMetadata;
+    distance?: number;         // Vector distance, when the vector search found the chunk
+    keywordScore?: number;     // BM25 score (higher is better), when the keyword search found it
+    score?: number;            // Fused score in hybrid mode
+    normalizedScore?: number;  // Retrieval score scaled to 0-1 within its target's candidates
+    relevance?: number;        // LLM relevance from 0 to 1, when the LLM reranker scored it
+    mmrScore?: number;         // MMR score it was picked with, when MMR ran
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/**
+ * Turns free text into an FTS5 MATCH expression. Every term is quoted so FTS5 syntax
+ * characters in the question can't break the query. "Quoted phrases" must all match;
+ * the remaining terms are OR-ed and left to BM25 to rank. Terms made of several word
+ * parts (ERR-42, node.js) become phrases so the parts must be adjacent.
+ */
+export function toFtsQuery(text: string): string | undefined {
+    const phrases: string[] = [];
+    const rest = text.replace(/"([^"]*)"/g, (_, phrase: string) => {
+        const words = tokenize(phrase);
+        if (words.length > 0) phrases.push(`"${words.join(' ')}"`);
+        return ' ';
+    });
+
+    const terms = rest.split(/\s+/)
+        .map(tokenize)
+        .filter(words => words.length > 0)
+        .map(words => `"${words.join(' ')}"`);
+    const uniqueTerms = Array.from(new Set(terms));
+
+    if (phrases.length === 0 && uniqueTerms.length === 0) return undefined;
+    const optional = uniqueTerms.length > 0 ? `(${uniqueTerms.join(' OR ')})` : '';
+    return [...phrases, optional].filter(Boolean).join(' AND ');
+}
+
+/**
+ * BM25 search over the chunks_fts index of a target database, best match first,
+ * restricted to sources matching the tag and source filters.
+ */
+export async function keywordSearch(db: Database, query: string, topN = 10, tags: TagFilter = {}, filter: SourceFilter = {}): Promise<RetrievedChunk[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const tagCondition = tagFilterCondition(tags);
+    const sourceCondition = await sourceFilterCondition(db, filter);
+    const rows = await db.all(
+        `SELECT chunks.id, chunks.source_id, chunks.content, chunks.kind, chunks.page, chunks.section, chunks.start_time, sources.url, sources.title, sources.tags, sources.source_type, sources.created_at, bm25(chunks_fts) AS rank
+         FROM chunks_fts
+         JOIN chunks ON chunks.id = chunks_fts.rowid
+         JOIN sources ON sources.id = chunks.source_id
+         WHERE chunks_fts MATCH ? AND ${tagCondition.sql} AND ${sourceCondition.sql}
+         ORDER BY rank LIMIT ?`,
+        match, ...tagCondition.params, ...sourceCondition.params, topN
+    );
+
+    return rows.map(row => ({
+        id: getChunkVectorId(row.source_id, row.id),
+        metadata: toVectorMetadata({ ...row, tags: JSON.parse(row.tags || '[]') }),
+        keywordScore: -row.rank, // SQLite's bm25() is negative, lower is better
+    }));
+}
+
+export function fromVectorMatches(matches: VectorMatch[]): RetrievedChunk[] {
+    return matches.map(match => ({ id: match.id, metadata: match.metadata, distance: match.distance }));
+}
+
+/**
+ * Merges ranked lists with Reciprocal Rank Fusion: each chunk scores the sum of
+ * 1 / (k + rank) over the lists it appears in. Scores from different retrievers are
+ * not comparable, ranks are.
+ */
+export function fuseRankings(lists: RetrievedChunk[][], topN = 10): RetrievedChunk[] {
+    const fused = new Map<string, RetrievedChunk>();
+    for (const list of lists) {
+        list.forEach((chunk, index) => {
+            const existing = fused.get(chunk.id);
+            const contribution = 1 / (RRF_K + index + 1);
+            fused.set(chunk.id, {
+                ...existing,
+                ...chunk,
+                distance: chunk.distance ?? existing?.distance,
+                keywordScore: chunk.keywordScore ?? existing?.keywordScore,
+                score: (existing?.score || 0) + contribution,
+            });
+        });
+    }
+    return Array.from(fused.values())
+        .sort((a, b) => b.score! - a.score!)
+        .slice(0, topN);
+}
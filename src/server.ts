@@ -0,0 +1,322 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { answerQuery, streamQuery, QueryOptions } from './query';
+import { enqueueJobs, listJobs, getJob, runWorker, JOB_STATUSES, JobStatus, WorkerResult } from './jobs';
+import { listSources, getSource, deleteSource, parseSourceFilter } from './sources';
+import { listTags, renameTag, mergeTags, deleteTag } from './tags';
+import { getTarget, listTargets, TargetConfig } from './targets';
+import { initializeSchema } from './database';
+import { createWriteQueue } from './ingest';
+import { RETRIEVAL_MODES } from './retrieval';
+import { OPENAPI_DOCUMENT } from './openapi';
+
+export interface ServeOptions {
+    host?: string;          // Default 127.0.0.1: only this machine can connect
+    port?: number;          // Default 8787
+    token?: string;         // Bearer token required on every endpoint but /health and /openapi.json
+    worker?: boolean;       // Ingest queued jobs in the server process (default true)
+    concurrency?: number;   // Jobs the worker processes at once
+}
+
+export interface ServeResult {
+    success: boolean;
+    error?: string;
+}
+
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PORT = 8787;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+// How long an idle client connection is kept open for its next request
+const KEEP_ALIVE_MS = 60 * 1000;
+
+// Target writes of the handlers and the in-process worker run one at a time
+const enqueueWrite = createWriteQueue();
+
+interface ApiRequest {
+    params: string[];           // Decoded path segments captured by the route
+    query: URLSearchParams;
+    body: any;
+    req: http.IncomingMessage;
+    res: http.ServerResponse;
+}
+
+// A JSON response, or undefined when the handler wrote the response itself (SSE)
+type ApiResponse = { status: number, body: unknown } | undefined;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    public?: boolean;           // Served without the bearer token
+    handler: (request: ApiRequest) => Promise<ApiResponse>;
+}
+
+function badRequest(error: string): ApiResponse {
+    return { status: 400, body: { success: false, error } };
+}
+
+// Results of the wrapped commands: 200 when they succeeded, 404 when what they were
+// asked for doesn't exist, 400 otherwise
+function fromResult(result: { success: boolean, error?: string }, status = 200): ApiResponse {
+    if (result.success) return { status, body: result };
+    return { status: /not found/i.test(result.error || '') ? 404 : 400, body: result };
+}
+
+// A list given as a JSON array or as a comma-separated string
+function stringList(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map(item => String(item).trim()).filter(item => item.length > 0);
+}
+
+function integerParam(query: URLSearchParams, name: string): number | undefined {
+    const value = query.get(name);
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value)) throw new Error(`${name} must be a positive integer.`);
+    return parseInt(value, 10);
+}
+
+// The target named by the `target` query parameter, or the default target
+function requestTarget(request: ApiRequest): TargetConfig {
+    return getTarget(request.query.get('target') || undefined);
+}
+
+async function readBody(req: http.IncomingMessage): Promise<{ body?: any, error?: string }> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) return { error: `Request body is larger than ${MAX_BODY_BYTES} bytes.` };
+        chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString('utf-8').trim();
+    if (!text) return { body: {} };
+    try {
+        const body = JSON.parse(text);
+        return body && typeof body === 'object' && !Array.isArray(body) ? { body } : { error: 'Request body must be a JSON object.' };
+    } catch (error: any) {
+        return { error: `Invalid JSON body: ${error.message}` };
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Streams a query's events as server-sent events (`event: sources|delta|done`, the
+ * event as JSON in `data`). Generation stops when the client disconnects.
+ */
+async function streamEvents(res: http.ServerResponse, question: string, tags: string[], target: string | string[] | undefined, options: QueryOptions): Promise<void> {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    let disconnected = false;
+    res.on('close', () => { disconnected = !res.writableEnded; });
+    for await (const event of streamQuery(question, tags, target, options)) {
+        if (disconnected) break;
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    res.end();
+}
+
+async function query(request: ApiRequest): Promise<ApiResponse> {
+    const body = request.body;
+    if (typeof body.question !== 'string' || !body.question.trim()) return badRequest('question is required.');
+    if (body.mode !== undefined && !RETRIEVAL_MODES.includes(body.mode)) return badRequest(`mode must be one of ${RETRIEVAL_MODES.join(', ')}.`);
+    for (const name of ['topK', 'depth', 'perSource', 'neighbors', 'contextTokens']) {
+        if (body[name] !== undefined && !Number.isInteger(body[name])) return badRequest(`${name} must be an integer.`);
+    }
+
+    const target = body.allTargets ? listTargets().map(config => config.name) : body.targets ? stringList(body.targets) : body.target;
+    const options: QueryOptions = {
+        mode: body.mode,
+        anyTags: stringList(body.anyTags),
+        notTags: stringList(body.notTags),
+        topK: body.topK,
+        depth: body.depth,
+        perSource: body.perSource,
+        neighbors: body.neighbors,
+        contextTokens: body.contextTokens,
+        rerank: body.rerank,
+        filter: parseSourceFilter(body.filter),
+    };
+    const tags = stringList(body.tags);
+
+    const accept = request.req.headers.accept || '';
+    if (body.stream === true || accept.includes('text/event-stream')) {
+        await streamEvents(request.res, body.question, tags, target, options);
+        return undefined;
+    }
+    return fromResult(await answerQuery(body.question, tags, target, options));
+}
+
+async function ingest(request: ApiRequest): Promise<ApiResponse> {
+    const body = request.body;
+    const sources = [...stringList(body.sources), ...(typeof body.source === 'string' ? [body.source] : [])];
+    if (sources.length === 0) return badRequest('source or sources is required.');
+    return fromResult(await enqueueJobs(sources, stringList(body.tags), stringList(body.targets)), 202);
+}
+
+async function jobs(request: ApiRequest): Promise<ApiResponse> {
+    const status = request.query.get('status') || undefined;
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) return badRequest(`status must be one of ${JOB_STATUSES.join(', ')}.`);
+    return fromResult(await listJobs(status as JobStatus | undefined, integerParam(request.query, 'limit')));
+}
+
+async function sources(request: ApiRequest): Promise<ApiResponse> {
+    const query = request.query;
+    return fromResult(await listSources(requestTarget(request), {
+        type: query.get('type') || undefined,
+        tags: { all: stringList(query.get('tags')), any: stringList(query.get('anyTags')), not: stringList(query.get('notTags')) },
+        nearDuplicates: query.get('nearDuplicates') === 'true',
+        since: query.get('since') || undefined,
+        until: query.get('until') || undefined,
+        limit: integerParam(query, 'limit'),
+        page: integerParam(query, 'page'),
+    }));
+}
+
+const ROUTES: Route[] = [
+    {
+        method: 'GET', pattern: /^\/health$/, public: true,
+        handler: async () => ({ status: 200, body: { success: true, targets: listTargets().map(target => target.name) } }),
+    },
+    { method: 'GET', pattern: /^\/openapi\.json$/, public: true, handler: async () => ({ status: 200, body: OPENAPI_DOCUMENT }) },
+    { method: 'POST', pattern: /^\/ingest$/, handler: ingest },
+    { method: 'GET', pattern: /^\/jobs$/, handler: jobs },
+    {
+        method: 'GET', pattern: /^\/jobs\/([^/]+)$/,
+        handler: async ({ params }) => /^\d+$/.test(params[0]) ? fromResult(await getJob(parseInt(params[0], 10))) : badRequest('Job IDs are integers.'),
+    },
+    { method: 'POST', pattern: /^\/query$/, handler: query },
+    { method: 'GET', pattern: /^\/sources$/, handler: sources },
+    {
+        method: 'GET', pattern: /^\/sources\/([^/]+)$/,
+        handler: async request => fromResult(await getSource(requestTarget(request), request.params[0], request.query.get('content') === 'true')),
+    },
+    {
+        method: 'DELETE', pattern: /^\/sources\/([^/]+)$/,
+        handler: async request => fromResult(await enqueueWrite(() => deleteSource(requestTarget(request), request.params[0]))),
+    },
+    { method: 'GET', pattern: /^\/tags$/, handler: async request => fromResult(await listTags(requestTarget(request))) },
+    {
+        method: 'POST', pattern: /^\/tags\/rename$/,
+        handler: async request => {
+            const { from, to } = request.body;
+            if (typeof from !== 'string' || typeof to !== 'string') return badRequest('from and to are required.');
+            return fromResult(await enqueueWrite(() => renameTag(requestTarget(request), from, to)));
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/tags\/merge$/,
+        handler: async request => {
+            const from = stringList(request.body.from);
+            if (from.length === 0 || typeof request.body.into !== 'string') return badRequest('from and into are required.');
+            return fromResult(await enqueueWrite(() => mergeTags(requestTarget(request), from, request.body.into)));
+        },
+    },
+    {
+        method: 'DELETE', pattern: /^\/tags\/([^/]+)$/,
+        handler: async request => fromResult(await enqueueWrite(() => deleteTag(requestTarget(request), request.params[0]))),
+    },
+];
+
+// Compares in constant time, so response timing doesn't reveal the token
+function authorized(req: http.IncomingMessage, token: string): boolean {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(req.headers.authorization || '');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse, token?: string): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const matching = ROUTES.filter(route => route.pattern.test(path));
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+        const status = matching.length > 0 ? 405 : 404;
+        sendJson(res, status, { success: false, error: status === 405 ? `${req.method} is not allowed on ${path}.` : `Not found: ${path}` });
+        return;
+    }
+    if (token && !route.public && !authorized(req, token)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { success: false, error: 'Missing or invalid bearer token.' });
+        return;
+    }
+
+    const { body, error } = req.method === 'POST' ? await readBody(req) : { body: {}, error: undefined };
+    if (error) {
+        sendJson(res, 400, { success: false, error });
+        return;
+    }
+    let response: ApiResponse;
+    try {
+        // decodeURIComponent throws on a malformed escape such as /sources/%E0
+        const params = path.match(route.pattern)!.slice(1).map(decodeURIComponent);
+        response = await route.handler({ params, query: url.searchParams, body, req, res });
+    } catch (error: any) {
+        // Thrown for invalid parameters and unknown targets; the commands return their failures
+        response = badRequest(error.message);
+    }
+    if (response) sendJson(res, response.status, response.body);
+}
+
+/**
+ * Runs the HTTP API until Ctrl-C. Target databases (and local vector stores, once
+ * used) are opened once and stay open, and client connections are kept alive between
+ * requests, so requests skip the process start and setup the CLI pays per call. Unless `worker` is off, queued
+ * ingestion jobs are processed in this process (it holds the ingestion lock).
+ */
+export async function startServer(options: ServeOptions = {}): Promise<ServeResult> {
+    const host = options.host || DEFAULT_HOST;
+    const port = options.port ?? DEFAULT_PORT;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        return { success: false, error: `Invalid port: ${port}` };
+    }
+
+    for (const target of listTargets()) {
+        try {
+            await initializeSchema(target.dbPath);
+        } catch (error: any) {
+            console.error(`Could not open the database of target ${target.name}:`, error.message);
+        }
+    }
+
+    const server = http.createServer((req, res) => {
+        handle(req, res, options.token).catch(error => {
+            console.error(`${req.method} ${req.url} failed:`, error.message);
+            if (!res.headersSent) sendJson(res, 500, { success: false, error: error.message });
+            else res.end();
+        });
+    });
+    server.keepAliveTimeout = KEEP_ALIVE_MS;
+
+    return new Promise<ServeResult>(resolve => {
+        let worker: Promise<WorkerResult | undefined> = Promise.resolve(undefined);
+        const onSignal = () => {
+            process.off('SIGINT', onSignal);
+            console.error("\nShutting down the server...");
+            server.close();
+            server.closeAllConnections();
+        };
+
+        server.on('error', error => resolve({ success: false, error: `Server failed: ${error.message}` }));
+        server.on('close', async () => {
+            await worker;
+            resolve({ success: true });
+        });
+        server.listen(port, host, () => {
+            process.on('SIGINT', onSignal);
+            console.error(`Serving the knowledge base API on http://${host}:${port} (OpenAPI description at /openapi.json).`);
+            if (!options.token && host !== DEFAULT_HOST && host !== 'localhost') {
+                console.error(`Warning: listening on ${host} without a token; anyone who can reach it can read and change the knowledge base.`);
+            }
+            if (options.worker !== false) {
+                worker = runWorker({ watch: true, concurrency: options.concurrency, enqueueWrite }).then(result => {
+                    if (result.error) console.error(`Job worker stopped: ${result.error}. Queued jobs wait for 'jobs work'.`);
+                    return result;
+                });
+            }
+        });
+    });
+}
@@ -0,0 +1,489 @@
+import { Database } from 'sqlite';
+import * as fs from 'fs';
+import { getDbConnection, initializeSchema, withTransaction } from './database';
+import { SOURCE_TYPES, SourceType, detectSourceType, normalizeSource, sourceDomain } from './extractor';
+import { findArchivedFiles } from './archive';
+import { getActiveVectorStore } from './collections';
+import { TargetConfig } from './targets';
+import { TagFilter, hasTagFilter, tagFilterCondition, normalizeTags, setSourceTags, pruneUnusedTags } from './tags';
+
+export interface SourceSummary {
+    id: number;
+    url: string;
+    title: string;
+    source_type: string;
+    tags: string[];
+    chunks: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SourceDetail extends SourceSummary {
+    normalized_url: string;
+    content_hash: string;
+    summary: string | null;
+    aliases: string[];                  // Other URLs found to have this content
+    near_duplicate_of: number | null;   // Source this one was flagged as a near duplicate of
+    archived_files: string[];
+    raw_content?: string;
+}
+
+export interface SourceListOptions {
+    type?: string;
+    tags?: TagFilter;
+    nearDuplicates?: boolean;   // Only sources flagged as near duplicates
+    since?: string;
+    until?: string;
+    limit?: number;
+    page?: number;
+}
+
+// Restricts retrieval to matching sources; every field that is set must match
+export interface SourceFilter {
+    types?: string[];       // Any of these source types
+    since?: string;         // Added on/after this date or relative age (see parseDateOption)
+    until?: string;         // Added on/before this date or relative age
+    domains?: string[];     // From any of these domains ("www." is ignored)
+    ids?: number[];         // Any of these source IDs
+}
+
+/**
+ * Checks a filter received as JSON (API request bodies, MCP tool arguments) and
+ * throws an error naming the offending field.
+ */
+export function parseSourceFilter(value: unknown): SourceFilter | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'object' || Array.isArray(value)) throw new Error("filter must be an object.");
+    const filter = value as Record<string, unknown>;
+    for (const name of ['types', 'domains']) {
+        const list = filter[name];
+        if (list !== undefined && list !== null && (!Array.isArray(list) || !list.every(item => typeof item === 'string'))) {
+            throw new Error(`filter.${name} must be an array of strings.`);
+        }
+    }
+    for (const name of ['since', 'until']) {
+        if (filter[name] !== undefined && filter[name] !== null && typeof filter[name] !== 'string') {
+            throw new Error(`filter.${name} must be a string.`);
+        }
+    }
+    if (filter.ids !== undefined && filter.ids !== null && (!Array.isArray(filter.ids) || !filter.ids.every(id => Number.isInteger(id)))) {
+        throw new Error("filter.ids must be an array of integers.");
+    }
+    return {
+        types: (filter.types ?? undefined) as string[] | undefined,
+        since: (filter.since ?? undefined) as string | undefined,
+        until: (filter.until ?? undefined) as string | undefined,
+        domains: (filter.domains ?? undefined) as string[] | undefined,
+        ids: (filter.ids ?? undefined) as number[] | undefined,
+    };
+}
+
+export interface SourceListResult {
+    success: boolean;
+    target?: string;
+    total?: number;
+    page?: number;
+    limit?: number;
+    sources?: SourceSummary[];
+    error?: string;
+}
+
+export interface SourceResult {
+    success: boolean;
+    target?: string;
+    source?: SourceDetail;
+    error?: string;
+}
+
+export interface SourceDeleteResult {
+    success: boolean;
+    target?: string;
+    source?: { id: number, url: string, title: string };
+    chunks?: number;
+    archivedFiles?: string[];
+    error?: string;
+}
+
+export interface SourceVersion {
+    version: number;           // 1 is the content first ingested; the highest is the current content
+    title: string;
+    content_hash: string;
+    characters: number;
+    from: string;              // When this content was ingested or refreshed in
+    until: string | null;      // When a refresh replaced it; null for the current content
+    current: boolean;
+    added?: number;            // Lines added and removed compared with the previous version
+    removed?: number;
+    diff?: string[];           // With includeDiff: the added ("+ ...") and removed ("- ...") lines
+}
+
+export interface SourceHistoryResult {
+    success: boolean;
+    target?: string;
+    source?: { id: number, url: string, title: string };
+    versions?: SourceVersion[];
+    error?: string;
+}
+
+export interface RetagOptions {
+    set?: string[];
+    add?: string[];
+    remove?: string[];
+}
+
+const SOURCE_COLUMNS = `
+    sources.id, sources.url, sources.normalized_url, sources.title, sources.source_type, sources.summary,
+    sources.content_hash, sources.tags, sources.created_at, sources.updated_at, sources.near_duplicate_of,
+    (SELECT COUNT(*) FROM chunks WHERE chunks.source_id = sources.id AND chunks.kind = 'content') AS chunks
+`;
+
+export async function openTargetDb(target: TargetConfig): Promise<Database> {
+    await initializeSchema(target.dbPath);
+    return getDbConnection(target.dbPath);
+}
+
+function parseTags(tags: string): string[] {
+    try {
+        const parsed = JSON.parse(tags);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        return [];
+    }
+}
+
+function toSummary(row: any): SourceSummary {
+    return {
+        id: row.id,
+        url: row.url,
+        title: row.title,
+        source_type: row.source_type,
+        tags: parseTags(row.tags),
+        chunks: row.chunks,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+/**
+ * Parses a date option into SQLite's DATETIME format (UTC, like CURRENT_TIMESTAMP).
+ * Accepts an absolute date ("2024-05-01", "2024-05-01T10:00") or a relative age
+ * ("12h", "7d", "2w", "3m", "1y") counted back from now. With endOfDay, a bare
+ * date is moved to the start of the following day so ranges include it.
+ */
+export function parseDateOption(value: string, endOfDay = false): string {
+    const relative = value.trim().match(/^(\d+)\s*([hdwmy])$/i);
+    let date: Date;
+    if (relative) {
+        const hours = { h: 1, d: 24, w: 24 * 7, m: 24 * 30, y: 24 * 365 }[relative[2].toLowerCase() as 'h' | 'd' | 'w' | 'm' | 'y'];
+        date = new Date(Date.now() - parseInt(relative[1], 10) * hours * 60 * 60 * 1000);
+    } else {
+        date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new Error(`Invalid date '${value}'. Use YYYY-MM-DD or a relative age such as 7d.`);
+        }
+        if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+            date = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+        }
+    }
+    return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+/**
+ * Canonical form of a domain filter, which may also be given as a URL:
+ * "https://www.arxiv.org/abs/1" and "ArXiv.org" are both "arxiv.org".
+ */
+export function normalizeDomain(domain: string): string {
+    const trimmed = domain.trim().toLowerCase();
+    return (/^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? sourceDomain(trimmed) : trimmed.split('/')[0]).replace(/^www\./, '');
+}
+
+export function hasSourceFilter(filter?: SourceFilter): boolean {
+    return !!filter && (!!filter.since || !!filter.until || [filter.types, filter.domains, filter.ids].some(list => !!list && list.length > 0));
+}
+
+export function describeSourceFilter(filter: SourceFilter): string {
+    const parts = [
+        filter.types && filter.types.length > 0 ? `type ${filter.types.join(', ')}` : '',
+        filter.since ? `since ${filter.since}` : '',
+        filter.until ? `until ${filter.until}` : '',
+        filter.domains && filter.domains.length > 0 ? `domain ${filter.domains.join(', ')}` : '',
+        filter.ids && filter.ids.length > 0 ? `source ${filter.ids.join(', ')}` : '',
+    ].filter(Boolean);
+    return parts.join('; ') || 'none';
+}
+
+/**
+ * Checks a source filter, throwing on unknown source types, invalid dates and
+ * source IDs that are not positive integers.
+ */
+export function validateSourceFilter(filter: SourceFilter): void {
+    const unknown = (filter.types || []).filter(type => !SOURCE_TYPES.includes(type as SourceType));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown source type '${unknown[0]}'. Use ${SOURCE_TYPES.join(', ')}.`);
+    }
+    if (filter.since) parseDateOption(filter.since);
+    if (filter.until) parseDateOption(filter.until, true);
+    if ((filter.ids || []).some(id => !Number.isInteger(id) || id < 1)) {
+        throw new Error("Source IDs must be positive integers.");
+    }
+}
+
+/**
+ * SQL condition (with its parameters) on the sources table selecting the sources
+ * that match the filter. Domains are not stored in SQLite, so sources are matched on
+ * the domain of their URL here and selected by ID.
+ */
+export async function sourceFilterCondition(db: Database, filter: SourceFilter): Promise<{ sql: string, params: any[] }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const inList = (column: string, values: any[]) => {
+        conditions.push(`${column} IN (${values.map(() => '?').join(',')})`);
+        params.push(...values);
+    };
+    if (filter.types && filter.types.length > 0) inList('sources.source_type', filter.types);
+    if (filter.since) {
+        conditions.push('sources.created_at >= ?');
+        params.push(parseDateOption(filter.since));
+    }
+    if (filter.until) {
+        conditions.push('sources.created_at < ?');
+        params.push(parseDateOption(filter.until, true));
+    }
+    if (filter.ids && filter.ids.length > 0) inList('sources.id', filter.ids);
+    if (filter.domains && filter.domains.length > 0) {
+        const domains = new Set(filter.domains.map(normalizeDomain));
+        const ids = (await db.all('SELECT id, url FROM sources')).filter(row => domains.has(sourceDomain(row.url))).map(row => row.id);
+        if (ids.length > 0) inList('sources.id', ids);
+        else conditions.push('0');
+    }
+    return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1', params };
+}
+
+/**
+ * Finds a source row by numeric ID, or by original URL/path or normalized URL of the
+ * source or one of its aliases.
+ */
+export async function findSource(db: Database, ref: string): Promise<any | undefined> {
+    if (/^\d+$/.test(ref)) {
+        return db.get(`SELECT ${SOURCE_COLUMNS}, sources.raw_content FROM sources WHERE id = ?`, parseInt(ref, 10));
+    }
+    const normalized = normalizeSource(ref, detectSourceType(ref));
+    return db.get(
+        `SELECT ${SOURCE_COLUMNS}, sources.raw_content FROM sources
+         WHERE url = ? OR normalized_url = ? OR normalized_url = ?
+            OR id IN (SELECT source_id FROM source_aliases WHERE url = ? OR normalized_url = ? OR normalized_url = ?)`,
+        ref, ref, normalized, ref, ref, normalized
+    );
+}
+
+export async function listSources(target: TargetConfig, options: SourceListOptions = {}): Promise<SourceListResult> {
+    try {
+        const db = await openTargetDb(target);
+        const limit = options.limit && options.limit > 0 ? options.limit : 20;
+        const page = options.page && options.page > 0 ? options.page : 1;
+
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (options.type) {
+            conditions.push('sources.source_type = ?');
+            params.push(options.type);
+        }
+        if (options.tags && hasTagFilter(options.tags)) {
+            const tagCondition = tagFilterCondition(options.tags);
+            conditions.push(tagCondition.sql);
+            params.push(...tagCondition.params);
+        }
+        if (options.nearDuplicates) {
+            conditions.push('sources.near_duplicate_of IS NOT NULL');
+        }
+        if (options.since) {
+            conditions.push('sources.created_at >= ?');
+            params.push(parseDateOption(options.since));
+        }
+        if (options.until) {
+            conditions.push('sources.created_at < ?');
+            params.push(parseDateOption(options.until, true));
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const total = await db.get(`SELECT COUNT(*) AS count FROM sources ${where}`, ...params);
+        const rows = await db.all(
+            `SELECT ${SOURCE_COLUMNS} FROM sources ${where} ORDER BY sources.created_at DESC, sources.id DESC LIMIT ? OFFSET ?`,
+            ...params, limit, (page - 1) * limit
+        );
+
+        return { success: true, target: target.name, total: total.count, page, limit, sources: rows.map(toSummary) };
+    } catch (error: any) {
+        console.error("Failed to list sources:", error.message);
+        return { success: false, error: `Failed to list sources: ${error.message}` };
+    }
+}
+
+export async function getSource(target: TargetConfig, ref: string, includeContent = false): Promise<SourceResult> {
+    try {
+        const db = await openTargetDb(target);
+        const row = await findSource(db, ref);
+        if (!row) {
+            return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+        }
+
+        const source: SourceDetail = {
+            ...toSummary(row),
+            normalized_url: row.normalized_url,
+            content_hash: row.content_hash,
+            summary: row.summary,
+            aliases: (await db.all('SELECT url FROM source_aliases WHERE source_id = ? ORDER BY id', row.id)).map(alias => alias.url),
+            near_duplicate_of: row.near_duplicate_of,
+            archived_files: findArchivedFiles(target.repoPath, row.source_type, row.id),
+        };
+        if (includeContent) source.raw_content = row.raw_content;
+        return { success: true, target: target.name, source };
+    } catch (error: any) {
+        console.error("Failed to get source:", error.message);
+        return { success: false, error: `Failed to get source: ${error.message}` };
+    }
+}
+
+// Lines of `to` missing from `from` (counting repeats), in the order they appear in `to`
+function missingLines(from: string[], to: string[]): string[] {
+    const counts = new Map<string, number>();
+    from.forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+    return to.filter(line => {
+        const count = counts.get(line) || 0;
+        if (count > 0) counts.set(line, count - 1);
+        return count === 0;
+    });
+}
+
+/**
+ * Lists a source's content versions, oldest first, ending with the current content.
+ * Each version after the first reports the lines added and removed since the one
+ * before it (as line multisets, so moved lines do not count).
+ */
+export async function getSourceHistory(target: TargetConfig, ref: string, includeDiff = false): Promise<SourceHistoryResult> {
+    try {
+        const db = await openTargetDb(target);
+        const row = await findSource(db, ref);
+        if (!row) {
+            return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+        }
+
+        const contents = [
+            ...await db.all('SELECT title, raw_content, content_hash, replaced_at FROM source_versions WHERE source_id = ? ORDER BY id', row.id),
+            { title: row.title, raw_content: row.raw_content, content_hash: row.content_hash, replaced_at: null },
+        ];
+        const versions: SourceVersion[] = [];
+        let previousLines: string[] | undefined;
+        contents.forEach((content, index) => {
+            const lines = (content.raw_content || '').split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0);
+            const version: SourceVersion = {
+                version: index + 1,
+                title: content.title,
+                content_hash: content.content_hash,
+                characters: (content.raw_content || '').length,
+                from: index === 0 ? row.created_at : contents[index - 1].replaced_at,
+                until: content.replaced_at,
+                current: index === contents.length - 1,
+            };
+            if (previousLines) {
+                const added = missingLines(previousLines, lines);
+                const removed = missingLines(lines, previousLines);
+                version.added = added.length;
+                version.removed = removed.length;
+                if (includeDiff) version.diff = [...removed.map(line => `- ${line}`), ...added.map(line => `+ ${line}`)];
+            }
+            versions.push(version);
+            previousLines = lines;
+        });
+
+        return { success: true, target: target.name, source: { id: row.id, url: row.url, title: row.title }, versions };
+    } catch (error: any) {
+        console.error("Failed to get source history:", error.message);
+        return { success: false, error: `Failed to get source history: ${error.message}` };
+    }
+}
+
+/**
+ * Replaces (set) or edits (add/remove) a source's tags in SQLite and on its vectors.
+ */
+export async function retagSource(target: TargetConfig, ref: string, options: RetagOptions): Promise<SourceResult> {
+    try {
+        const db = await openTargetDb(target);
+        const row = await findSource(db, ref);
+        if (!row) {
+            return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+        }
+
+        const tags = new Set(normalizeTags(options.set ?? parseTags(row.tags)));
+        normalizeTags(options.add || []).forEach(tag => tags.add(tag));
+        normalizeTags(options.remove || []).forEach(tag => tags.delete(tag));
+
+        const finalTags = await withTransaction(db, () => setSourceTags(db, row.id, Array.from(tags)));
+        console.error(`Updated tags for source ${row.id} in SQLite (${target.name}).`);
+
+        try {
+            await (await getActiveVectorStore(target)).updateSourceTags(row.id, finalTags);
+        } catch (error: any) {
+            console.error(`Failed to update vector tags for ${target.name}:`, error.message);
+            return { success: false, error: `Tags were saved to SQLite but the vector store update failed: ${error.message}` };
+        }
+
+        return getSource(target, String(row.id));
+    } catch (error: any) {
+        console.error("Failed to retag source:", error.message);
+        return { success: false, error: `Failed to retag source: ${error.message}` };
+    }
+}
+
+/**
+ * Deletes a source everywhere it lives: its vectors, its SQLite rows (chunks cascade)
+ * and its archived file(s). Vectors go first so a vector store outage leaves the
+ * source intact and the delete can simply be retried.
+ */
+export async function deleteSource(target: TargetConfig, ref: string): Promise<SourceDeleteResult> {
+    try {
+        const db = await openTargetDb(target);
+        const row = await findSource(db, ref);
+        if (!row) {
+            return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+        }
+
+        try {
+            await (await getActiveVectorStore(target)).deleteSourceVectors(row.id);
+        } catch (error: any) {
+            console.error(`Failed to delete vectors for ${target.name}:`, error.message);
+            return { success: false, error: `Failed to delete vectors, source left untouched: ${error.message}` };
+        }
+
+        try {
+            await withTransaction(db, async () => {
+                await db.run('DELETE FROM sources WHERE id = ?', row.id);
+                await pruneUnusedTags(db);
+            });
+        } catch (error: any) {
+            console.error(`Failed to delete source ${row.id} from SQLite (${target.name}):`, error.message);
+            return {
+                success: false,
+                error: `Deleted the vectors but not the source: ${error.message}. Retry the delete, or run \`doctor --target ${target.name} --reembed\` to restore its vectors.`,
+            };
+        }
+        console.error(`Deleted source ${row.id} and its ${row.chunks} chunks from SQLite (${target.name}).`);
+
+        const archivedFiles = findArchivedFiles(target.repoPath, row.source_type, row.id);
+        for (const file of archivedFiles) {
+            fs.unlinkSync(file);
+            console.error(`Deleted archived file ${file}`);
+        }
+
+        return {
+            success: true,
+            target: target.name,
+            source: { id: row.id, url: row.url, title: row.title },
+            chunks: row.chunks,
+            archivedFiles,
+        };
+    } catch (error: any) {
+        console.error("Failed to delete source:", error.message);
+        return { success: false, error: `Failed to delete source: ${error.message}` };
+    }
+}
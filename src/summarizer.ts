@@ -0,0 +1,213 @@
+import { Database } from 'sqlite';
+import { withTransaction } from './database';
+import { generateText } from './llm-provider';
+import { embedChunks } from './embedder';
+import { getVectorStore, getChunkVectorId } from './vector-store';
+import { getActiveCollection, getCollectionModel, assertSameModel, recordCollection } from './collections';
+import { withIngestLock } from './ingest';
+import { openTargetDb, findSource, listSources } from './sources';
+import { TagFilter } from './tags';
+import { TargetConfig } from './targets';
+
+export interface SummarizeResult {
+    success: boolean;
+    target?: string;
+    source?: { id: number, url: string, title: string };
+    summary?: string;
+    generated?: boolean;        // False when the stored summary was returned
+    error?: string;
+}
+
+export interface SynthesisOptions {
+    tags?: TagFilter;
+    type?: string;
+    since?: string;
+    until?: string;
+    limit?: number;             // Most recent sources included (default 20)
+    generateMissing?: boolean;  // Generate and store the summaries sources lack, instead of leaving them out
+}
+
+export interface SynthesisResult {
+    success: boolean;
+    target?: string;
+    summary?: string;           // Cites sources as [Source N], numbered like `sources`
+    sources?: { id: number, url: string, title: string, summary: string }[];
+    missingSummaries?: number;  // Matching sources left out because they have no summary
+    error?: string;
+}
+
+// Content up to this length is summarized in one call; longer content is split into
+// sections that are summarized separately and then combined (map-reduce)
+const SINGLE_PASS_CHARS = 12000;
+const SECTION_CHARS = 8000;
+
+const SYSTEM_INSTRUCTION = "You write concise, factual summaries for a personal knowledge base. Use only the given text.";
+
+// Splits text into sections of at most SECTION_CHARS, at sentence boundaries where possible
+function splitSections(content: string): string[] {
+    const sections: string[] = [];
+    let current = '';
+    for (const sentence of content.split(/(?<=[.!?])\s+/)) {
+        for (let start = 0; start < sentence.length; start += SECTION_CHARS) {
+            const piece = sentence.slice(start, start + SECTION_CHARS);
+            if (current && current.length + piece.length + 1 > SECTION_CHARS) {
+                sections.push(current);
+                current = '';
+            }
+            current += (current ? ' ' : '') + piece;
+        }
+    }
+    if (current) sections.push(current);
+    return sections;
+}
+
+/**
+ * Summarizes a document with the generation providers. Long content (PDFs,
+ * transcripts) is summarized section by section and the partial summaries are then
+ * combined, recursively if they are still too long.
+ */
+export async function summarizeContent(title: string, content: string): Promise<string> {
+    if (content.length <= SINGLE_PASS_CHARS) {
+        const prompt = `
+        Summarize the following document in one paragraph of 3 to 6 sentences, followed by up to 5 bullet points with its key facts or claims.
+
+        Title: ${title}
+
+        Document:
+        ${content}
+        `;
+        return (await generateText(prompt, SYSTEM_INSTRUCTION)).trim();
+    }
+
+    const sections = splitSections(content);
+    console.error(`Summarizing ${sections.length} sections of "${title}"...`);
+    const partials: string[] = [];
+    for (const [i, section] of sections.entries()) {
+        const prompt = `
+        Summarize part ${i + 1} of ${sections.length} of the document "${title}" in a few sentences, keeping names, numbers and conclusions.
+
+        Part ${i + 1}:
+        ${section}
+        `;
+        partials.push((await generateText(prompt, SYSTEM_INSTRUCTION)).trim());
+    }
+    return summarizeContent(title, partials.map((partial, i) => `Part ${i + 1}: ${partial}`).join('\n\n'));
+}
+
+/**
+ * Stores a source's summary in sources.summary and as its summary chunk, replacing
+ * any previous one, and embeds that chunk into the target's active collection so
+ * retrieval can match the overview. Holds the ingestion lock, so a reindex can't
+ * switch the active collection meanwhile.
+ */
+export async function storeSummary(target: TargetConfig, db: Database, row: any, summary: string): Promise<void> {
+    await withIngestLock(async () => {
+        const collection = await getActiveCollection(target);
+        const collectionName = collection ? collection.name : target.collectionName;
+        const embedded = await embedChunks([{ content: summary, chunk_index: -1, kind: 'summary' }], collection ? getCollectionModel(collection) : undefined);
+        assertSameModel(collection, embedded.model!);
+
+        const store = getVectorStore(target, collectionName);
+        const previous = await db.all("SELECT id FROM chunks WHERE source_id = ? AND kind = 'summary'", row.id);
+        await withTransaction(db, async () => {
+            await db.run('UPDATE sources SET summary = ? WHERE id = ?', summary, row.id);
+            await db.run("DELETE FROM chunks WHERE source_id = ? AND kind = 'summary'", row.id);
+            const chunkId = (await db.run("INSERT INTO chunks (source_id, chunk_index, content, kind) VALUES (?, -1, ?, 'summary')", row.id, summary)).lastID!;
+            // Written before the commit: if the vector store fails, the old summary stays in place
+            await store.addChunks(
+                [{ id: chunkId, source_id: row.id, content: summary, url: row.url, title: row.title, tags: JSON.parse(row.tags || '[]'),
+                    source_type: row.source_type, created_at: row.created_at, kind: 'summary' }],
+                [embedded.chunks[0].embedding]
+            );
+        });
+        if (!collection) await recordCollection(target, collectionName, embedded.model!);
+
+        // The new vector is stored; a failure here only leaves an orphan for `doctor --repair`
+        if (previous.length > 0) {
+            try {
+                await store.deleteVectors(previous.map(chunk => getChunkVectorId(row.id, chunk.id)));
+            } catch (error: any) {
+                console.error(`Failed to delete the previous summary vector of source #${row.id}:`, error.message);
+            }
+        }
+    });
+}
+
+// Returns the stored summary, generating and storing one if there is none (or if asked to)
+async function ensureSummary(target: TargetConfig, db: Database, row: any, regenerate: boolean): Promise<{ summary: string, generated: boolean }> {
+    if (row.summary && !regenerate) return { summary: row.summary, generated: false };
+    console.error(`Summarizing source #${row.id}: ${row.title}`);
+    const summary = await summarizeContent(row.title, row.raw_content || '');
+    await storeSummary(target, db, row, summary);
+    return { summary, generated: true };
+}
+
+/**
+ * Returns a source's summary, generating it first for sources ingested before
+ * summaries existed, or when `regenerate` is set.
+ */
+export async function summarizeSource(target: TargetConfig, ref: string, regenerate = false): Promise<SummarizeResult> {
+    try {
+        const db = await openTargetDb(target);
+        const row = await findSource(db, ref);
+        if (!row) {
+            return { success: false, error: `Source not found in target ${target.name}: ${ref}` };
+        }
+        const { summary, generated } = await ensureSummary(target, db, row, regenerate);
+        return { success: true, target: target.name, source: { id: row.id, url: row.url, title: row.title }, summary, generated };
+    } catch (error: any) {
+        console.error("Failed to summarize source:", error.message);
+        return { success: false, error: `Failed to summarize source: ${error.message}` };
+    }
+}
+
+/**
+ * Writes one synthesis across the sources matching the filters (newest first, up to
+ * `limit`), from their per-source summaries, citing them as [Source N]. Sources
+ * without a summary are left out unless `generateMissing` is set.
+ */
+export async function summarizeSources(target: TargetConfig, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    try {
+        const listed = await listSources(target, { tags: options.tags, type: options.type, since: options.since, until: options.until, limit: options.limit ?? 20 });
+        if (!listed.success) return { success: false, error: listed.error };
+        if (listed.sources!.length === 0) {
+            return { success: false, error: `No sources in target ${target.name} match the filters.` };
+        }
+
+        const db = await openTargetDb(target);
+        const sources: { id: number, url: string, title: string, summary: string }[] = [];
+        let missingSummaries = 0;
+        for (const listedSource of listed.sources!) {
+            const row = await findSource(db, String(listedSource.id));
+            if (!row.summary && !options.generateMissing) {
+                missingSummaries++;
+                continue;
+            }
+            const { summary } = await ensureSummary(target, db, row, false);
+            sources.push({ id: row.id, url: row.url, title: row.title, summary });
+        }
+        if (sources.length === 0) {
+            return { success: false, error: `None of the ${missingSummaries} matching sources in target ${target.name} has a summary. Use --generate-missing to generate them.` };
+        }
+        if (missingSummaries > 0) {
+            console.error(`Left out ${missingSummaries} source(s) without a summary; --generate-missing generates and stores them.`);
+        }
+
+        console.error(`Synthesizing ${sources.length} source summaries...`);
+        const context = sources.map((source, i) =>
+            `Source ${i + 1} (URL: ${source.url}, Title: ${source.title}):\n${source.summary}`
+        ).join('\n\n---\n\n');
+        const prompt = `
+        Write a synthesis of the following sources: the main themes, where they agree or disagree, and notable facts.
+        Use ONLY these summaries. Cite every claim with the Source numbers it comes from (e.g., [Source 1], [Source 2, Source 4]).
+
+        Sources:
+        ${context}
+        `;
+        const summary = (await generateText(prompt, SYSTEM_INSTRUCTION)).trim();
+        return { success: true, target: target.name, summary, sources, missingSummaries };
+    } catch (error: any) {
+        console.error("Failed to summarize sources:", error.message);
+        return { success: false, error: `Failed to summarize sources: ${error.message}` };
+    }
+}
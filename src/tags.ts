@@ -0,0 +1,249 @@
+import { Database } from 'sqlite';
+import { getDbConnection, initializeSchema, withTransaction } from './database';
+import { getActiveVectorStore } from './collections';
+import { TargetConfig } from './targets';
+
+// Sources must carry all of `all`, at least one of `any` and none of `not`
+export interface TagFilter {
+    all?: string[];
+    any?: string[];
+    not?: string[];
+}
+
+export interface TagCount {
+    name: string;
+    sources: number;
+}
+
+export interface TagListResult {
+    success: boolean;
+    target?: string;
+    tags?: TagCount[];
+    error?: string;
+}
+
+export interface TagUpdateResult {
+    success: boolean;
+    target?: string;
+    tag?: string;
+    sources?: number; // Number of sources whose tags changed
+    error?: string;
+}
+
+/**
+ * Canonical form of a tag: trimmed, lower-case, inner whitespace collapsed to '-'.
+ * "Machine Learning" and "machine-learning" are the same tag.
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function normalizeTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+export function describeTagFilter(filter: TagFilter): string {
+    const parts = [
+        filter.all && filter.all.length > 0 ? `all of ${filter.all.join(', ')}` : '',
+        filter.any && filter.any.length > 0 ? `any of ${filter.any.join(', ')}` : '',
+        filter.not && filter.not.length > 0 ? `none of ${filter.not.join(', ')}` : '',
+    ].filter(Boolean);
+    return parts.join('; ') || 'none';
+}
+
+export function hasTagFilter(filter?: TagFilter): boolean {
+    return !!filter && [filter.all, filter.any, filter.not].some(tags => !!tags && tags.length > 0);
+}
+
+/**
+ * SQL condition (with its parameters) selecting the rows of `sourceIdColumn` that
+ * satisfy the filter. Tags are matched exactly after normalization.
+ */
+export function tagFilterCondition(filter: TagFilter, sourceIdColumn = 'sources.id'): { sql: string, params: string[] } {
+    const hasTag = (count: number) =>
+        `EXISTS (SELECT 1 FROM source_tags JOIN tags ON tags.id = source_tags.tag_id
+                 WHERE source_tags.source_id = ${sourceIdColumn} AND tags.name IN (${Array(count).fill('?').join(',')}))`;
+
+    const conditions: string[] = [];
+    const params: string[] = [];
+    for (const tag of normalizeTags(filter.all || [])) {
+        conditions.push(hasTag(1));
+        params.push(tag);
+    }
+    const any = normalizeTags(filter.any || []);
+    if (any.length > 0) {
+        conditions.push(hasTag(any.length));
+        params.push(...any);
+    }
+    const not = normalizeTags(filter.not || []);
+    if (not.length > 0) {
+        conditions.push(`NOT ${hasTag(not.length)}`);
+        params.push(...not);
+    }
+    return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1', params };
+}
+
+/**
+ * IDs of the sources matching a tag filter. Vector searches filter on these
+ * (source_id $in [...]) so tag matching is exact in every backend.
+ */
+export async function findTaggedSourceIds(db: Database, filter: TagFilter): Promise<number[]> {
+    const { sql, params } = tagFilterCondition(filter);
+    const rows = await db.all(`SELECT id FROM sources WHERE ${sql}`, ...params);
+    return rows.map(row => row.id);
+}
+
+export async function pruneUnusedTags(db: Database): Promise<void> {
+    await db.run('DELETE FROM tags WHERE NOT EXISTS (SELECT 1 FROM source_tags WHERE source_tags.tag_id = tags.id)');
+}
+
+/**
+ * Replaces a source's tags in source_tags and in the denormalized sources.tags JSON
+ * column. Returns the normalized tags written.
+ */
+export async function setSourceTags(db: Database, sourceId: number, tags: string[]): Promise<string[]> {
+    const normalized = normalizeTags(tags);
+    await db.run('DELETE FROM source_tags WHERE source_id = ?', sourceId);
+    for (const tag of normalized) {
+        await db.run('INSERT OR IGNORE INTO tags (name) VALUES (?)', tag);
+        await db.run('INSERT INTO source_tags (source_id, tag_id) SELECT ?, id FROM tags WHERE name = ?', sourceId, tag);
+    }
+    await db.run('UPDATE sources SET tags = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', JSON.stringify(normalized), sourceId);
+    await pruneUnusedTags(db);
+    return normalized;
+}
+
+/**
+ * Fills tags/source_tags from the sources.tags JSON column of a database that
+ * predates the tag tables, normalizing the tags on the way.
+ */
+export async function migrateJsonTags(db: Database): Promise<void> {
+    const rows = await db.all('SELECT id, tags FROM sources');
+    for (const row of rows) {
+        let tags: string[] = [];
+        try {
+            const parsed = JSON.parse(row.tags || '[]');
+            if (Array.isArray(parsed)) tags = parsed.map(String);
+        } catch (e) {
+            // Unparseable tags are dropped
+        }
+        const normalized = normalizeTags(tags);
+        for (const tag of normalized) {
+            await db.run('INSERT OR IGNORE INTO tags (name) VALUES (?)', tag);
+            await db.run('INSERT OR IGNORE INTO source_tags (source_id, tag_id) SELECT ?, id FROM tags WHERE name = ?', row.id, tag);
+        }
+        await db.run('UPDATE sources SET tags = ? WHERE id = ?', JSON.stringify(normalized), row.id);
+    }
+    if (rows.length > 0) {
+        console.error(`Migrated tags of ${rows.length} sources to the tags table.`);
+    }
+}
+
+export async function listTags(target: TargetConfig): Promise<TagListResult> {
+    try {
+        await initializeSchema(target.dbPath);
+        const db = await getDbConnection(target.dbPath);
+        const tags = await db.all(
+            `SELECT tags.name, COUNT(*) AS sources FROM tags
+             JOIN source_tags ON source_tags.tag_id = tags.id
+             GROUP BY tags.id ORDER BY sources DESC, tags.name`
+        );
+        return { success: true, target: target.name, tags };
+    } catch (error: any) {
+        console.error("Failed to list tags:", error.message);
+        return { success: false, error: `Failed to list tags: ${error.message}` };
+    }
+}
+
+/**
+ * Applies `transform` to the tags of every source carrying one of `affected`, in a
+ * single SQLite transaction, then mirrors the new tags onto the sources' vectors.
+ */
+async function rewriteTags(target: TargetConfig, affected: string[], transform: (tags: string[]) => string[]): Promise<number> {
+    await initializeSchema(target.dbPath);
+    const db = await getDbConnection(target.dbPath);
+    const sourceIds = await findTaggedSourceIds(db, { any: affected });
+
+    const updated = new Map<number, string[]>();
+    await withTransaction(db, async () => {
+        for (const sourceId of sourceIds) {
+            const row = await db.get('SELECT tags FROM sources WHERE id = ?', sourceId);
+            updated.set(sourceId, await setSourceTags(db, sourceId, transform(JSON.parse(row.tags || '[]'))));
+        }
+    });
+    console.error(`Updated tags of ${updated.size} sources in SQLite (${target.name}).`);
+
+    if (updated.size > 0) {
+        try {
+            const store = await getActiveVectorStore(target);
+            for (const [sourceId, tags] of updated) {
+                await store.updateSourceTags(sourceId, tags);
+            }
+        } catch (error: any) {
+            throw new Error(`Tags were saved to SQLite but the vector store update failed: ${error.message}`);
+        }
+    }
+    return updated.size;
+}
+
+async function tagExists(target: TargetConfig, tag: string): Promise<boolean> {
+    await initializeSchema(target.dbPath);
+    const db = await getDbConnection(target.dbPath);
+    return !!(await db.get('SELECT 1 FROM tags WHERE name = ?', tag));
+}
+
+export async function renameTag(target: TargetConfig, from: string, to: string): Promise<TagUpdateResult> {
+    try {
+        const oldTag = normalizeTag(from);
+        const newTag = normalizeTag(to);
+        if (!newTag) {
+            return { success: false, error: 'The new tag name is empty.' };
+        }
+        if (!(await tagExists(target, oldTag))) {
+            return { success: false, error: `Tag not found in target ${target.name}: ${oldTag}` };
+        }
+        if (oldTag !== newTag && await tagExists(target, newTag)) {
+            return { success: false, error: `Tag '${newTag}' already exists in target ${target.name}. Use 'tags merge' to combine them.` };
+        }
+
+        const sources = await rewriteTags(target, [oldTag], tags => tags.map(tag => tag === oldTag ? newTag : tag));
+        return { success: true, target: target.name, tag: newTag, sources };
+    } catch (error: any) {
+        console.error("Failed to rename tag:", error.message);
+        return { success: false, error: `Failed to rename tag: ${error.message}` };
+    }
+}
+
+/**
+ * Replaces every tag in `from` with `into` (which may be new or already in use).
+ */
+export async function mergeTags(target: TargetConfig, from: string[], into: string): Promise<TagUpdateResult> {
+    try {
+        const merged = normalizeTags(from);
+        const intoTag = normalizeTag(into);
+        if (!intoTag) {
+            return { success: false, error: 'The tag to merge into is empty.' };
+        }
+
+        const sources = await rewriteTags(target, merged, tags => tags.map(tag => merged.includes(tag) ? intoTag : tag));
+        return { success: true, target: target.name, tag: intoTag, sources };
+    } catch (error: any) {
+        console.error("Failed to merge tags:", error.message);
+        return { success: false, error: `Failed to merge tags: ${error.message}` };
+    }
+}
+
+export async function deleteTag(target: TargetConfig, tag: string): Promise<TagUpdateResult> {
+    try {
+        const deleted = normalizeTag(tag);
+        if (!(await tagExists(target, deleted))) {
+            return { success: false, error: `Tag not found in target ${target.name}: ${deleted}` };
+        }
+
+        const sources = await rewriteTags(target, [deleted], tags => tags.filter(t => t !== deleted));
+        return { success: true, target: target.name, tag: deleted, sources };
+    } catch (error: any) {
+        console.error("Failed to delete tag:", error.message);
+        return { success: false, error: `Failed to delete tag: ${error.message}` };
+    }
+}
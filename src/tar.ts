@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Minimal POSIX (ustar) tar support for export bundles: regular files only, with
+// PAX headers for paths longer than the ustar name field. Readable by any tar tool.
+
+const BLOCK_SIZE = 512;
+const COPY_BUFFER_SIZE = 1024 * 1024;
+
+export interface TarEntry {
+    name: string;       // Path inside the archive, '/'-separated
+    file?: string;      // File to read the content from...
+    content?: Buffer;   // ...or the content itself
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+    header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+    writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+}
+
+function buildHeader(name: string, size: number, type: string, mtime: Date): Buffer {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    writeString(header, name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write(type, 156, 1, 'ascii');
+    header.write('ustar\u000000', 257, 8, 'ascii');
+    // The checksum is computed with its own field filled with spaces
+    header.fill(' ', 148, 156);
+    let checksum = 0;
+    for (const byte of header) checksum += byte;
+    writeString(header, checksum.toString(8).padStart(6, '0') + '\u0000 ', 148, 8);
+    return header;
+}
+
+// A PAX extended header record: "<length> path=<name>\n", the length counting itself
+function paxRecord(key: string, value: string): string {
+    const body = ` ${key}=${value}\n`;
+    let length = Buffer.byteLength(body) + 1;
+    while (String(length).length + Buffer.byteLength(body) !== length) length++;
+    return `${length}${body}`;
+}
+
+// The end of `name` that fits in `bytes` bytes of UTF-8, without splitting a character
+function utf8Tail(name: string, bytes: number): string {
+    const chars = Array.from(name);
+    let start = chars.length;
+    let length = 0;
+    while (start > 0 && length + Buffer.byteLength(chars[start - 1]) <= bytes) {
+        start--;
+        length += Buffer.byteLength(chars[start]);
+    }
+    return chars.slice(start).join('');
+}
+
+function writePadding(fd: number, size: number): void {
+    const remainder = size % BLOCK_SIZE;
+    if (remainder > 0) fs.writeSync(fd, Buffer.alloc(BLOCK_SIZE - remainder));
+}
+
+/**
+ * Writes a tar archive of the entries to `tarPath`. File contents are copied in
+ * blocks, so large files are never held in memory.
+ */
+export function writeTar(tarPath: string, entries: TarEntry[]): void {
+    const fd = fs.openSync(tarPath, 'w');
+    try {
+        for (const entry of entries) {
+            const size = entry.file ? fs.statSync(entry.file).size : entry.content!.length;
+            const mtime = entry.file ? fs.statSync(entry.file).mtime : new Date();
+            let name = entry.name;
+            if (Buffer.byteLength(name) > 100) {
+                const pax = Buffer.from(paxRecord('path', name), 'utf-8');
+                fs.writeSync(fd, buildHeader('PaxHeader', pax.length, 'x', mtime));
+                fs.writeSync(fd, pax);
+                writePadding(fd, pax.length);
+                name = utf8Tail(name, 100); // Fallback for readers without PAX support
+            }
+            fs.writeSync(fd, buildHeader(name, size, '0', mtime));
+
+            if (entry.file) {
+                const input = fs.openSync(entry.file, 'r');
+                const buffer = Buffer.alloc(COPY_BUFFER_SIZE);
+                try {
+                    let read: number;
+                    while ((read = fs.readSync(input, buffer, 0, buffer.length, null)) > 0) {
+                        fs.writeSync(fd, buffer, 0, read);
+                    }
+                } finally {
+                    fs.closeSync(input);
+                }
+            } else {
+                fs.writeSync(fd, entry.content!);
+            }
+            writePadding(fd, size);
+        }
+        // End of archive: two empty blocks
+        fs.writeSync(fd, Buffer.alloc(BLOCK_SIZE * 2));
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+    const field = header.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+    return parseInt(readString(header, offset, length).trim() || '0', 8);
+}
+
+function readExactly(fd: number, size: number): Buffer {
+    const buffer = Buffer.alloc(size);
+    let offset = 0;
+    while (offset < size) {
+        const read = fs.readSync(fd, buffer, offset, size - offset, null);
+        if (read === 0) throw new Error("Unexpected end of tar archive.");
+        offset += read;
+    }
+    return buffer;
+}
+
+/**
+ * Extracts the regular files of a tar archive into `destDir` and returns their
+ * archive paths. Entries that would land outside `destDir` are refused.
+ */
+export function extractTar(tarPath: string, destDir: string): string[] {
+    const fd = fs.openSync(tarPath, 'r');
+    const root = path.resolve(destDir);
+    const names: string[] = [];
+    let paxPath: string | undefined;
+    try {
+        for (;;) {
+            const header = readExactly(fd, BLOCK_SIZE);
+            if (header.every(byte => byte === 0)) break;
+            if (readString(header, 257, 5) !== 'ustar') throw new Error("Not a tar archive (missing ustar header).");
+
+            const size = readOctal(header, 124, 12);
+            const type = String.fromCharCode(header[156]);
+            const padded = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+            if (type === 'x') {
+                const records = readExactly(fd, padded).subarray(0, size).toString('utf-8');
+                const match = records.match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+                paxPath = match ? match[1] : undefined;
+                continue;
+            }
+
+            const prefix = readString(header, 345, 155);
+            const name = paxPath || (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+            paxPath = undefined;
+            if (type !== '0' && type !== '\u0000') {
+                // Directories are created with their files; links and others are skipped
+                if (padded > 0) readExactly(fd, padded);
+                continue;
+            }
+
+            const outPath = path.resolve(root, name);
+            if (!outPath.startsWith(root + path.sep)) throw new Error(`Refusing to extract ${name} outside the destination.`);
+            fs.mkdirSync(path.dirname(outPath), { recursive: true });
+            const out = fs.openSync(outPath, 'w');
+            try {
+                let remaining = size;
+                while (remaining > 0) {
+                    const chunk = readExactly(fd, Math.min(remaining, COPY_BUFFER_SIZE));
+                    fs.writeSync(out, chunk);
+                    remaining -= chunk.length;
+                }
+            } finally {
+                fs.closeSync(out);
+            }
+            if (padded > size) readExactly(fd, padded - size);
+            names.push(name);
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+    return names;
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { VectorStoreBackend, VECTOR_STORE_BACKENDS } from './vector-store';
+import { NearDuplicatePolicy, NEAR_DUPLICATE_POLICIES } from './duplicates';
+import { ChunkingOptions, DEFAULT_CHUNKING, validateChunkingOptions } from './chunker';
+import { SourceType, SOURCE_TYPES } from './extractor';
+import { RerankSettings, DEFAULT_RERANK, validateRerankSettings } from './rerank';
+
+export interface ClassifierSettings {
+    enabled: boolean;
+    // Target whose existing tags are offered to the classifier (defaults to the target itself)
+    referenceTarget?: string;
+}
+
+export interface SummarizerSettings {
+    // Generate a summary of each source on ingest and store it as a retrievable chunk
+    enabled: boolean;
+}
+
+export interface DuplicateSettings {
+    // What to do with a source whose content nearly matches a stored one: ingest it
+    // anyway ('off' skips the check), ingest it marked as a near duplicate ('flag'),
+    // or record its URL as an alias of the stored source ('merge')
+    nearDuplicates: NearDuplicatePolicy;
+    // Largest simhash distance (differing bits out of 64) counted as a near duplicate
+    maxDistance: number;
+}
+
+export interface ChunkingSettings extends ChunkingOptions {
+    // Options that differ for a source type, e.g. { "video": { "maxTokens": 120 } }
+    bySourceType: Partial<Record<SourceType, Partial<ChunkingOptions>>>;
+}
+
+export interface TargetConfig {
+    name: string;
+    repoPath: string;
+    dbPath: string;
+    collectionName: string;
+    vectorStore: VectorStoreBackend;
+    // SQLite file holding the vectors when vectorStore is 'local'
+    vectorStorePath: string;
+    defaultTags: string[];
+    classifier: ClassifierSettings;
+    summarizer: SummarizerSettings;
+    duplicates: DuplicateSettings;
+    chunking: ChunkingSettings;
+    rerank: RerankSettings;
+}
+
+// Shape of a single entry in targets.json. Everything except repoPath is optional.
+export interface TargetDefinition {
+    repoPath: string;
+    dbPath?: string;
+    collectionName?: string;
+    vectorStore?: VectorStoreBackend;
+    defaultTags?: string[];
+    classifier?: Partial<ClassifierSettings>;
+    summarizer?: Partial<SummarizerSettings>;
+    duplicates?: Partial<DuplicateSettings>;
+    chunking?: Partial<ChunkingSettings>;
+    rerank?: Partial<RerankSettings>;
+}
+
+interface TargetsFile {
+    defaultTarget?: string;
+    targets: Record<string, TargetDefinition>;
+}
+
+const TARGET_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+function readTargetsFile(): TargetsFile {
+    if (!fs.existsSync(config.targetsConfigPath)) {
+        return { targets: {} };
+    }
+    try {
+        const data = JSON.parse(fs.readFileSync(config.targetsConfigPath, 'utf8'));
+        return { defaultTarget: data.defaultTarget, targets: data.targets || {} };
+    } catch (error: any) {
+        throw new Error(`Could not parse target registry at ${config.targetsConfigPath}: ${error.message}`);
+    }
+}
+
+function writeTargetsFile(file: TargetsFile): void {
+    const tmpPath = `${config.targetsConfigPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2) + '\n', 'utf8');
+    fs.renameSync(tmpPath, config.targetsConfigPath);
+}
+
+/**
+ * Fills in defaults for a registry entry. Relative paths are resolved against
+ * the directory holding targets.json so the file can be shared between machines.
+ */
+function resolveTarget(name: string, definition: TargetDefinition): TargetConfig {
+    if (!definition.repoPath) {
+        throw new Error(`Target '${name}' has no repoPath in ${config.targetsConfigPath}.`);
+    }
+    const baseDir = path.dirname(config.targetsConfigPath);
+    const repoPath = path.resolve(baseDir, definition.repoPath);
+    const dbPath = definition.dbPath ? path.resolve(baseDir, definition.dbPath) : path.join(repoPath, 'knowledge_base.db');
+    const vectorStore = definition.vectorStore || 'chroma';
+    if (!VECTOR_STORE_BACKENDS.includes(vectorStore)) {
+        throw new Error(`Target '${name}' has an unknown vectorStore '${vectorStore}'. Use ${VECTOR_STORE_BACKENDS.join(' or ')}.`);
+    }
+    const nearDuplicates = definition.duplicates?.nearDuplicates || 'flag';
+    if (!NEAR_DUPLICATE_POLICIES.includes(nearDuplicates)) {
+        throw new Error(`Target '${name}' has an unknown duplicates.nearDuplicates '${nearDuplicates}'. Use ${NEAR_DUPLICATE_POLICIES.join(', ')}.`);
+    }
+
+    const { bySourceType = {}, ...chunkingDefaults } = definition.chunking || {};
+    const chunking: ChunkingSettings = { ...DEFAULT_CHUNKING, ...chunkingDefaults, bySourceType };
+    validateChunkingOptions(chunking, `Target '${name}' chunking`);
+    for (const [sourceType, overrides] of Object.entries(bySourceType)) {
+        if (!SOURCE_TYPES.includes(sourceType as SourceType)) {
+            throw new Error(`Target '${name}' has chunking options for an unknown source type '${sourceType}'. Use ${SOURCE_TYPES.join(', ')}.`);
+        }
+        validateChunkingOptions({ ...chunking, ...overrides }, `Target '${name}' chunking.bySourceType.${sourceType}`);
+    }
+
+    const rerank: RerankSettings = { ...DEFAULT_RERANK, ...definition.rerank };
+    validateRerankSettings(rerank, `Target '${name}' rerank`);
+
+    return {
+        name,
+        repoPath,
+        dbPath,
+        collectionName: definition.collectionName || `${name}_kb`,
+        vectorStore,
+        vectorStorePath: path.join(path.dirname(dbPath), 'vectors.db'),
+        defaultTags: definition.defaultTags || [],
+        classifier: {
+            enabled: definition.classifier?.enabled ?? true,
+            referenceTarget: definition.classifier?.referenceTarget,
+        },
+        summarizer: {
+            enabled: definition.summarizer?.enabled ?? true,
+        },
+        duplicates: {
+            nearDuplicates,
+            maxDistance: definition.duplicates?.maxDistance ?? 3,
+        },
+        chunking,
+        rerank,
+    };
+}
+
+export function listTargets(): TargetConfig[] {
+    const file = readTargetsFile();
+    return Object.entries(file.targets).map(([name, definition]) => resolveTarget(name, definition));
+}
+
+export function findTarget(name: string): TargetConfig | undefined {
+    const definition = readTargetsFile().targets[name];
+    return definition ? resolveTarget(name, definition) : undefined;
+}
+
+/**
+ * Looks up a target by name, falling back to the default target when no name is given.
+ */
+export function getTarget(name?: string): TargetConfig {
+    name = name || getDefaultTargetName();
+    const target = findTarget(name);
+    if (!target) {
+        throw new Error(`Unknown target: ${name}. Run 'target list' to see the configured targets.`);
+    }
+    return target;
+}
+
+/**
+ * Returns the target used when a command is run without --target(s):
+ * the registry's defaultTarget, or the first registered target.
+ */
+export function getDefaultTargetName(): string {
+    const file = readTargetsFile();
+    const names = Object.keys(file.targets);
+    if (file.defaultTarget && file.targets[file.defaultTarget]) {
+        return file.defaultTarget;
+    }
+    if (names.length === 0) {
+        throw new Error(`No targets configured. Copy targets.example.json to ${config.targetsConfigPath} or run 'target add'.`);
+    }
+    return names[0];
+}
+
+export function addTarget(name: string, definition: TargetDefinition, makeDefault = false): TargetConfig {
+    if (!TARGET_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid target name '${name}'. Use letters, digits, '_' or '-'.`);
+    }
+    const file = readTargetsFile();
+    if (file.targets[name]) {
+        throw new Error(`Target '${name}' already exists.`);
+    }
+
+    const target = resolveTarget(name, definition);
+    file.targets[name] = definition;
+    if (makeDefault || !file.defaultTarget) {
+        file.defaultTarget = name;
+    }
+    writeTargetsFile(file);
+    return target;
+}
+
+export function removeTarget(name: string): TargetConfig {
+    const file = readTargetsFile();
+    const definition = file.targets[name];
+    if (!definition) {
+        throw new Error(`Unknown target: ${name}.`);
+    }
+
+    const target = resolveTarget(name, definition);
+    delete file.targets[name];
+    if (file.defaultTarget === name) {
+        file.defaultTarget = Object.keys(file.targets)[0];
+    }
+    writeTargetsFile(file);
+    return target;
+}
@@ -1,91 +1,115 @@
+import { TargetConfig } from './targets';
+import { ChunkKind } from './embedder';
+import { sourceDomain } from './extractor';
+import { createChromaVectorStore } from './chroma-vector-store';
+import { createLocalVectorStore } from './local-vector-store';
 
-import { ChromaClient, OpenAIEmbeddingFunction } from 'chromadb';
-import { config } from './config';
+export type VectorStoreBackend = 'chroma' | 'local';
 
-const client = new ChromaClient();
+export const VECTOR_STORE_BACKENDS: VectorStoreBackend[] = ['chroma', 'local'];
 
-// Note: ChromaDB's JS client currently requires an embedding function
-// even if we provide our own embeddings. We can provide a dummy one
-// since we will be generating embeddings ourselves with Google/OpenAI clients.
-const embedder = new OpenAIEmbeddingFunction({ openai_api_key: "dummy-key-not-used" });
+export interface VectorChunk {
+    id: number;
+    source_id: number;
+    content: string;
+    url: string;
+    title: string;
+    tags: string[];
+    source_type: string;
+    created_at: string;     // The source's SQLite DATETIME (UTC)
+    kind?: ChunkKind;
+    // Location (see ChunkLocation); null when read from a chunks row without one
+    page?: number | null;
+    section?: string | null;
+    start_time?: number | null;
+}
 
-// Cache collection objects
-const collections = new Map<string, any>();
+// Metadata stored with every vector. Tags are kept as a comma-separated string
+// because ChromaDB metadata values must be scalars.
+export interface VectorMetadata {
+    source_id: number;
+    content: string;
+    url: string;
+    title: string;
+    tags: string;
+    kind?: string;  // 'summary' for summary chunks; absent on vectors stored before summaries existed
+    page?: number;  // Location fields, only present when the chunk has them
+    section?: string;
+    start_time?: number;
+    // Filter fields, absent on vectors stored before they existed until the
+    // collection is backfilled (see backfillVectorMetadata)
+    source_type?: string;
+    created_at?: number;    // Seconds since the epoch
+    domain?: string;        // Host name without "www.", '' for local files
+    [key: string]: string | number | boolean | undefined;
+}
 
-async function getOrCreateCollection(collectionName: string) {
-    if (collections.has(collectionName)) {
-        return collections.get(collectionName);
-    }
+// ChromaDB-style metadata filter, e.g. { "$and": [{ source_id: { "$in": [1, 2] } }, { tags: { "$contains": "ai" } }] }
+export type WhereFilter = Record<string, any>;
 
-        try {
-            const collection = await client.getCollection({
-                name: collectionName,
-                embeddingFunction: embedder
-            });
-            console.error(`Connected to existing ChromaDB collection: "${collectionName}"`);
-            collections.set(collectionName, collection);
-            return collection;
-        } catch (error: any) {
-            if (error.code === 'ECONNREFUSED') {
-                throw new Error("ChromaDB connection failed. Is ChromaDB running on localhost:8000?");
-            }
-            console.error(`Collection not found. Creating new ChromaDB collection: "${collectionName}"`);
-        const collection = await client.createCollection({
-            name: collectionName,
-            embeddingFunction: embedder
-        });
-        collections.set(collectionName, collection);
-        return collection;
-    }
+export interface VectorMatch {
+    id: string;
+    metadata: VectorMetadata;
+    distance: number; // Lower is closer
 }
 
-export async function addChunksToVectorStore(
-    collectionName: string,
-    chunks: { id: number, source_id: number, content: string, url: string, title: string, tags: string[] }[], 
-    embeddings: number[][]
-) {
-    const coll = await getOrCreateCollection(collectionName);
-    
-    if (chunks.length !== embeddings.length) {
-        throw new Error("Number of chunks and embeddings must match.");
-    }
+/**
+ * A single vector collection. Each backend implements this for one collection name;
+ * get one through getVectorStore().
+ */
+export interface VectorStore {
+    readonly backend: VectorStoreBackend;
+    readonly collectionName: string;
+    addChunks(chunks: VectorChunk[], embeddings: number[][]): Promise<void>;
+    query(queryEmbedding: number[], topN?: number, where?: WhereFilter): Promise<VectorMatch[]>;
+    deleteSourceVectors(sourceId: number): Promise<void>;
+    updateSourceTags(sourceId: number, tags: string[]): Promise<void>;
+    updateSourceMetadata(sourceId: number, metadata: Partial<VectorMetadata>): Promise<number>;
+    getSourceEmbeddings(sourceId: number): Promise<Map<string, number[]>>; // Keyed by vector ID
+    listIds(): Promise<string[]>;
+    deleteVectors(ids: string[]): Promise<void>;
+    deleteCollection(): Promise<void>;
+}
 
-    const ids = chunks.map(chunk => `chunk_${chunk.source_id}_${chunk.id}`); // Make ID unique across DB resets
-    const metadatas = chunks.map(chunk => ({
-        source_id: chunk.source_id,
-        content: chunk.content, 
-        url: chunk.url,
-        title: chunk.title,
-        tags: chunk.tags.join(',')
-    }));
+export function getChunkVectorId(sourceId: number, chunkId: number): string {
+    return `chunk_${sourceId}_${chunkId}`; // Make ID unique across DB resets
+}
 
-    const batchSize = 100;
-    for (let i = 0; i < ids.length; i += batchSize) {
-        const batchIds = ids.slice(i, i + batchSize);
-        const batchEmbeddings = embeddings.slice(i, i + batchSize);
-        const batchMetadatas = metadatas.slice(i, i + batchSize);
+// Seconds since the epoch of an SQLite DATETIME, which is UTC
+export function toUnixTime(datetime: string): number {
+    return Math.floor(Date.parse(`${datetime.replace(' ', 'T')}Z`) / 1000);
+}
 
-        await coll.add({
-            ids: batchIds,
-            embeddings: batchEmbeddings,
-            metadatas: batchMetadatas,
-        });
-        console.error(`Added batch of ${batchIds.length} embeddings to ChromaDB collection '${collectionName}'.`);
-    }
+/**
+ * The metadata query filters match a source's vectors on. created_at is a number
+ * because ChromaDB's range operators only compare numbers.
+ */
+export function sourceFilterMetadata(source: { url: string, source_type: string, created_at: string }): Pick<VectorMetadata, 'source_type' | 'created_at' | 'domain'> {
+    return { source_type: source.source_type, created_at: toUnixTime(source.created_at), domain: sourceDomain(source.url) };
 }
 
-export async function queryVectorStore(collectionName: string, queryEmbedding: number[], topN = 10, whereFilter?: object) {
-    const coll = await getOrCreateCollection(collectionName);
-    
-    const queryOptions: any = {
-        queryEmbeddings: [queryEmbedding],
-        nResults: topN,
+export function toVectorMetadata(chunk: VectorChunk): VectorMetadata {
+    return {
+        source_id: chunk.source_id,
+        content: chunk.content,
+        url: chunk.url,
+        title: chunk.title,
+        tags: chunk.tags.join(','),
+        kind: chunk.kind || 'content',
+        ...sourceFilterMetadata(chunk),
+        // Chroma rejects null metadata values, so absent locations are left out
+        ...(chunk.page != null ? { page: chunk.page } : {}),
+        ...(chunk.section != null ? { section: chunk.section } : {}),
+        ...(chunk.start_time != null ? { start_time: chunk.start_time } : {}),
     };
+}
 
-    if (whereFilter && Object.keys(whereFilter).length > 0) {
-        queryOptions.where = whereFilter;
-    }
-
-    const results = await coll.query(queryOptions);
-    return results;
+/**
+ * Opens a collection in the target's configured backend: the ChromaDB server, or the
+ * local vectors.db file stored next to the target's knowledge_base.db.
+ */
+export function getVectorStore(target: TargetConfig, collectionName: string): VectorStore {
+    return target.vectorStore === 'local'
+        ? createLocalVectorStore(target.vectorStorePath, collectionName)
+        : createChromaVectorStore(collectionName);
 }